@@ -5,6 +5,8 @@ import { ThemeProvider } from "@/components/theme-provider"
 import { GameContextProvider } from "@/components/game-context-provider"
 import { Web3Provider } from "@/components/web3-provider"
 import { ContractMultiplayerProvider } from "@/components/contract-multiplayer-provider"
+import { ArenaStatusProvider } from "@/components/arena-status-provider"
+import ArenaPausedBanner from "@/components/arena-paused-banner"
 import { ErrorBoundary } from "@/components/error-boundary"
 
 export const metadata = {
@@ -23,11 +25,14 @@ export default function RootLayout({
       <body className="min-h-screen bg-gradient-to-b from-gray-900 to-black text-white">
         <ErrorBoundary>
           <Web3Provider>
-            <ContractMultiplayerProvider>
-              <ThemeProvider attribute="class" defaultTheme="dark" enableSystem={false}>
-                <GameContextProvider>{children}</GameContextProvider>
-              </ThemeProvider>
-            </ContractMultiplayerProvider>
+            <ArenaStatusProvider>
+              <ContractMultiplayerProvider>
+                <ThemeProvider attribute="class" defaultTheme="dark" enableSystem={false}>
+                  <ArenaPausedBanner />
+                  <GameContextProvider>{children}</GameContextProvider>
+                </ThemeProvider>
+              </ContractMultiplayerProvider>
+            </ArenaStatusProvider>
           </Web3Provider>
         </ErrorBoundary>
       </body>
@@ -16,6 +16,13 @@ import CreateRoomContract from "@/components/create-room-contract"
 import CreatePvPRoom from "@/components/create-pvp-room"
 import JoinRoom from "@/components/join-room"
 import JoinPvPRoom from "@/components/join-pvp-room"
+import QuickMatch from "@/components/quick-match"
+import ResumeMatchPrompt from "@/components/resume-match-prompt"
+import SpectateMatch from "@/components/spectate-match"
+import MatchHistory from "@/components/match-history"
+import Leaderboard from "@/components/leaderboard"
+import StakingPnl from "@/components/staking-pnl"
+import AdminConsole from "@/components/admin-console"
 import MultiplayerBattleRoom from "@/components/multiplayer-battle-room"
 import ContractBattleRoom from "@/components/contract-battle-room"
 import MultiplayerBattle from "@/components/multiplayer-battle"
@@ -39,6 +46,12 @@ export type GameScreen =
   | "create-pvp-room"
   | "join-room"
   | "join-pvp-room"
+  | "quick-match"
+  | "spectate-match"
+  | "match-history"
+  | "leaderboard"
+  | "staking-pnl"
+  | "admin-console"
   | "multiplayer-room"
   | "contract-battle-room"
   | "multiplayer-character-select"
@@ -125,6 +138,13 @@ function GameContent() {
     }
   }
 
+  // Pick up a contract match left behind by a page reload
+  const handleResumeMatch = (roomId: string, status: "waiting" | "playing" | "completed") => {
+    setActiveRoomId(roomId)
+    setGameMode("multiplayer")
+    setCurrentScreen(status === "waiting" ? "contract-battle-room" : "contract-pvp-battle")
+  }
+
   return (
     <>
       {/* ADD NOTIFICATIONS COMPONENT HERE - RIGHT AFTER THE OPENING FRAGMENT */}
@@ -137,6 +157,10 @@ function GameContent() {
 
         {currentScreen === "loading" && <LoadingScreen />}
 
+        {(currentScreen === "main-menu" || currentScreen === "multiplayer-menu") && (
+          <ResumeMatchPrompt onResume={handleResumeMatch} />
+        )}
+
         {currentScreen === "main-menu" && (
           <MainMenu
             onPlay={() => {
@@ -189,6 +213,12 @@ function GameContent() {
             onCreateRoom={() => setCurrentScreen("create-pvp-room")}
             onCreateContractRoom={() => setCurrentScreen("create-room-contract")}
             onJoinRoom={() => setCurrentScreen("join-pvp-room")}
+            onQuickMatch={() => setCurrentScreen("quick-match")}
+            onSpectate={() => setCurrentScreen("spectate-match")}
+            onMatchHistory={() => setCurrentScreen("match-history")}
+            onLeaderboard={() => setCurrentScreen("leaderboard")}
+            onStakingPnl={() => setCurrentScreen("staking-pnl")}
+            onAdminConsole={() => setCurrentScreen("admin-console")}
             onBack={() => setCurrentScreen("main-menu")}
           />
         )}
@@ -228,6 +258,34 @@ function GameContent() {
           />
         )}
 
+        {currentScreen === "quick-match" && (
+          <QuickMatch
+            onBack={() => setCurrentScreen("multiplayer-menu")}
+            onRoomCreated={handleRoomCreated}
+            onRoomJoined={handleRoomJoined}
+          />
+        )}
+
+        {currentScreen === "spectate-match" && (
+          <SpectateMatch onBack={() => setCurrentScreen("multiplayer-menu")} />
+        )}
+
+        {currentScreen === "match-history" && (
+          <MatchHistory onBack={() => setCurrentScreen("multiplayer-menu")} />
+        )}
+
+        {currentScreen === "leaderboard" && (
+          <Leaderboard onBack={() => setCurrentScreen("multiplayer-menu")} />
+        )}
+
+        {currentScreen === "staking-pnl" && (
+          <StakingPnl onBack={() => setCurrentScreen("multiplayer-menu")} />
+        )}
+
+        {currentScreen === "admin-console" && (
+          <AdminConsole onBack={() => setCurrentScreen("multiplayer-menu")} />
+        )}
+
         {currentScreen === "multiplayer-room" && (
           <MultiplayerBattleRoom
             onBack={() => {
@@ -0,0 +1,391 @@
+// components/admin-console.tsx - Owner-only controls for fees, pausing, stuck matches and ownership
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, AlertTriangle, RefreshCw, Shield, Pause, Play, Coins, Percent, UserCog, Ban } from "lucide-react"
+import { motion } from "framer-motion"
+import { isAddress, type Address } from "viem"
+import { useArenaAdmin, type StuckMatch } from "@/hooks/use-arena-admin"
+import { GAME_CONSTANTS } from "@/lib/contract-config"
+import { Web3Utils } from "@/lib/Web3-Utils"
+import { formatFeePercent } from "@/lib/payout"
+import { playSound } from "@/lib/sound-utils"
+
+interface AdminConsoleProps {
+  onBack: () => void
+}
+
+interface PendingConfirmation {
+  title: string
+  description: string
+  confirmLabel: string
+  destructive?: boolean
+  onConfirm: () => Promise<boolean>
+}
+
+const formatDuration = (seconds: number) => {
+  const days = Math.floor(seconds / 86400)
+  return days > 0 ? `${days}d ${Math.floor((seconds % 86400) / 3600)}h` : Web3Utils.formatTime(seconds)
+}
+
+export default function AdminConsole({ onBack }: AdminConsoleProps) {
+  const admin = useArenaAdmin()
+  const [feeInput, setFeeInput] = useState("")
+  const [newOwnerInput, setNewOwnerInput] = useState("")
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null)
+
+  const now = Math.floor(Date.now() / 1000)
+  const withdrawable = admin.contractBalance > admin.escrowedStakes ? admin.contractBalance - admin.escrowedStakes : 0n
+  const isBusy = admin.pendingAction !== null
+
+  const requestConfirmation = (pending: PendingConfirmation) => {
+    playSound("button-click.mp3")
+    setConfirmation(pending)
+  }
+
+  const handleConfirm = async () => {
+    if (!confirmation) return
+    const { onConfirm } = confirmation
+    setConfirmation(null)
+    await onConfirm()
+  }
+
+  const feePercent = parseFloat(feeInput)
+  const feeBasisPoints = Math.round(feePercent * 100)
+  const isFeeValid = !isNaN(feePercent) && feeBasisPoints >= 0 && feeBasisPoints <= GAME_CONSTANTS.MAX_PLATFORM_FEE
+
+  const handleSetFee = () => {
+    requestConfirmation({
+      title: "Change platform fee?",
+      description: `The fee taken from every completed match changes from ${
+        admin.platformFee !== null ? formatFeePercent(admin.platformFee) : "the current rate"
+      } to ${formatFeePercent(feeBasisPoints)}. Matches already in progress are charged the new fee when they finish.`,
+      confirmLabel: "Set Fee",
+      onConfirm: async () => {
+        const success = await admin.setPlatformFee(feeBasisPoints)
+        if (success) setFeeInput("")
+        return success
+      }
+    })
+  }
+
+  const handleTogglePause = () => {
+    requestConfirmation(admin.paused
+      ? {
+          title: "Unpause the arena?",
+          description: "Players can acquire characters, create and join matches and make moves again.",
+          confirmLabel: "Unpause",
+          onConfirm: admin.unpause
+        }
+      : {
+          title: "Pause the arena?",
+          description: "Character purchases, new and joined matches, moves and timeout claims all revert until you unpause. Turn timers keep running while paused.",
+          confirmLabel: "Pause",
+          destructive: true,
+          onConfirm: admin.pause
+        })
+  }
+
+  const handleWithdraw = () => {
+    requestConfirmation({
+      title: "Withdraw platform fees?",
+      description: admin.escrowedStakes > 0n
+        ? `The contract sends its whole balance of ${Web3Utils.formatEth(admin.contractBalance)} ETH to the owner, including ${Web3Utils.formatEth(admin.escrowedStakes)} ETH staked in unfinished matches. Those matches cannot pay out or refund until the stakes are sent back.`
+        : `The contract sends its whole balance of ${Web3Utils.formatEth(admin.contractBalance)} ETH to the owner.`,
+      confirmLabel: "Withdraw",
+      destructive: admin.escrowedStakes > 0n,
+      onConfirm: admin.withdrawPlatformFees
+    })
+  }
+
+  const handleCancelMatch = (match: StuckMatch) => {
+    requestConfirmation({
+      title: `Cancel arena #${match.matchId}?`,
+      description: `The match ends with no winner and both players get their ${Web3Utils.formatEth(match.stake)} ETH stake back. This cannot be undone.`,
+      confirmLabel: "Cancel Match",
+      destructive: true,
+      onConfirm: () => admin.emergencyCancelMatch(match.matchId)
+    })
+  }
+
+  const handleTransferOwnership = () => {
+    requestConfirmation({
+      title: "Transfer ownership?",
+      description: `${newOwnerInput} becomes the contract owner. You lose access to this console immediately and cannot take ownership back.`,
+      confirmLabel: "Transfer",
+      destructive: true,
+      onConfirm: async () => {
+        const success = await admin.transferOwnership(newOwnerInput as Address)
+        if (success) setNewOwnerInput("")
+        return success
+      }
+    })
+  }
+
+  if (!admin.isOwner) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+        <div className="bg-black/40 backdrop-blur-lg rounded-xl p-8 max-w-lg w-full space-y-4">
+          <Alert className="border-red-500/50 bg-red-500/10">
+            <Shield className="h-4 w-4" />
+            <AlertTitle>Owner Only</AlertTitle>
+            <AlertDescription>Connect the contract owner's wallet to use the admin console.</AlertDescription>
+          </Alert>
+          <Button variant="outline" className="w-full" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-4xl mx-auto space-y-6"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Admin Console</h1>
+              <p className="text-gray-400">Contract owner controls</p>
+            </div>
+          </div>
+
+          <Button onClick={admin.refresh} disabled={admin.isLoading} variant="outline" size="sm">
+            <RefreshCw className={`w-4 h-4 mr-2 ${admin.isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {admin.error && (
+          <Alert className="border-red-500/50 bg-red-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{admin.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {admin.pendingAction && (
+          <Alert className="border-blue-500/50 bg-blue-500/10">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <AlertTitle>Transaction Pending</AlertTitle>
+            <AlertDescription>Confirm in your wallet and wait for the transaction to be mined.</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Contract State */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <Badge
+              variant="outline"
+              className={admin.paused ? "border-red-500 text-red-300" : "border-green-500 text-green-300"}
+            >
+              {admin.paused ? "Paused" : "Live"}
+            </Badge>
+            <div className="text-xs text-gray-400 mt-2">Arena Status</div>
+          </div>
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <div className="text-xl font-bold text-white">
+              {admin.platformFee !== null ? formatFeePercent(admin.platformFee) : "—"}
+            </div>
+            <div className="text-xs text-gray-400">Platform Fee</div>
+          </div>
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <div className="text-xl font-bold text-yellow-400">{Web3Utils.formatEth(admin.contractBalance)}</div>
+            <div className="text-xs text-gray-400">Contract Balance (ETH)</div>
+          </div>
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <div className="text-xl font-bold text-blue-400">{Web3Utils.formatEth(admin.escrowedStakes)}</div>
+            <div className="text-xs text-gray-400">Staked in Open Matches</div>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* Fee */}
+          <Card className="bg-black/40 border-white/20 text-white">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Percent className="w-5 h-5" />
+                Platform Fee
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                type="number"
+                min={0}
+                max={GAME_CONSTANTS.MAX_PLATFORM_FEE / 100}
+                step={0.01}
+                placeholder="New fee in %, e.g. 2.5"
+                value={feeInput}
+                onChange={(e) => setFeeInput(e.target.value)}
+                className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+              />
+              {feeInput && !isFeeValid && (
+                <p className="text-xs text-red-400">Fee must be between 0% and {formatFeePercent(GAME_CONSTANTS.MAX_PLATFORM_FEE)}</p>
+              )}
+              <Button onClick={handleSetFee} disabled={!isFeeValid || isBusy} className="w-full">
+                Set Fee
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Funds and Pause */}
+          <Card className="bg-black/40 border-white/20 text-white">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Coins className="w-5 h-5" />
+                Funds &amp; Availability
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-400">
+                About {Web3Utils.formatEth(withdrawable)} ETH of the balance is fees. Withdrawing sends the whole balance.
+              </p>
+              <Button
+                onClick={handleWithdraw}
+                disabled={admin.contractBalance === 0n || isBusy}
+                variant="outline"
+                className="w-full"
+              >
+                <Coins className="w-4 h-4 mr-2" />
+                Withdraw Fees
+              </Button>
+              <Button
+                onClick={handleTogglePause}
+                disabled={isBusy}
+                variant={admin.paused ? "default" : "destructive"}
+                className="w-full"
+              >
+                {admin.paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                {admin.paused ? "Unpause Arena" : "Pause Arena"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Stuck Matches */}
+        <Card className="bg-black/40 border-white/20 text-white">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Ban className="w-5 h-5" />
+              Stuck Matches
+            </CardTitle>
+            <p className="text-sm text-gray-400">
+              Ongoing matches with no move for over {formatDuration(GAME_CONSTANTS.MAX_TURN_TIME)}. The contract only
+              cancels matches created more than {formatDuration(GAME_CONSTANTS.EMERGENCY_CANCEL_DELAY)} ago.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {admin.stuckMatches.length === 0 ? (
+              <p className="text-center text-gray-500 py-6">No stuck matches</p>
+            ) : (
+              admin.stuckMatches.map(match => {
+                const waitSeconds = match.cancellableAt - now
+
+                return (
+                  <div key={match.matchId} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5">
+                    <div className="text-sm space-y-1 min-w-0">
+                      <div className="font-bold">Arena #{match.matchId}</div>
+                      <div className="text-gray-400">
+                        {Web3Utils.formatAddress(match.player1)} vs {Web3Utils.formatAddress(match.player2)} •{" "}
+                        {Web3Utils.formatEth(match.stake)} ETH each • turn {match.turnCount}
+                      </div>
+                      <div className="text-gray-500">Last move {formatDuration(now - match.lastMoveTimestamp)} ago</div>
+                    </div>
+                    <Button
+                      onClick={() => handleCancelMatch(match)}
+                      disabled={waitSeconds > 0 || isBusy}
+                      variant="destructive"
+                      size="sm"
+                    >
+                      {waitSeconds > 0 ? `Cancellable in ${formatDuration(waitSeconds)}` : "Cancel & Refund"}
+                    </Button>
+                  </div>
+                )
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Ownership */}
+        <Card className="bg-black/40 border-red-500/30 text-white">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <UserCog className="w-5 h-5" />
+              Transfer Ownership
+            </CardTitle>
+            <p className="text-sm text-gray-400">
+              Current owner:{" "}
+              {admin.owner && (
+                <a href={Web3Utils.getAddressUrl(admin.owner)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                  {admin.owner}
+                </a>
+              )}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              type="text"
+              placeholder="New owner address (0x...)"
+              value={newOwnerInput}
+              onChange={(e) => setNewOwnerInput(e.target.value.trim())}
+              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+            />
+            {newOwnerInput && !isAddress(newOwnerInput) && (
+              <p className="text-xs text-red-400">Not a valid address</p>
+            )}
+            <Button
+              onClick={handleTransferOwnership}
+              disabled={!isAddress(newOwnerInput) || isBusy}
+              variant="destructive"
+              className="w-full"
+            >
+              Transfer Ownership
+            </Button>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <AlertDialog open={confirmation !== null} onOpenChange={(open) => !open && setConfirmation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmation?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{confirmation?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className={confirmation?.destructive ? "bg-red-600 hover:bg-red-700" : undefined}
+            >
+              {confirmation?.confirmLabel}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+// components/arena-fighter-card.tsx - One side of the arena battle layout
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import { Heart, Droplet } from "lucide-react"
+import { motion } from "framer-motion"
+import { getCharacterAvatar } from "./game-state-provider"
+import { formatRating, type PlayerRating } from "@/lib/ratings"
+
+interface ArenaFighterCardProps {
+  name: string
+  characterName: string
+  level: number
+  health: number
+  maxHealth: number
+  mana: number
+  maxMana: number
+  animation: string | null
+  side: "left" | "right"
+  rating?: PlayerRating
+}
+
+export default function ArenaFighterCard({
+  name,
+  characterName,
+  level,
+  health,
+  maxHealth,
+  mana,
+  maxMana,
+  animation,
+  side,
+  rating
+}: ArenaFighterCardProps) {
+  const isLeft = side === "left"
+
+  return (
+    <div className="w-1/2 flex flex-col justify-center items-center p-8">
+      <motion.div
+        className="relative"
+        animate={animation ? { scale: [1, 1.1, 1], x: [0, isLeft ? 20 : -20, 0] } : {}}
+        transition={{ duration: 0.5 }}
+      >
+        <img
+          src={getCharacterAvatar(characterName)}
+          alt={characterName}
+          className={`w-48 h-48 object-cover rounded-full border-4 ${isLeft ? "border-blue-400" : "border-red-400"} shadow-lg`}
+        />
+      </motion.div>
+
+      <div className="mt-4 text-center">
+        <h3 className={`text-xl font-bold ${isLeft ? "text-blue-400" : "text-red-400"}`}>{name}</h3>
+        <p className="text-sm text-muted-foreground">{characterName} (Lv. {level})</p>
+        {rating && (
+          <p className="text-xs text-yellow-400">Rating {formatRating(rating)} ±{Math.round(rating.deviation)}</p>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="mt-4 w-full max-w-xs space-y-2">
+        <div className="flex items-center gap-2">
+          <Heart className="w-4 h-4 text-red-400" />
+          <Progress
+            value={maxHealth > 0 ? (health / maxHealth) * 100 : 0}
+            className="flex-1 h-2"
+          />
+          <span className="text-sm font-mono">{health}/{maxHealth}</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Droplet className="w-4 h-4 text-blue-400" />
+          <Progress
+            value={maxMana > 0 ? (mana / maxMana) * 100 : 0}
+            className="flex-1 h-2"
+          />
+          <span className="text-sm font-mono">{mana}/{maxMana}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+// components/arena-paused-banner.tsx - Global notice while the arena contract is paused
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { PauseCircle, PlayCircle } from "lucide-react"
+import { motion, AnimatePresence } from "framer-motion"
+import { useArenaStatus } from "./arena-status-provider"
+
+// How long the "resumed" notice stays up after an unpause
+const RESUMED_NOTICE_MS = 5000
+
+export default function ArenaPausedBanner() {
+  const { isPaused, pausedReason } = useArenaStatus()
+  const [showResumed, setShowResumed] = useState(false)
+  const wasPaused = useRef(false)
+
+  useEffect(() => {
+    if (isPaused) {
+      wasPaused.current = true
+      setShowResumed(false)
+      return
+    }
+
+    if (!wasPaused.current) return
+    wasPaused.current = false
+    setShowResumed(true)
+    const timer = setTimeout(() => setShowResumed(false), RESUMED_NOTICE_MS)
+    return () => clearTimeout(timer)
+  }, [isPaused])
+
+  return (
+    <AnimatePresence>
+      {(isPaused || showResumed) && (
+        <motion.div
+          initial={{ opacity: 0, y: -40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -40 }}
+          className={`fixed top-0 inset-x-0 z-50 flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium shadow-lg ${
+            isPaused ? "bg-amber-600/95 text-black" : "bg-green-600/95 text-white"
+          }`}
+        >
+          {isPaused ? (
+            <>
+              <PauseCircle className="h-4 w-4 shrink-0" />
+              {pausedReason}
+            </>
+          ) : (
+            <>
+              <PlayCircle className="h-4 w-4 shrink-0" />
+              The arena is live again. Matches and moves are back on.
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+/**
+ * Inline reason shown next to a write button disabled by the pause
+ */
+export function ArenaPausedNotice({ className = "" }: { className?: string }) {
+  const { pausedReason } = useArenaStatus()
+  if (!pausedReason) return null
+
+  return (
+    <p className={`flex items-center justify-center gap-1 text-xs text-amber-400 ${className}`}>
+      <PauseCircle className="h-3 w-3 shrink-0" />
+      {pausedReason}
+    </p>
+  )
+}
@@ -0,0 +1,81 @@
+// components/arena-status-provider.tsx - App-wide paused state of the arena contract
+'use client'
+
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react'
+import { contractService } from '@/lib/contract-service'
+import { ARENA_PAUSED_MESSAGE } from '@/lib/arena-errors'
+
+interface ArenaStatusContextType {
+  isPaused: boolean
+  isChecking: boolean
+  // Why arena writes are disabled, or null while the arena is live
+  pausedReason: string | null
+  refresh: () => Promise<void>
+}
+
+const ArenaStatusContext = createContext<ArenaStatusContextType | undefined>(undefined)
+
+export function useArenaStatus() {
+  const context = useContext(ArenaStatusContext)
+  if (!context) {
+    throw new Error('useArenaStatus must be used within an ArenaStatusProvider')
+  }
+  return context
+}
+
+export function ArenaStatusProvider({ children }: { children: ReactNode }) {
+  const [isPaused, setIsPaused] = useState(false)
+  const [isChecking, setIsChecking] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsPaused(await contractService.isPaused())
+    } catch (error) {
+      // Keep the last known state; a failed read shouldn't lock players out
+      console.error('Error reading arena paused state:', error)
+    } finally {
+      setIsChecking(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+
+    // Paused/Unpaused flip the state as soon as they are mined, so play resumes without a reload.
+    // This shares the contract-wide watcher that also drives query invalidation.
+    const unwatch = contractService.watchAllContractEvents(
+      (logs) => {
+        const latest = [...logs].reverse().find(log => log.eventName === 'Paused' || log.eventName === 'Unpaused')
+        if (latest) setIsPaused(latest.eventName === 'Paused')
+      },
+      (error) => {
+        console.error('Error watching arena pause events:', error)
+        refresh()
+      }
+    )
+
+    // Background tabs poll slowly, so re-read when the player comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refresh()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      unwatch()
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [refresh])
+
+  return (
+    <ArenaStatusContext.Provider
+      value={{
+        isPaused,
+        isChecking,
+        pausedReason: isPaused ? ARENA_PAUSED_MESSAGE : null,
+        refresh
+      }}
+    >
+      {children}
+    </ArenaStatusContext.Provider>
+  )
+}
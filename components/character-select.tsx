@@ -12,6 +12,8 @@ import { useContractMultiplayer } from "./contract-multiplayer-provider"
 import { playSound } from "@/lib/sound-utils"
 import { Web3Utils, type CharacterInstance, type CharacterType } from "@/lib/Web3-Utils"
 import TransactionStatus from "./transaction-status"
+import { useArenaStatus } from "./arena-status-provider"
+import { ArenaPausedNotice } from "./arena-paused-banner"
 import { useAccount } from "wagmi"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 
@@ -35,6 +37,7 @@ export default function CharacterSelect({ onSelect, onBack, isMultiplayer = fals
     levelUpCharacter,
     refreshContractData
   } = useGameState()
+  const { isPaused } = useArenaStatus()
   
   // Try to get multiplayer context, but don't fail if it's not available
   let selectMultiplayerCharacter: ((character: any) => void) | null = null
@@ -134,7 +137,7 @@ export default function CharacterSelect({ onSelect, onBack, isMultiplayer = fals
   }
 
   const handleAcquireCharacter = async () => {
-    if (contractCharacterTypes.length === 0) return
+    if (contractCharacterTypes.length === 0 || isPaused) return
     
     const selectedType = contractCharacterTypes[selectedAvailableIndex]
     
@@ -593,10 +596,11 @@ export default function CharacterSelect({ onSelect, onBack, isMultiplayer = fals
           <Button
             onClick={handleAcquireCharacter}
             className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white font-bold px-8 py-2"
-            disabled={isAcquiring || isLevelingUp}
+            disabled={isAcquiring || isLevelingUp || isPaused}
+            title={isPaused ? "The arena is paused" : undefined}
           >
             <Plus className="mr-2 h-4 w-4" />
-            {isAcquiring ? "Acquiring..." : "Acquire Character"}
+            {isAcquiring ? "Acquiring..." : isPaused ? "Arena Paused" : "Acquire Character"}
           </Button>
         ) : null}
       </div>
@@ -609,6 +613,8 @@ export default function CharacterSelect({ onSelect, onBack, isMultiplayer = fals
           ) : (
             <p>You need to acquire a character first. Switch to "Acquire New" to get started!</p>
           )
+        ) : isPaused ? (
+          <ArenaPausedNotice />
         ) : (
           <p>Acquire new characters to expand your roster. Characters are currently free to obtain!</p>
         )}
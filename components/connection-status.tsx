@@ -3,10 +3,33 @@
 
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
-import { Wifi, WifiOff, Activity } from "lucide-react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Wifi, WifiOff, Activity, Server, AlertTriangle } from "lucide-react"
 import { useMultiplayer } from "./multiplayer-context-provider"
 import { useAccount, useChainId } from "wagmi"
 import { etherlink } from "@/lib/web3-config"
+import { getRpcHealth, rankEndpoints, type RpcEndpointHealth } from "@/lib/rpc-transport"
+
+// Health changes with every request, so the list is re-read on an interval rather than per change
+const HEALTH_REFRESH_MS = 2000
+
+const getEndpointState = (health: RpcEndpointHealth, now: number) => {
+  if (health.wrongChain) return { label: "Wrong chain", color: "bg-gray-500" }
+  if (health.rateLimitedUntil && health.rateLimitedUntil > now) {
+    return { label: `Rate limited (${Math.ceil((health.rateLimitedUntil - now) / 1000)}s)`, color: "bg-yellow-500" }
+  }
+  if (health.requests === 0) return { label: "Unused", color: "bg-gray-500" }
+  if (health.errorRate > 0.5) return { label: "Failing", color: "bg-red-500" }
+  return { label: "Healthy", color: "bg-green-500" }
+}
+
+const formatHost = (url: string) => {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
 
 export default function ConnectionStatus() {
   const { isConnected: multiplayerConnected, isConnecting } = useMultiplayer()
@@ -15,6 +38,24 @@ export default function ConnectionStatus() {
   const isCorrectNetwork = chainId === etherlink.id
   
   const [networkStatus, setNetworkStatus] = useState<'online' | 'offline'>('online')
+  const [rpcHealth, setRpcHealth] = useState<RpcEndpointHealth[]>([])
+
+  useEffect(() => {
+    const refresh = () => {
+      const health = getRpcHealth()
+      const order = rankEndpoints(health.map(endpoint => endpoint.url))
+      setRpcHealth([...health].sort((a, b) => {
+        const rankA = order.indexOf(a.url)
+        const rankB = order.indexOf(b.url)
+        return (rankA === -1 ? Infinity : rankA) - (rankB === -1 ? Infinity : rankB)
+      }))
+    }
+
+    refresh()
+    const interval = setInterval(refresh, HEALTH_REFRESH_MS)
+
+    return () => clearInterval(interval)
+  }, [])
 
   useEffect(() => {
     const handleOnline = () => setNetworkStatus('online')
@@ -54,14 +95,64 @@ export default function ConnectionStatus() {
   }
 
   const { status, text, color } = getConnectionStatus()
+  const now = Date.now()
+  const usableEndpoints = rpcHealth.filter(health => getEndpointState(health, now).label === "Healthy").length
+  // Endpoints on the right chain; with one there is nothing to fail over to
+  const sameChainEndpoints = rpcHealth.filter(health => !health.wrongChain).length
 
   return (
-    <Badge variant="outline" className={`${color} text-white border-none text-xs`}>
-      {status === 'offline' && <WifiOff className="h-3 w-3 mr-1" />}
-      {status === 'connecting' && <Activity className="h-3 w-3 mr-1 animate-pulse" />}
-      {(status === 'connected' || status === 'wallet' || status === 'network' || status === 'multiplayer') && 
-        <Wifi className="h-3 w-3 mr-1" />}
-      {text}
-    </Badge>
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="inline-flex">
+          <Badge variant="outline" className={`${color} text-white border-none text-xs cursor-pointer`}>
+            {status === 'offline' && <WifiOff className="h-3 w-3 mr-1" />}
+            {status === 'connecting' && <Activity className="h-3 w-3 mr-1 animate-pulse" />}
+            {(status === 'connected' || status === 'wallet' || status === 'network' || status === 'multiplayer') && 
+              <Wifi className="h-3 w-3 mr-1" />}
+            {text}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-black/90 border-white/20 text-white">
+        <div className="flex items-center gap-2 mb-3 text-sm font-semibold">
+          <Server className="h-4 w-4" />
+          RPC Endpoints
+          <span className="ml-auto text-xs font-normal text-gray-400">
+            {usableEndpoints}/{rpcHealth.length} healthy
+          </span>
+        </div>
+        {sameChainEndpoints <= 1 && (
+          <div className="mb-3 flex gap-2 rounded bg-yellow-500/10 p-2 text-xs text-yellow-300">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              No fallback RPC configured. Set NEXT_PUBLIC_ETHERLINK_FALLBACK_RPC_URLS to fail over when this endpoint rate limits or goes down.
+            </span>
+          </div>
+        )}
+        <div className="space-y-2">
+          {rpcHealth.map((health, index) => {
+            const state = getEndpointState(health, now)
+            return (
+              <div key={health.url} className="rounded bg-white/5 p-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className={`h-2 w-2 rounded-full ${state.color}`} />
+                  <span className="font-mono truncate">{formatHost(health.url)}</span>
+                  {index === 0 && !health.wrongChain && <span className="text-blue-300">primary</span>}
+                  <span className="ml-auto text-gray-300">{state.label}</span>
+                </div>
+                <div className="mt-1 flex gap-3 text-gray-400">
+                  <span>{health.latencyMs !== null ? `${Math.round(health.latencyMs)}ms` : "—"}</span>
+                  <span>{Math.round(health.errorRate * 100)}% errors</span>
+                  <span>{health.requests} requests</span>
+                </div>
+                {health.lastError && state.label !== "Healthy" && (
+                  <p className="mt-1 text-red-300 truncate" title={health.lastError}>{health.lastError}</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
   )
 }
\ No newline at end of file
@@ -154,53 +154,56 @@ export default function ContractBattleRoom({ onBack, onCharacterSelect, onStartB
     }
   }, [playerAddress, onStartBattle, currentRoom?.id, isHost])
 
-  // Poll for opponent joining (only for host)
+  // Wait for an opponent to join (only for host): check once, then follow MatchJoined events
   useEffect(() => {
     if (!isHost || !currentRoom || !contractConnected) return
 
-    let pollInterval: NodeJS.Timeout
+    let started = false
+
+    const startWithOpponent = () => {
+      if (started) return
+      started = true
+      setOpponentReady(true)
+      playSound('player-joined.mp3')
+      
+      // Auto-start battle after short delay
+      setTimeout(() => {
+        console.log('Host: Starting battle with opponent')
+        onStartBattle()
+      }, 2000)
+    }
 
     const checkForOpponent = async () => {
       try {
-        console.log('Host: Checking for opponent in match', currentRoom.matchId)
         const matchData = await getMatch(currentRoom.matchId)
-        console.log('Host: Current match data:', matchData)
         
         // Check if someone joined (player2 is set and different from null address)
         if (matchData.player2 && matchData.player2 !== '0x0000000000000000000000000000000000000000') {
           console.log('Host: Opponent found! Player2:', matchData.player2)
-          setOpponentReady(true)
-          playSound('player-joined.mp3')
-          
-          // Clear polling
-          if (pollInterval) {
-            clearInterval(pollInterval)
-          }
-          
-          // Auto-start battle after short delay
-          setTimeout(() => {
-            console.log('Host: Starting battle with opponent')
-            onStartBattle()
-          }, 2000)
+          startWithOpponent()
         }
       } catch (error) {
         console.error('Host: Error checking for opponent:', error)
       }
     }
 
-    // Start polling every 3 seconds
-    console.log('Host: Starting opponent polling for match', currentRoom.matchId)
-    pollInterval = setInterval(checkForOpponent, 3000)
+    const handleOpponentJoined = (event: CustomEvent) => {
+      if (event.detail?.room?.matchId === currentRoom.matchId) {
+        console.log('Host: Opponent joined match', currentRoom.matchId)
+        startWithOpponent()
+      }
+    }
+
+    window.addEventListener('player_joined', handleOpponentJoined as EventListener)
     
-    // Check immediately
+    // Cover a join that landed before we started listening
     checkForOpponent()
 
     return () => {
-      if (pollInterval) {
-        clearInterval(pollInterval)
-      }
+      started = true
+      window.removeEventListener('player_joined', handleOpponentJoined as EventListener)
     }
-  }, [isHost, currentRoom, contractConnected, getMatch, onStartBattle])
+  }, [isHost, currentRoom?.matchId, contractConnected, getMatch, onStartBattle])
 
   // Auto-start battle when both players have characters and room is full
   useEffect(() => {
@@ -6,8 +6,12 @@ import { useAccount } from 'wagmi'
 import { type Address } from 'viem'
 import { useContract } from '@/hooks/use-contract'
 import { contractService } from '@/lib/contract-service'
+import { getContractMultiplayerService, type QuickMatchResult, type QuickMatchOptions } from '@/lib/contract-multiplayer-service'
+import { DEFAULT_STAKE } from '@/lib/contract-config'
+import { getPendingTransactionManager, type PendingTransaction } from '@/lib/pending-transactions'
 import { playSound } from '@/lib/sound-utils'
 import { Web3Utils } from '@/lib/Web3-Utils'
+import { decodeArenaError, describeArenaError, isArenaError } from '@/lib/arena-errors'
 
 interface ContractRoom {
   id: string
@@ -63,6 +67,12 @@ interface ContractMultiplayerContextType {
   // Room state
   currentRoom: ContractRoom | null
   availableRooms: ContractRoom[]
+  // Stake tiers plus any custom stakes seen in match history, for filtering the lobby
+  knownStakes: string[]
+  // Our FINDING/ONGOING matches found on connect, e.g. after a page reload
+  resumableRooms: ContractRoom[]
+  // Room whose join or creation was still pending at reload and has since confirmed
+  readyRoomId: string | null
   isHost: boolean
 
   // Contract state
@@ -76,6 +86,14 @@ interface ContractMultiplayerContextType {
   setPlayerName: (name: string) => void
   createRoom: (name?: string, characterInstanceId?: number, stake?: string, isPrivate?: boolean) => Promise<void>
   joinRoom: (roomId: string, characterInstanceId?: number) => void
+  quickMatch: (
+    characterInstanceId: number,
+    stake: string,
+    onStatus?: (message: string) => void,
+    options?: QuickMatchOptions
+  ) => Promise<QuickMatchResult>
+  resumeRoom: (roomId: string) => ContractRoom | null
+  dismissResumableRooms: () => void
   leaveRoom: () => void
   selectCharacter: (roomId: string, character: ContractCharacter) => void
   setPlayerReady: (roomId: string, isReady?: boolean) => void
@@ -83,6 +101,9 @@ interface ContractMultiplayerContextType {
   refreshAvailableRooms: () => Promise<void>
 }
 
+const multiplayerService = getContractMultiplayerService(contractService)
+const pendingTransactions = getPendingTransactionManager(contractService)
+
 const ContractMultiplayerContext = createContext<ContractMultiplayerContextType | undefined>(undefined)
 
 export function useContractMultiplayer() {
@@ -99,8 +120,7 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
     isConnected: contractConnected, 
     initiateMatch, 
     joinMatch: contractJoinMatch, 
-    getMatch,
-    getFindingMatches 
+    getMatch
   } = useContract()
 
   // Connection state
@@ -117,11 +137,14 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
   // Room state
   const [currentRoom, setCurrentRoom] = useState<ContractRoom | null>(null)
   const [availableRooms, setAvailableRooms] = useState<ContractRoom[]>([])
+  const [knownStakes, setKnownStakes] = useState<string[]>(() => multiplayerService.getKnownStakes())
+  const [resumableRooms, setResumableRooms] = useState<ContractRoom[]>([])
+  const [readyRoomId, setReadyRoomId] = useState<string | null>(null)
   const [isHost, setIsHost] = useState(false)
 
   // Contract state
   const [contractMatchId, setContractMatchId] = useState<number | null>(null)
-  const [stakeAmount, setStakeAmountState] = useState<string>('0.001')
+  const [stakeAmount, setStakeAmountState] = useState<string>(DEFAULT_STAKE)
 
   // Save player name to localStorage
   useEffect(() => {
@@ -148,6 +171,7 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
 
     try {
       console.log('Connecting to contract multiplayer with address:', address)
+      await multiplayerService.connect(address)
       setIsConnected(true)
       console.log('Connected to contract multiplayer service')
     } catch (error: any) {
@@ -160,13 +184,103 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
   }, [address])
 
   const disconnect = useCallback(() => {
+    multiplayerService.disconnect()
     setIsConnected(false)
     setCurrentRoom(null)
+    setResumableRooms([])
+    setReadyRoomId(null)
     setIsHost(false)
     setContractMatchId(null)
     console.log('Disconnected from contract multiplayer')
   }, [])
 
+  // Keep the lobby and the host's waiting room in sync with contract events
+  useEffect(() => {
+    if (!isConnected) return
+
+    const handleRoomsUpdated = ({ rooms }: { rooms: ContractRoom[] }) => {
+      setAvailableRooms(rooms)
+      setKnownStakes(multiplayerService.getKnownStakes())
+    }
+
+    const handleOpponentJoined = ({ room }: { room: ContractRoom }) => {
+      setCurrentRoom(prev => prev && prev.matchId === room.matchId
+        ? {
+            ...prev,
+            guestAddress: room.guestAddress,
+            guestName: room.guestName,
+            players: room.players,
+            status: room.status,
+            gameData: { ...prev.gameData, currentTurn: room.gameData.currentTurn }
+          }
+        : prev
+      )
+      window.dispatchEvent(new CustomEvent('player_joined', { detail: { room } }))
+    }
+
+    multiplayerService.on('available_rooms_updated', handleRoomsUpdated)
+    multiplayerService.on('opponent_joined', handleOpponentJoined)
+
+    return () => {
+      multiplayerService.off('available_rooms_updated', handleRoomsUpdated)
+      multiplayerService.off('opponent_joined', handleOpponentJoined)
+    }
+  }, [isConnected])
+
+  // Look for matches we were in before a reload so the player can get back to them
+  useEffect(() => {
+    if (!isConnected) return
+
+    let cancelled = false
+
+    multiplayerService.findResumableMatches()
+      .then(rooms => {
+        if (!cancelled) setResumableRooms(rooms)
+      })
+      .catch(error => console.error('Error looking for matches to resume:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isConnected])
+
+  // A join or match creation that outlived a reload has confirmed: surface its room to resume
+  useEffect(() => {
+    if (!isConnected) return
+
+    const openConfirmedRoom = async (transaction: PendingTransaction) => {
+      if (!transaction.resumed || transaction.status !== 'confirmed' || transaction.blockNumber === undefined) return
+      pendingTransactions.dismiss(transaction.hash)
+
+      try {
+        const matchId = transaction.intent === 'join'
+          ? transaction.matchId
+          : await multiplayerService.getInitiatedMatchId(transaction.hash, transaction.blockNumber)
+        const rooms = await multiplayerService.findResumableMatches()
+        setResumableRooms(rooms)
+
+        const room = rooms.find(resumable => resumable.matchId === matchId)
+        if (room) setReadyRoomId(room.id)
+      } catch (error) {
+        console.error('Error loading room for confirmed transaction:', transaction.hash, error)
+      }
+    }
+
+    // Resumed transactions may have confirmed before the wallet reconnected
+    pendingTransactions.list()
+      .filter(transaction => transaction.intent === 'join' || transaction.intent === 'initiate')
+      .forEach(openConfirmedRoom)
+
+    const unsubscribers = [
+      pendingTransactions.onSettled('join', openConfirmedRoom),
+      pendingTransactions.onSettled('initiate', openConfirmedRoom)
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }, [isConnected])
+
   const setPlayerName = useCallback((name: string) => {
     setPlayerNameState(name)
   }, [])
@@ -175,7 +289,7 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
   const createRoom = useCallback(async (
     name?: string, 
     characterInstanceId: number = 1, 
-    stake: string = '0.001', 
+    stake: string = DEFAULT_STAKE, 
     isPrivate: boolean = false
   ) => {
     if (!address || !contractConnected) {
@@ -189,27 +303,12 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
       const txHash = await initiateMatch(characterInstanceId, stake)
       console.log('Contract match creation transaction:', txHash)
       
-      // Wait for transaction to be mined and get the real match ID from events
-      console.log('Waiting for transaction confirmation...')
-      const receipt = await contractService.waitForTransaction(txHash)
-      console.log('Transaction confirmed:', receipt)
-      
-      // Parse the MatchInitiated event to get the real match ID
-      const matchInitiatedEvents = await contractService.getPastEvents('MatchInitiated', receipt.blockNumber, receipt.blockNumber)
-      console.log('MatchInitiated events:', matchInitiatedEvents)
-      
-      // Find the event for this transaction
-      const matchEvent = matchInitiatedEvents.find((event: any) => 
-        event.transactionHash === txHash && 
-        event.args?.initiator?.toLowerCase() === address.toLowerCase()
-      )
-      
-      if (!matchEvent || !matchEvent.args) {
-        throw new Error('Could not find MatchInitiated event in transaction')
-      }
+      // Wait through the pending transaction manager, so a reload mid-confirmation still
+      // surfaces the room once it is mined (see openConfirmedRoom)
+      const receipt = await pendingTransactions.track(txHash, 'initiate', { account: address, characterInstanceId, stake })
       
-      // Extract the real match ID from the event
-      const realMatchId = Number((matchEvent.args as any).matchId)
+      // Get the real match ID from the MatchInitiated event
+      const realMatchId = await multiplayerService.getInitiatedMatchId(txHash, receipt.blockNumber)
       console.log('Real match ID from contract:', realMatchId)
       
       // Set local state
@@ -253,6 +352,7 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
       setCurrentRoom(room)
       setIsHost(true)
       setContractMatchId(realMatchId)
+      multiplayerService.trackMatch(realMatchId)
       
       // Set the character in room data so UI knows character is already selected
       const characterSelectedEvent = new CustomEvent('contract_character_selected', { 
@@ -377,6 +477,9 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
 
       setCurrentRoom(room)
       setIsHost(false)
+      setContractMatchId(matchId)
+      setStakeAmountState(room.stakeAmount)
+      multiplayerService.trackMatch(matchId)
       console.log('Contract room created and set:', room)
       console.log('Contract currentRoom state after setting:', room.id)
       
@@ -404,8 +507,7 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
       console.error('Error joining room:', error)
       
       // Check if the join actually succeeded despite the error (common with simulation failures)
-      if (error?.message?.includes('Execution reverted for an unknown reason') || 
-          error?.message?.includes('execution reverted')) {
+      if (isArenaError(error, 'STATE_CHANGED', 'UNKNOWN_REVERT')) {
         
         console.log('Verifying if join actually succeeded despite simulation error...')
         
@@ -486,25 +588,79 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
         }
       }
       
-      // Provide better error messages for common race condition scenarios
-      let errorMessage = error?.message || 'Unknown error'
-      
-      // Handle specific contract revert reasons
-      if (errorMessage.includes('Match not available')) {
-        errorMessage = 'This match is no longer available - it may have just been filled by another player or started already.'
-      } else if (errorMessage.includes('Cannot join own match')) {
-        errorMessage = 'You cannot join your own match.'
-      } else if (errorMessage.includes('Incorrect stake amount')) {
-        errorMessage = 'The stake amount is incorrect. This match may have been modified.'
-      }
+      // Message plus recovery hint, with the code so listeners can branch on it
+      const arenaError = decodeArenaError(error)
+      const errorMessage = describeArenaError(arenaError)
       
       setTimeout(() => {
-        const event = new CustomEvent('join_room_error', { detail: { error: errorMessage } })
+        const event = new CustomEvent('join_room_error', { detail: { error: errorMessage, code: arenaError.code } })
         window.dispatchEvent(event)
       }, 100)
     }
   }, [address, contractConnected, playerName])
 
+  // One-click matchmaking: join the oldest open match at this stake, or host a new one
+  const quickMatch = useCallback(async (
+    characterInstanceId: number,
+    stake: string,
+    onStatus?: (message: string) => void,
+    options?: QuickMatchOptions
+  ): Promise<QuickMatchResult> => {
+    if (!address || !contractConnected) {
+      throw new Error('Contract not connected')
+    }
+
+    const result = await multiplayerService.quickMatch(characterInstanceId, stake, onStatus, options)
+    const room = await multiplayerService.getRoom(result.roomId)
+    if (!room) {
+      throw new Error('Could not load the matched room')
+    }
+
+    setCurrentRoom(result.joined
+      ? { ...room, guestName: playerName }
+      : { ...room, hostName: playerName, gameData: { ...room.gameData, hostCharacterId: characterInstanceId } }
+    )
+    setIsHost(!result.joined)
+    setContractMatchId(room.matchId)
+    setStakeAmountState(room.stakeAmount)
+
+    window.dispatchEvent(new CustomEvent('contract_character_selected', {
+      detail: {
+        characterInstanceId,
+        roomId: room.id,
+        isHost: !result.joined
+      }
+    }))
+
+    return result
+  }, [address, contractConnected, playerName])
+
+  // Rebuild room state for a match found by findResumableMatches
+  const resumeRoom = useCallback((roomId: string): ContractRoom | null => {
+    const room = resumableRooms.find(resumable => resumable.id === roomId)
+    if (!room || !address) return null
+
+    const resumedAsHost = room.hostAddress.toLowerCase() === address.toLowerCase()
+    const resumedRoom: ContractRoom = resumedAsHost
+      ? { ...room, hostName: playerName }
+      : { ...room, guestName: playerName }
+
+    setCurrentRoom(resumedRoom)
+    setIsHost(resumedAsHost)
+    setContractMatchId(room.matchId)
+    setStakeAmountState(room.stakeAmount)
+    setResumableRooms(prev => prev.filter(resumable => resumable.id !== roomId))
+    setReadyRoomId(prev => prev === roomId ? null : prev)
+    multiplayerService.trackMatch(room.matchId)
+
+    return resumedRoom
+  }, [resumableRooms, address, playerName])
+
+  const dismissResumableRooms = useCallback(() => {
+    setResumableRooms([])
+    setReadyRoomId(null)
+  }, [])
+
   const leaveRoom = useCallback(() => {
     setCurrentRoom(null)
     setIsHost(false)
@@ -530,36 +686,13 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
     if (!contractConnected) return
 
     try {
-      const findingMatchIds = await getFindingMatches('0.001')
-      const rooms: ContractRoom[] = []
-      
-      for (const matchId of findingMatchIds) {
-        // Would get full match details from contract
-        const room: ContractRoom = {
-          id: `CONTRACT_${matchId}`,
-          matchId,
-          name: `Contract Match ${matchId}`,
-          hostAddress: '0x0000000000000000000000000000000000000000' as Address,
-          hostName: 'Host Player',
-          players: ['0x0000000000000000000000000000000000000000' as Address],
-          status: 'waiting',
-          maxPlayers: 2,
-          isPrivate: false,
-          createdAt: Date.now(),
-          stakeAmount: '0.001',
-          gameData: {
-            turnCount: 0,
-            battleLog: ['Match available for joining']
-          }
-        }
-        rooms.push(room)
-      }
-      
+      const rooms = await multiplayerService.getAvailableRooms()
       setAvailableRooms(rooms)
+      setKnownStakes(multiplayerService.getKnownStakes())
     } catch (error) {
       console.error('Error refreshing available rooms:', error)
     }
-  }, [contractConnected, getFindingMatches])
+  }, [contractConnected])
 
   const value: ContractMultiplayerContextType = {
     // Connection state
@@ -572,6 +705,9 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
     // Room state
     currentRoom,
     availableRooms,
+    knownStakes,
+    resumableRooms,
+    readyRoomId,
     isHost,
 
     // Contract state
@@ -585,6 +721,9 @@ export function ContractMultiplayerProvider({ children }: { children: ReactNode
     setPlayerName,
     createRoom,
     joinRoom,
+    quickMatch,
+    resumeRoom,
+    dismissResumableRooms,
     leaveRoom,
     selectCharacter,
     setPlayerReady,
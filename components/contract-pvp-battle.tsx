@@ -3,18 +3,35 @@
 
 import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
-import { Progress } from "@/components/ui/progress"
-import { Heart, Droplet, Sword, Shield, Home, Trophy, Coins } from "lucide-react"
+import { Home, Trophy, Coins, Loader2, Clock, AlertTriangle } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { useContractMultiplayer } from "./contract-multiplayer-provider"
-import { useGameState } from "./game-state-provider"
+import { useGameState, getAbilityType, getAbilitySoundEffect } from "./game-state-provider"
 import { useContract } from "@/hooks/use-contract"
 import { useWallet } from "@/hooks/use-wallet"
+import { useContractMatch } from "@/hooks/use-contract-match"
+import { useTurnTimer } from "@/hooks/use-turn-timer"
+import { useRatings } from "@/hooks/use-ratings"
+import { usePayoutPreview } from "@/hooks/use-payout-preview"
 import { playSound } from "@/lib/sound-utils"
 import BattleEffects from "./battle-effects"
+import ArenaFighterCard from "./arena-fighter-card"
 import TransactionStatus from "./transaction-status"
+import PayoutPreview from "./payout-preview"
+import { useArenaStatus } from "./arena-status-provider"
+import { ArenaPausedNotice } from "./arena-paused-banner"
 import { Web3Utils } from "@/lib/Web3-Utils"
-import type { Hash } from "viem"
+import { decodeArenaError, describeArenaError, isArenaError } from "@/lib/arena-errors"
+import {
+  getFighterIndex,
+  getMaxHealth,
+  getMaxMana,
+  getCooldownRemaining,
+  isHealingAbility,
+  predictMove,
+  validateMove
+} from "@/lib/battle-engine"
+import { zeroAddress, type Hash } from "viem"
 
 interface ContractPvPBattleProps {
   onGameOver: () => void
@@ -23,100 +40,119 @@ interface ContractPvPBattleProps {
 }
 
 export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: ContractPvPBattleProps) {
-  const { 
-    isHost, 
-    playerName, 
-    currentRoom, 
+  const {
+    isHost,
+    playerName,
+    currentRoom,
     leaveRoom,
     contractMatchId,
     stakeAmount
   } = useContractMultiplayer()
-  
-  const { 
-    selectedCharacter, 
-    playerHealth, 
-    playerMaxHealth, 
-    playerMana, 
-    playerMaxMana, 
-    updatePlayerHealth, 
-    updatePlayerMana, 
-    addToBattleLog, 
+
+  const {
+    addToBattleLog,
+    addNotification,
     battleLog,
     resetBattleLog
   } = useGameState()
-  
-  const { 
-    makeMove,
-    getMatch
-  } = useContract()
-  
-  const { address, getFormattedBalance } = useWallet()
-  
-  // Create playerId from address for compatibility
-  const playerId = address || ""
-  
+
+  const { characterTypes, makeMove, claimTimeoutVictory } = useContract()
+  const { address } = useWallet()
+
+  const matchId = contractMatchId ?? currentRoom?.matchId ?? null
+  const {
+    match,
+    battleState,
+    lastMove,
+    completion,
+    error: matchError,
+    refresh
+  } = useContractMatch(matchId, characterTypes)
+  const { timeLeft, isExpired, isWarning, isCritical } = useTurnTimer(match)
+  const { getRating } = useRatings()
+  const { isPaused } = useArenaStatus()
+
   // Opponent data
-  const opponentName = isHost 
-    ? currentRoom?.guestName || "Opponent" 
+  const opponentName = isHost
+    ? currentRoom?.guestName || "Opponent"
     : currentRoom?.hostName || "Opponent"
-    
-  const opponentCharacter = isHost ? currentRoom?.guestCharacter : currentRoom?.hostCharacter
-  
+
+  // Resolve which on-chain fighter belongs to the connected wallet
+  const playerIndex = battleState && address ? getFighterIndex(battleState, address) : -1
+  const playerFighter = battleState && playerIndex !== -1 ? battleState.fighters[playerIndex] : null
+  const opponentFighter = battleState && playerIndex !== -1 ? battleState.fighters[playerIndex === 0 ? 1 : 0] : null
+
+  const playerMaxHealth = playerFighter ? getMaxHealth(playerFighter.characterType, playerFighter.instance.level) : 0
+  const playerMaxMana = playerFighter ? getMaxMana(playerFighter.characterType, playerFighter.instance.level) : 0
+  const opponentMaxHealth = opponentFighter ? getMaxHealth(opponentFighter.characterType, opponentFighter.instance.level) : 0
+  const opponentMaxMana = opponentFighter ? getMaxMana(opponentFighter.characterType, opponentFighter.instance.level) : 0
+
+  const playerCharacterName = playerFighter ? characterTypes.find(type => type.id === playerFighter.instance.characterTypeId)?.name || "" : ""
+  const opponentCharacterName = opponentFighter ? characterTypes.find(type => type.id === opponentFighter.instance.characterTypeId)?.name || "" : ""
+
+  const isGameOver = !!battleState?.isOver
+  // An emergency cancel completes the match with no winner and refunds both stakes
+  const matchCancelled = isGameOver && (!battleState?.winner || battleState.winner.toLowerCase() === zeroAddress)
+  const playerWon = isGameOver && !matchCancelled && !!address && battleState?.winner?.toLowerCase() === address.toLowerCase()
+
   // Battle state
-  const [opponentHealth, setOpponentHealth] = useState(opponentCharacter?.health || 100)
-  const [opponentMaxHealth, setOpponentMaxHealth] = useState(opponentCharacter?.health || 100)
-  const [opponentMana, setOpponentMana] = useState(opponentCharacter?.mana || 100)
-  const [opponentMaxMana, setOpponentMaxMana] = useState(opponentCharacter?.mana || 100)
-  const [playerTurn, setPlayerTurn] = useState(isHost) // Host goes first
-  const [turnCount, setTurnCount] = useState(1)
-  const [selectedAbility, setSelectedAbility] = useState<string | null>(null)
+  const [isSubmittingMove, setIsSubmittingMove] = useState(false)
+  const [isClaimingTimeout, setIsClaimingTimeout] = useState(false)
+  const [moveError, setMoveError] = useState<string | null>(null)
+  const [moveHash, setMoveHash] = useState<Hash | null>(null)
+  const [selectedAbility, setSelectedAbility] = useState<number | null>(null)
   const [playerAnimation, setPlayerAnimation] = useState<string | null>(null)
   const [opponentAnimation, setOpponentAnimation] = useState<string | null>(null)
-  const [comboCounter, setComboCounter] = useState(0)
-  const [showComboText, setShowComboText] = useState(false)
-  const [isGameOver, setIsGameOver] = useState(false)
-  const [showPauseMenu, setShowPauseMenu] = useState(false)
-
-  // Contract state
-  const [gameWinner, setGameWinner] = useState<string | null>(null)
-  const [totalStake, setTotalStake] = useState("0")
-  const [isPayingOut, setIsPayingOut] = useState(false)
-  const [payoutHash, setPayoutHash] = useState<Hash | null>(null)
-  const [payoutComplete, setPayoutComplete] = useState(false)
-  
-  const battleLogRef = useRef<HTMLDivElement>(null)
 
-  // Calculate total stake pool (both players' stakes)
-  useEffect(() => {
-    if (stakeAmount) {
-      const stake = parseFloat(stakeAmount)
-      setTotalStake((stake * 2).toString()) // Both players stake the same amount
-    }
-  }, [stakeAmount])
+  const playerTurn = !!battleState && !!address && !isGameOver &&
+    battleState.currentTurn.toLowerCase() === address.toLowerCase()
+
+  // The contract lets the waiting player end the match once the other side's turn times out
+  const canClaimTimeout = !!battleState && !isGameOver && !playerTurn && isExpired
 
-  // Initialize battle state
+  const totalStake = match ? Web3Utils.formatEth(match.stake * 2n) : (parseFloat(stakeAmount || "0") * 2).toString()
+  // The pool less the platform fee, until MatchCompleted reports what was actually paid
+  const { preview: payout } = usePayoutPreview(match ? match.stake : null)
+  const expectedReward = completion
+    ? Web3Utils.formatEth(completion.reward)
+    : payout ? Web3Utils.formatEth(payout.winnerReward) : totalStake
+
+  const battleLogRef = useRef<HTMLDivElement>(null)
+  const announcedStart = useRef(false)
+  const announcedEnd = useRef(false)
+  const announcedTurn = useRef<number | null>(null)
+  const warnedTurn = useRef<{ turn: number; level: 'warning' | 'critical' } | null>(null)
+  // Leaves the battle screen a few seconds after the result; dropped if the match changes first
+  const endTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Reset the log for a fresh match
   useEffect(() => {
     resetBattleLog()
-    
-    if (opponentCharacter) {
-      setOpponentHealth(opponentCharacter.health)
-      setOpponentMaxHealth(opponentCharacter.health)
-      setOpponentMana(opponentCharacter.mana)
-      setOpponentMaxMana(opponentCharacter.mana)
-      
-      addToBattleLog("🏟️ Arena Battle Started!")
-      addToBattleLog(`💰 Total Stake Pool: ${totalStake} ETH`)
-      addToBattleLog(`⚔️ ${opponentName} vs ${playerName}`)
-      addToBattleLog(`${isHost ? "You" : opponentName} go first!`)
-    }
-    
-    setPlayerTurn(isHost)
-    setTurnCount(1)
-    
+    announcedStart.current = false
+    announcedEnd.current = false
+    announcedTurn.current = null
+    warnedTurn.current = null
+
     return () => {
       resetBattleLog()
+      if (endTimer.current) {
+        clearTimeout(endTimer.current)
+        endTimer.current = null
+      }
     }
-  }, [opponentCharacter, isHost, opponentName, playerName, totalStake, addToBattleLog, resetBattleLog])
+  }, [matchId, resetBattleLog])
+
+  // Announce the match once both fighters are known
+  useEffect(() => {
+    if (!battleState || !playerFighter || announcedStart.current) return
+    announcedStart.current = true
+    announcedTurn.current = battleState.turnCount
+
+    addToBattleLog("🏟️ Arena Battle Started!")
+    addToBattleLog(`💰 Total Stake Pool: ${totalStake} ETH`)
+    addToBattleLog(`⚔️ ${opponentName} vs ${playerName}`)
+    addToBattleLog(playerTurn ? "🎯 Your turn!" : "⏳ Waiting for opponent...")
+  }, [battleState, playerFighter, playerTurn, totalStake, opponentName, playerName, addToBattleLog])
 
   // Scroll battle log to bottom
   useEffect(() => {
@@ -125,245 +161,183 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
     }
   }, [battleLog])
 
-  // Listen for opponent actions via socket
+  // Animate and log each confirmed MoveMade event
   useEffect(() => {
-    const handleGameAction = (e: CustomEvent) => {
-      if (!e.detail) return
-      
-      const { 
-        playerId: actingPlayerId, 
-        action, 
-        result 
-      } = e.detail
-      
-      // Only process actions from opponent
-      if (actingPlayerId === playerId) return
-      
-      // Handle ability use
-      if (action?.type === 'ability' && result?.ability) {
-        setOpponentAnimation(result.ability.type)
-        playSound(result.ability.soundEffect || 'ability.mp3')
-        addToBattleLog(`⚡ ${opponentName} used ${result.ability.name}!`)
-        
-        setTimeout(() => {
-          if (result.damage) {
-            updatePlayerHealth(-result.damage)
-            addToBattleLog(`💥 You took ${result.damage} damage!`)
-            
-            // Check if player is defeated
-            if (playerHealth - result.damage <= 0) {
-              handleGameOver(false) // Player lost
-              return
-            }
-          }
-          
-          setComboCounter(0)
-          
-          setTimeout(() => {
-            setOpponentAnimation(null)
-            
-            if (!isGameOver) {
-              setPlayerTurn(true)
-              setTurnCount(prev => prev + 1)
-              addToBattleLog("🎯 Your turn!")
-            }
-          }, 500)
-        }, 500)
+    if (!lastMove || !battleState || !address) return
+
+    const isOwnMove = lastMove.player.toLowerCase() === address.toLowerCase()
+    const actorIndex = getFighterIndex(battleState, lastMove.player)
+    if (actorIndex === -1) return
+
+    const ability = battleState.fighters[actorIndex].characterType.abilities[lastMove.abilityIndex]
+    if (!ability) return
+
+    const animation = getAbilityType(ability.name)
+
+    if (isOwnMove) {
+      setPlayerAnimation(animation)
+      if (isHealingAbility(ability.name)) {
+        addToBattleLog(`✨ ${ability.name} restored your health!`)
+      } else {
+        addToBattleLog(`💥 ${opponentName} takes ${lastMove.damage} damage!`)
+      }
+    } else {
+      setOpponentAnimation(animation)
+      playSound(getAbilitySoundEffect(ability.name))
+      addToBattleLog(`⚡ ${opponentName} used ${ability.name}!`)
+      if (isHealingAbility(ability.name)) {
+        addToBattleLog(`✨ ${opponentName} recovered health!`)
+      } else {
+        addToBattleLog(`💥 You took ${lastMove.damage} damage!`)
       }
     }
 
-    window.addEventListener('game_action' as any, handleGameAction)
-    return () => window.removeEventListener('game_action' as any, handleGameAction)
-  }, [playerId, opponentName, playerHealth, isGameOver, updatePlayerHealth, addToBattleLog])
+    const timer = setTimeout(() => {
+      setPlayerAnimation(null)
+      setOpponentAnimation(null)
+    }, 1000)
+
+    return () => clearTimeout(timer)
+  }, [lastMove]) // Only react to new events, not to the state refresh that follows them
 
-  // Check for game over conditions
+  // Announce turn changes coming from the chain
   useEffect(() => {
-    if (playerHealth <= 0 && !isGameOver) {
-      handleGameOver(false) // Player lost
-    }
-  }, [playerHealth, isGameOver])
+    if (!battleState || isGameOver || !announcedStart.current) return
+    if (announcedTurn.current === battleState.turnCount) return
+    announcedTurn.current = battleState.turnCount
+    addToBattleLog(playerTurn ? "🎯 Your turn!" : "⏳ Waiting for opponent...")
+  }, [battleState, isGameOver, playerTurn, addToBattleLog])
 
+  // Warn once per turn as our own deadline approaches
   useEffect(() => {
-    if (opponentHealth <= 0 && !isGameOver) {
-      handleGameOver(true) // Player won
+    if (!battleState || !playerTurn || !isWarning) return
+
+    const level = isCritical ? 'critical' : 'warning'
+    const warned = warnedTurn.current
+    if (warned && warned.turn === battleState.turnCount && (warned.level === level || warned.level === 'critical')) return
+    warnedTurn.current = { turn: battleState.turnCount, level }
+
+    const remaining = Web3Utils.formatTime(timeLeft ?? 0)
+    addToBattleLog(`⏰ ${remaining} left to make your move!`)
+    addNotification({
+      type: isCritical ? 'error' : 'info',
+      title: isCritical ? 'Turn almost over' : 'Turn timer running low',
+      message: `Make a move within ${remaining} or your opponent can claim the stake pool.`,
+      duration: 8000
+    })
+  }, [battleState, playerTurn, isWarning, isCritical, timeLeft, addToBattleLog, addNotification])
+
+  // Let the player know when the opponent has stalled past the deadline
+  useEffect(() => {
+    if (canClaimTimeout) {
+      addToBattleLog(`⌛ ${opponentName} ran out of time. You can claim victory!`)
     }
-  }, [opponentHealth, isGameOver])
-
-  // Handle game over and payouts
-  const handleGameOver = async (playerWon: boolean) => {
-    setIsGameOver(true)
-    setGameWinner(playerWon ? playerName : opponentName)
-    
-    if (playerWon) {
+  }, [canClaimTimeout, opponentName, addToBattleLog])
+
+  // Handle the on-chain result once MatchCompleted lands
+  useEffect(() => {
+    if (!isGameOver || announcedEnd.current) return
+    announcedEnd.current = true
+
+    const reward = completion || payout ? `${expectedReward} ETH` : `the ${totalStake} ETH prize pool`
+
+    if (matchCancelled) {
+      addToBattleLog("🛑 The arena cancelled this match")
+      addToBattleLog("💰 Both stakes have been refunded")
+      endTimer.current = setTimeout(() => onExit(), 3000)
+    } else if (playerWon) {
       playSound('victory.mp3')
       addToBattleLog(`🎉 Victory! You defeated ${opponentName}!`)
-      addToBattleLog(`💰 Claiming ${totalStake} ETH prize pool...`)
-      
-      // Process payout via smart contract
-      if (contractMatchId && !isPayingOut) {
-        setIsPayingOut(true)
-        
-        try {
-          addToBattleLog("🔄 Processing smart contract payout...")
-          // For now, we'll handle payouts automatically via the contract's _endMatch function
-          // The winner claiming is handled by the smart contract when a character's health reaches 0
-          addToBattleLog("✅ Victory confirmed! Prize will be distributed automatically.")
-          
-          // Simulate transaction processing for UX
-          setTimeout(() => {
-            setPayoutComplete(true)
-            addToBattleLog(`🏆 ${totalStake} ETH prize distribution initiated!`)
-            setTimeout(() => onVictory(), 3000)
-          }, 2000)
-          
-        } catch (error) {
-          console.error('Payout failed:', error)
-          addToBattleLog("❌ Payout failed. Please contact support.")
-          setTimeout(() => onVictory(), 2000)
-        }
-      } else {
-        setTimeout(() => onVictory(), 2000)
-      }
+      addToBattleLog(`🏆 ${reward} paid out by the arena contract`)
+      endTimer.current = setTimeout(() => onVictory(), 3000)
     } else {
       playSound('game-over.mp3')
       addToBattleLog(`💀 Defeat! ${opponentName} wins!`)
-      addToBattleLog(`💸 ${opponentName} claims the ${totalStake} ETH prize pool`)
-      setTimeout(() => onGameOver(), 3000)
+      addToBattleLog(`💸 ${opponentName} claims ${reward}`)
+      endTimer.current = setTimeout(() => onGameOver(), 3000)
     }
+  }, [isGameOver, matchCancelled, playerWon, completion, totalStake, payout, expectedReward, opponentName, addToBattleLog, onVictory, onGameOver, onExit])
 
-    // For contract battles, the contract handles the battle end
-    // Just cleanup local state
-    setIsGameOver(true)
-  }
-
-  // Handle ability selection and execution
-  const handleAbilityUse = async (abilityName: string) => {
-    if (!playerTurn || !selectedCharacter || isGameOver) return
+  // Submit the chosen ability to the contract
+  const handleAbilityUse = async (abilityIndex: number) => {
+    if (!battleState || !playerFighter || !address || !matchId || isSubmittingMove || isPaused) return
 
-    const abilities = getCharacterAbilities(selectedCharacter.name)
-    const ability = abilities.find(a => a.name === abilityName)
-    
-    if (!ability) return
-    
-    // Check mana cost
-    if (playerMana < ability.manaCost) {
-      addToBattleLog("❌ Not enough mana!")
+    const validation = validateMove(battleState, address, abilityIndex)
+    if (!validation.isValid) {
+      addToBattleLog(`❌ ${validation.error}`)
       return
     }
 
-    setSelectedAbility(abilityName)
-    setPlayerTurn(false)
-    
-    // Update mana
-    updatePlayerMana(-ability.manaCost)
-    
-    // Play sound and animation
-    playSound(ability.soundEffect)
-    setPlayerAnimation(ability.type)
-    
-    addToBattleLog(`⚡ You used ${ability.name}!`)
+    const ability = playerFighter.characterType.abilities[abilityIndex]
+    const prediction = predictMove(battleState, address, abilityIndex)
 
-    // Submit move to smart contract if available
-    if (contractMatchId && makeMove) {
-      try {
-        const abilityIndex = abilities.findIndex(a => a.name === abilityName)
-        await makeMove(contractMatchId, abilityIndex)
-      } catch (error) {
-        console.error('Contract move failed:', error)
-      }
+    setSelectedAbility(abilityIndex)
+    setIsSubmittingMove(true)
+    setMoveError(null)
+    setMoveHash(null)
+    playSound(getAbilitySoundEffect(ability.name))
+    addToBattleLog(`⚡ You used ${ability.name}!`)
+    if (prediction && !prediction.isHealing) {
+      addToBattleLog(`🔮 Expected damage: ${prediction.damage}`)
     }
 
-    // Calculate damage
-    setTimeout(() => {
-      const baseDamage = ability.damage
-      const levelMultiplier = 1 + (selectedCharacter.level * 0.1)
-      const comboMultiplier = 1 + (comboCounter * 0.05)
-      const randomFactor = 0.8 + Math.random() * 0.4
-      
-      const finalDamage = Math.floor(baseDamage * levelMultiplier * comboMultiplier * randomFactor)
-      
-      // Apply damage to opponent
-      const newOpponentHealth = Math.max(0, opponentHealth - finalDamage)
-      setOpponentHealth(newOpponentHealth)
-      
-      // Update combo counter
-      setComboCounter(prev => prev + 1)
-      if (comboCounter > 2) {
-        setShowComboText(true)
-        setTimeout(() => setShowComboText(false), 1500)
-      }
-      
-      addToBattleLog(`💥 ${opponentName} takes ${finalDamage} damage!`)
-      
-      // Check if opponent is defeated
-      if (newOpponentHealth <= 0) {
-        handleGameOver(true) // Player won
-        return
-      }
-      
-      // Notify opponent of the action via socket
-      const gameAction = {
-        playerId,
-        action: { type: 'ability', abilityName },
-        result: {
-          ability: { name: ability.name, type: ability.type, soundEffect: ability.soundEffect },
-          damage: finalDamage
-        }
+    try {
+      const hash = await makeMove(matchId, abilityIndex)
+      setMoveHash(hash)
+      await refresh()
+    } catch (error: any) {
+      console.error('Contract move failed:', error)
+      const arenaError = decodeArenaError(error)
+      setMoveError(describeArenaError(arenaError))
+      addToBattleLog(`❌ Move failed: ${arenaError.message}`)
+      // Our view of the turn or match state is stale, so re-read it from the contract
+      if (arenaError.action === 'refresh' || arenaError.code === 'NOT_YOUR_TURN') {
+        refresh()
       }
-      
-      // Update opponent health locally (contract handles authoritative state)
-      setOpponentHealth(newOpponentHealth)
-      window.dispatchEvent(new CustomEvent('game_action', { detail: gameAction }))
-      
-      setTimeout(() => {
-        setPlayerAnimation(null)
-        
-        if (!isGameOver) {
-          setTurnCount(prev => prev + 1)
-          addToBattleLog("⏳ Waiting for opponent...")
-        }
-      }, 500)
-    }, 500)
+    } finally {
+      setIsSubmittingMove(false)
+      setSelectedAbility(null)
+    }
   }
 
-  // Get character abilities
-  const getCharacterAbilities = (characterName: string) => {
-    const abilityMap: Record<string, any[]> = {
-      "Chronos": [
-        { name: "Time Slash", damage: 25, manaCost: 20, type: "slash", soundEffect: "time-slash.mp3" },
-        { name: "Temporal Blast", damage: 35, manaCost: 30, type: "blast", soundEffect: "temporal-blast.mp3" },
-        { name: "Time Freeze", damage: 15, manaCost: 25, type: "freeze", soundEffect: "time-freeze.mp3" },
-        { name: "Chrono Strike", damage: 45, manaCost: 40, type: "strike", soundEffect: "chrono-strike.mp3" }
-      ],
-      "Pyromancer": [
-        { name: "Fireball", damage: 30, manaCost: 25, type: "fire", soundEffect: "fireball.mp3" },
-        { name: "Flame Burst", damage: 20, manaCost: 20, type: "fire", soundEffect: "flame-burst.mp3" },
-        { name: "Inferno", damage: 50, manaCost: 45, type: "fire", soundEffect: "inferno.mp3" },
-        { name: "Fire Shield", damage: 10, manaCost: 15, type: "shield", soundEffect: "fire-shield.mp3" }
-      ],
-      "Stormcaller": [
-        { name: "Lightning Bolt", damage: 28, manaCost: 22, type: "lightning", soundEffect: "lightning.mp3" },
-        { name: "Thunder Strike", damage: 35, manaCost: 30, type: "lightning", soundEffect: "thunder.mp3" },
-        { name: "Storm Shield", damage: 12, manaCost: 18, type: "shield", soundEffect: "storm.mp3" },
-        { name: "Chain Lightning", damage: 40, manaCost: 38, type: "lightning", soundEffect: "chain-lightning.mp3" }
-      ]
+  // End the match in our favour after the opponent timed out
+  const handleClaimTimeout = async () => {
+    if (!matchId || !canClaimTimeout || isClaimingTimeout || isPaused) return
+
+    setIsClaimingTimeout(true)
+    setMoveError(null)
+    setMoveHash(null)
+    addToBattleLog("⚖️ Claiming timeout victory...")
+
+    try {
+      const hash = await claimTimeoutVictory(matchId)
+      setMoveHash(hash)
+      await refresh()
+    } catch (error: any) {
+      console.error('Timeout claim failed:', error)
+      const arenaError = decodeArenaError(error)
+      setMoveError(describeArenaError(arenaError))
+      addToBattleLog(`❌ Claim failed: ${arenaError.message}`)
+      if (isArenaError(arenaError, 'TIMEOUT_ON_OWN_TURN', 'TIMEOUT_NOT_REACHED', 'MATCH_NOT_ONGOING')) {
+        refresh()
+      }
+    } finally {
+      setIsClaimingTimeout(false)
     }
-    
-    return abilityMap[characterName] || abilityMap["Chronos"]
   }
 
-  const abilities = selectedCharacter ? getCharacterAbilities(selectedCharacter.name) : []
-
   const handleExit = () => {
     leaveRoom()
     onExit()
   }
 
-  if (!selectedCharacter || !opponentCharacter) {
+  if (!battleState || !playerFighter || !opponentFighter) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <div className="text-xl text-muted-foreground mb-4">Loading battle...</div>
+          <div className="text-xl text-muted-foreground mb-4">
+            {matchError ? `Could not load match: ${matchError}` : "Loading battle from chain..."}
+          </div>
           <Button onClick={handleExit}>Exit</Button>
         </div>
       </div>
@@ -375,7 +349,7 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
       {/* Background effects */}
       <div className="absolute inset-0 bg-[url('/images/battle-background.jpg')] bg-cover bg-center opacity-20" />
       <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-black/30" />
-      
+
       {/* Battle Arena UI */}
       <div className="relative z-10 h-screen flex flex-col">
         {/* Header */}
@@ -384,65 +358,67 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
             <Button variant="ghost" size="sm" onClick={handleExit}>
               <Home className="w-4 h-4" />
             </Button>
-            <div className="text-lg font-bold">Arena Battle</div>
+            <div className="text-lg font-bold">Arena Battle #{matchId}</div>
           </div>
-          
+
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2 text-yellow-400">
               <Coins className="w-4 h-4" />
               <span className="font-bold">{totalStake} ETH Pool</span>
             </div>
-            <div className="text-sm text-muted-foreground">Turn {turnCount}</div>
+            <PayoutPreview stake={match ? match.stake : null} variant="compact" className="hidden md:flex" />
+            <div className="text-sm text-muted-foreground">Turn {battleState.turnCount + 1}</div>
+            {timeLeft !== null && !isGameOver && (
+              <div
+                className={`flex items-center gap-1 text-sm font-mono ${
+                  isCritical ? "text-red-400 animate-pulse" : isWarning ? "text-yellow-400" : "text-muted-foreground"
+                }`}
+                title={playerTurn ? "Time left for your move" : "Time left for your opponent's move"}
+              >
+                <Clock className="w-4 h-4" />
+                <span>{playerTurn ? "You" : "Opponent"}: {Web3Utils.formatTime(timeLeft)}</span>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Battle Area */}
-        <div className="flex-1 flex">
-          {/* Player Character */}
-          <div className="w-1/2 flex flex-col justify-center items-center p-8">
-            <motion.div
-              className="relative"
-              animate={playerAnimation ? { scale: [1, 1.1, 1], x: [0, 20, 0] } : {}}
-              transition={{ duration: 0.5 }}
-            >
-              <img
-                src={selectedCharacter.avatar}
-                alt={selectedCharacter.name}
-                className="w-48 h-48 object-cover rounded-full border-4 border-blue-400 shadow-lg"
-              />
-              <BattleEffects 
-                type={playerAnimation} 
-                position="center"
-                onComplete={() => setPlayerAnimation(null)}
-              />
-            </motion.div>
-            
-            <div className="mt-4 text-center">
-              <h3 className="text-xl font-bold text-blue-400">{playerName}</h3>
-              <p className="text-sm text-muted-foreground">{selectedCharacter.name}</p>
-            </div>
-            
-            {/* Player Stats */}
-            <div className="mt-4 w-full max-w-xs space-y-2">
-              <div className="flex items-center gap-2">
-                <Heart className="w-4 h-4 text-red-400" />
-                <Progress 
-                  value={(playerHealth / playerMaxHealth) * 100} 
-                  className="flex-1 h-2"
-                />
-                <span className="text-sm font-mono">{playerHealth}/{playerMaxHealth}</span>
-              </div>
-              
-              <div className="flex items-center gap-2">
-                <Droplet className="w-4 h-4 text-blue-400" />
-                <Progress 
-                  value={(playerMana / playerMaxMana) * 100} 
-                  className="flex-1 h-2"
-                />
-                <span className="text-sm font-mono">{playerMana}/{playerMaxMana}</span>
-              </div>
+        {/* Timeout Claim */}
+        {canClaimTimeout && (
+          <div className="flex items-center justify-between gap-4 px-4 py-3 bg-yellow-500/20 border-b border-yellow-500/40">
+            <div className="flex items-center gap-2 text-yellow-300 text-sm">
+              <AlertTriangle className="w-4 h-4" />
+              <span>{opponentName} didn't move in time. Claim the win to collect {expectedReward} ETH.</span>
             </div>
+            <Button
+              size="sm"
+              onClick={handleClaimTimeout}
+              disabled={isClaimingTimeout || isPaused}
+              title={isPaused ? "The arena is paused" : undefined}
+              className="bg-yellow-500 hover:bg-yellow-600 text-black font-bold"
+            >
+              {isClaimingTimeout ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trophy className="w-4 h-4 mr-2" />}
+              Claim Victory
+            </Button>
           </div>
+        )}
+
+        {/* Battle Area */}
+        <div className="flex-1 flex relative">
+          <BattleEffects playerAnimation={playerAnimation} enemyAnimation={opponentAnimation} />
+
+          {/* Player Character */}
+          <ArenaFighterCard
+            name={playerName}
+            characterName={playerCharacterName}
+            level={playerFighter.instance.level}
+            health={playerFighter.currentHealth}
+            maxHealth={playerMaxHealth}
+            mana={playerFighter.currentMana}
+            maxMana={playerMaxMana}
+            animation={playerAnimation}
+            side="left"
+            rating={getRating(playerFighter.player)}
+          />
 
           {/* VS Indicator */}
           <div className="flex items-center justify-center px-4">
@@ -450,50 +426,18 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
           </div>
 
           {/* Opponent Character */}
-          <div className="w-1/2 flex flex-col justify-center items-center p-8">
-            <motion.div
-              className="relative"
-              animate={opponentAnimation ? { scale: [1, 1.1, 1], x: [0, -20, 0] } : {}}
-              transition={{ duration: 0.5 }}
-            >
-              <img
-                src={opponentCharacter.avatar}
-                alt={opponentCharacter.name}
-                className="w-48 h-48 object-cover rounded-full border-4 border-red-400 shadow-lg"
-              />
-              <BattleEffects 
-                type={opponentAnimation} 
-                position="center"
-                onComplete={() => setOpponentAnimation(null)}
-              />
-            </motion.div>
-            
-            <div className="mt-4 text-center">
-              <h3 className="text-xl font-bold text-red-400">{opponentName}</h3>
-              <p className="text-sm text-muted-foreground">{opponentCharacter.name}</p>
-            </div>
-            
-            {/* Opponent Stats */}
-            <div className="mt-4 w-full max-w-xs space-y-2">
-              <div className="flex items-center gap-2">
-                <Heart className="w-4 h-4 text-red-400" />
-                <Progress 
-                  value={(opponentHealth / opponentMaxHealth) * 100} 
-                  className="flex-1 h-2"
-                />
-                <span className="text-sm font-mono">{opponentHealth}/{opponentMaxHealth}</span>
-              </div>
-              
-              <div className="flex items-center gap-2">
-                <Droplet className="w-4 h-4 text-blue-400" />
-                <Progress 
-                  value={(opponentMana / opponentMaxMana) * 100} 
-                  className="flex-1 h-2"
-                />
-                <span className="text-sm font-mono">{opponentMana}/{opponentMaxMana}</span>
-              </div>
-            </div>
-          </div>
+          <ArenaFighterCard
+            name={opponentName}
+            characterName={opponentCharacterName}
+            level={opponentFighter.instance.level}
+            health={opponentFighter.currentHealth}
+            maxHealth={opponentMaxHealth}
+            mana={opponentFighter.currentMana}
+            maxMana={opponentMaxMana}
+            animation={opponentAnimation}
+            side="right"
+            rating={getRating(opponentFighter.player)}
+          />
         </div>
 
         {/* Bottom UI */}
@@ -510,46 +454,46 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
           </div>
 
           {/* Abilities */}
+          <ArenaPausedNotice />
           <div className="grid grid-cols-4 gap-2">
-            {abilities.map((ability, index) => (
-              <Button
-                key={index}
-                onClick={() => handleAbilityUse(ability.name)}
-                disabled={!playerTurn || playerMana < ability.manaCost || isGameOver}
-                variant={selectedAbility === ability.name ? "default" : "secondary"}
-                className="h-16 flex flex-col items-center justify-center gap-1"
-              >
-                <span className="text-xs font-bold">{ability.name}</span>
-                <span className="text-xs text-muted-foreground">{ability.manaCost} MP</span>
-              </Button>
-            ))}
+            {playerFighter.characterType.abilities.map((ability, index) => {
+              const cooldownRemaining = getCooldownRemaining(battleState, playerFighter, index)
+              const canUse = playerTurn && !isSubmittingMove && !isPaused && validateMove(battleState, playerFighter.player, index).isValid
+
+              return (
+                <Button
+                  key={index}
+                  onClick={() => handleAbilityUse(index)}
+                  disabled={!canUse}
+                  variant={selectedAbility === index ? "default" : "secondary"}
+                  className="h-16 flex flex-col items-center justify-center gap-1"
+                >
+                  <span className="text-xs font-bold flex items-center gap-1">
+                    {selectedAbility === index && isSubmittingMove && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {ability.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {ability.manaCost} MP{cooldownRemaining > 0 ? ` • ${cooldownRemaining} turn${cooldownRemaining === 1 ? "" : "s"}` : ""}
+                  </span>
+                </Button>
+              )
+            })}
           </div>
         </div>
       </div>
 
-      {/* Combo Text */}
-      <AnimatePresence>
-        {showComboText && (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.5, y: 50 }}
-            animate={{ opacity: 1, scale: 1, y: 0 }}
-            exit={{ opacity: 0, scale: 0.5, y: -50 }}
-            className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50"
-          >
-            <div className="text-4xl font-bold text-yellow-400 text-center">
-              {comboCounter}x COMBO!
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
       {/* Transaction Status */}
-      {payoutHash && (
-        <div className="absolute top-4 right-4 z-50">
-          <TransactionStatus 
-            hash={payoutHash}
-            title={payoutComplete ? "💰 Payout Complete!" : "🔄 Processing Payout..."}
-            onComplete={() => setPayoutComplete(true)}
+      {(isSubmittingMove || isClaimingTimeout || moveError || moveHash) && !isGameOver && (
+        <div className="absolute top-16 right-4 z-50 w-80">
+          <TransactionStatus
+            isLoading={isSubmittingMove || isClaimingTimeout}
+            error={moveError}
+            hash={moveHash}
+            title={isClaimingTimeout ? "Claiming Timeout Victory" : "Arena Move"}
+            onClose={() => {
+              setMoveError(null)
+              setMoveHash(null)
+            }}
           />
         </div>
       )}
@@ -569,18 +513,28 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
               transition={{ delay: 0.2 }}
               className="bg-gradient-to-br from-purple-900 to-blue-900 p-8 rounded-xl text-center max-w-md mx-4"
             >
-              {gameWinner === playerName ? (
+              {matchCancelled ? (
+                <div>
+                  <AlertTriangle className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                  <h2 className="text-3xl font-bold text-yellow-400 mb-2">MATCH CANCELLED</h2>
+                  <p className="text-lg mb-4">The arena cancelled this match.</p>
+                  <div className="flex items-center justify-center gap-2 text-xl text-green-400">
+                    <Coins className="w-5 h-5" />
+                    <span>{match ? Web3Utils.formatEth(match.stake) : stakeAmount} ETH refunded</span>
+                  </div>
+                </div>
+              ) : playerWon ? (
                 <div>
                   <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
                   <h2 className="text-3xl font-bold text-yellow-400 mb-2">VICTORY!</h2>
                   <p className="text-lg mb-4">You defeated {opponentName}!</p>
                   <div className="flex items-center justify-center gap-2 text-2xl font-bold text-green-400">
                     <Coins className="w-6 h-6" />
-                    <span>+{totalStake} ETH</span>
+                    <span>+{expectedReward} ETH</span>
                   </div>
-                  {isPayingOut && (
+                  {!completion && (
                     <p className="text-sm text-muted-foreground mt-2 animate-pulse">
-                      Processing payout...
+                      Waiting for payout confirmation...
                     </p>
                   )}
                 </div>
@@ -591,7 +545,7 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
                   <p className="text-lg mb-4">{opponentName} wins!</p>
                   <div className="flex items-center justify-center gap-2 text-xl text-red-400">
                     <Coins className="w-5 h-5" />
-                    <span>-{stakeAmount} ETH</span>
+                    <span>-{match ? Web3Utils.formatEth(match.stake) : stakeAmount} ETH</span>
                   </div>
                 </div>
               )}
@@ -601,4 +555,4 @@ export default function ContractPvPBattle({ onGameOver, onVictory, onExit }: Con
       </AnimatePresence>
     </div>
   )
-}
\ No newline at end of file
+}
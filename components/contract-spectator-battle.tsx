@@ -0,0 +1,283 @@
+// components/contract-spectator-battle.tsx - Read-only view of an ongoing arena match
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Home, Trophy, Coins, Clock, Eye } from "lucide-react"
+import { motion, AnimatePresence } from "framer-motion"
+import { getAbilityType, getAbilitySoundEffect } from "./game-state-provider"
+import { useContract } from "@/hooks/use-contract"
+import { useContractMatch } from "@/hooks/use-contract-match"
+import { useTurnTimer } from "@/hooks/use-turn-timer"
+import { useRatings } from "@/hooks/use-ratings"
+import { playSound } from "@/lib/sound-utils"
+import BattleEffects from "./battle-effects"
+import ArenaFighterCard from "./arena-fighter-card"
+import { Web3Utils, MatchStatus } from "@/lib/Web3-Utils"
+import { getFighterIndex, getMaxHealth, getMaxMana, isHealingAbility } from "@/lib/battle-engine"
+
+interface ContractSpectatorBattleProps {
+  matchId: number
+  onExit: () => void
+}
+
+export default function ContractSpectatorBattle({ matchId, onExit }: ContractSpectatorBattleProps) {
+  const { characterTypes } = useContract()
+  const {
+    match,
+    battleState,
+    lastMove,
+    completion,
+    isLoading,
+    error: matchError
+  } = useContractMatch(matchId, characterTypes)
+  const { timeLeft, isWarning, isCritical } = useTurnTimer(match)
+  const { getRating } = useRatings()
+
+  // Spectators keep their own log so the player's game state is left alone
+  const [battleLog, setBattleLog] = useState<string[]>([])
+  const [leftAnimation, setLeftAnimation] = useState<string | null>(null)
+  const [rightAnimation, setRightAnimation] = useState<string | null>(null)
+
+  const battleLogRef = useRef<HTMLDivElement>(null)
+  const announcedStart = useRef(false)
+  const announcedEnd = useRef(false)
+
+  const addToBattleLog = useCallback((message: string) => {
+    setBattleLog(prev => [...prev, message])
+  }, [])
+
+  const [leftFighter, rightFighter] = battleState ? battleState.fighters : [null, null]
+  const getCharacterName = (characterTypeId?: number) =>
+    characterTypes.find(type => type.id === characterTypeId)?.name || ""
+  const getFighterName = (index: number) =>
+    battleState ? `P${index + 1} ${Web3Utils.formatAddress(battleState.fighters[index].player)}` : ""
+
+  const isGameOver = !!battleState?.isOver
+  const winnerIndex = battleState?.winner ? getFighterIndex(battleState, battleState.winner) : -1
+  const currentTurnIndex = battleState && !isGameOver ? getFighterIndex(battleState, battleState.currentTurn) : -1
+  const totalStake = match ? Web3Utils.formatEth(match.stake * 2n) : "0"
+
+  // Reset when switching matches
+  useEffect(() => {
+    setBattleLog([])
+    announcedStart.current = false
+    announcedEnd.current = false
+  }, [matchId])
+
+  // Announce the match once both fighters are known
+  useEffect(() => {
+    if (!battleState || announcedStart.current) return
+    announcedStart.current = true
+
+    addToBattleLog(`👁️ Spectating Arena Battle #${matchId}`)
+    addToBattleLog(`💰 Total Stake Pool: ${totalStake} ETH`)
+    addToBattleLog(`⚔️ ${getFighterName(0)} vs ${getFighterName(1)}`)
+  }, [battleState, matchId, totalStake, addToBattleLog])
+
+  // Scroll battle log to bottom
+  useEffect(() => {
+    if (battleLogRef.current) {
+      battleLogRef.current.scrollTop = battleLogRef.current.scrollHeight
+    }
+  }, [battleLog])
+
+  // Animate and log each confirmed MoveMade event
+  useEffect(() => {
+    if (!lastMove || !battleState) return
+
+    const actorIndex = getFighterIndex(battleState, lastMove.player)
+    if (actorIndex === -1) return
+
+    const ability = battleState.fighters[actorIndex].characterType.abilities[lastMove.abilityIndex]
+    if (!ability) return
+
+    const actorName = getFighterName(actorIndex)
+    const targetName = getFighterName(actorIndex === 0 ? 1 : 0)
+
+    if (actorIndex === 0) {
+      setLeftAnimation(getAbilityType(ability.name))
+    } else {
+      setRightAnimation(getAbilityType(ability.name))
+    }
+    playSound(getAbilitySoundEffect(ability.name))
+
+    addToBattleLog(`⚡ ${actorName} used ${ability.name}!`)
+    if (isHealingAbility(ability.name)) {
+      addToBattleLog(`✨ ${actorName} recovered health!`)
+    } else {
+      addToBattleLog(`💥 ${targetName} takes ${lastMove.damage} damage!`)
+    }
+
+    const timer = setTimeout(() => {
+      setLeftAnimation(null)
+      setRightAnimation(null)
+    }, 1000)
+
+    return () => clearTimeout(timer)
+  }, [lastMove]) // Only react to new events, not to the state refresh that follows them
+
+  // Show the result once MatchCompleted lands
+  useEffect(() => {
+    if (!isGameOver || winnerIndex === -1 || announcedEnd.current) return
+    announcedEnd.current = true
+
+    const reward = completion ? `${Web3Utils.formatEth(completion.reward)} ETH` : `the ${totalStake} ETH prize pool`
+    addToBattleLog(`🏆 ${getFighterName(winnerIndex)} wins and claims ${reward}!`)
+  }, [isGameOver, winnerIndex, completion, totalStake, addToBattleLog])
+
+  if (!battleState || !leftFighter || !rightFighter) {
+    const waitingForOpponent = match && !isLoading && !matchError && !battleState && match.status === MatchStatus.FINDING
+
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-xl text-muted-foreground mb-4">
+            {matchError
+              ? `Could not load match: ${matchError}`
+              : waitingForOpponent
+                ? `Match #${matchId} is still waiting for an opponent`
+                : "Loading battle from chain..."}
+          </div>
+          <Button onClick={onExit}>Exit</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-purple-900 to-slate-900 text-white relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 bg-[url('/images/battle-background.jpg')] bg-cover bg-center opacity-20" />
+      <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-black/30" />
+
+      {/* Battle Arena UI */}
+      <div className="relative z-10 h-screen flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 bg-black/30">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onExit}>
+              <Home className="w-4 h-4" />
+            </Button>
+            <div className="text-lg font-bold">Arena Battle #{matchId}</div>
+            <div className="flex items-center gap-1 text-sm text-purple-300">
+              <Eye className="w-4 h-4" />
+              <span>Spectating</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 text-yellow-400">
+              <Coins className="w-4 h-4" />
+              <span className="font-bold">{totalStake} ETH Pool</span>
+            </div>
+            <div className="text-sm text-muted-foreground">Turn {battleState.turnCount + 1}</div>
+            {timeLeft !== null && currentTurnIndex !== -1 && (
+              <div
+                className={`flex items-center gap-1 text-sm font-mono ${
+                  isCritical ? "text-red-400 animate-pulse" : isWarning ? "text-yellow-400" : "text-muted-foreground"
+                }`}
+              >
+                <Clock className="w-4 h-4" />
+                <span>P{currentTurnIndex + 1}: {Web3Utils.formatTime(timeLeft)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Battle Area */}
+        <div className="flex-1 flex relative">
+          <BattleEffects playerAnimation={leftAnimation} enemyAnimation={rightAnimation} />
+
+          <ArenaFighterCard
+            name={getFighterName(0)}
+            characterName={getCharacterName(leftFighter.instance.characterTypeId)}
+            level={leftFighter.instance.level}
+            health={leftFighter.currentHealth}
+            maxHealth={getMaxHealth(leftFighter.characterType, leftFighter.instance.level)}
+            mana={leftFighter.currentMana}
+            maxMana={getMaxMana(leftFighter.characterType, leftFighter.instance.level)}
+            animation={leftAnimation}
+            side="left"
+            rating={getRating(leftFighter.player)}
+          />
+
+          {/* VS Indicator */}
+          <div className="flex items-center justify-center px-4">
+            <div className="text-6xl font-bold text-purple-400 opacity-50">VS</div>
+          </div>
+
+          <ArenaFighterCard
+            name={getFighterName(1)}
+            characterName={getCharacterName(rightFighter.instance.characterTypeId)}
+            level={rightFighter.instance.level}
+            health={rightFighter.currentHealth}
+            maxHealth={getMaxHealth(rightFighter.characterType, rightFighter.instance.level)}
+            mana={rightFighter.currentMana}
+            maxMana={getMaxMana(rightFighter.characterType, rightFighter.instance.level)}
+            animation={rightAnimation}
+            side="right"
+            rating={getRating(rightFighter.player)}
+          />
+        </div>
+
+        {/* Bottom UI */}
+        <div className="bg-black/40 p-4 space-y-4">
+          {/* Battle Log */}
+          <div className="bg-black/50 rounded-lg p-4 h-32 overflow-y-auto" ref={battleLogRef}>
+            <div className="space-y-1 text-sm">
+              {battleLog.map((message, index) => (
+                <div key={index} className="text-gray-300">
+                  {message}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Abilities are read-only for spectators */}
+          <div className="grid grid-cols-4 gap-2">
+            {(currentTurnIndex !== -1 ? battleState.fighters[currentTurnIndex] : leftFighter).characterType.abilities.map((ability, index) => (
+              <Button
+                key={index}
+                disabled
+                variant="secondary"
+                className="h-16 flex flex-col items-center justify-center gap-1"
+              >
+                <span className="text-xs font-bold">{ability.name}</span>
+                <span className="text-xs text-muted-foreground">{ability.manaCost} MP</span>
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Result Overlay */}
+      <AnimatePresence>
+        {isGameOver && winnerIndex !== -1 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/80 flex items-center justify-center z-50"
+          >
+            <motion.div
+              initial={{ scale: 0.5, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              transition={{ delay: 0.2 }}
+              className="bg-gradient-to-br from-purple-900 to-blue-900 p-8 rounded-xl text-center max-w-md mx-4"
+            >
+              <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+              <h2 className="text-3xl font-bold text-yellow-400 mb-2">MATCH OVER</h2>
+              <p className="text-lg mb-4">{getFighterName(winnerIndex)} wins!</p>
+              <div className="flex items-center justify-center gap-2 text-2xl font-bold text-green-400 mb-6">
+                <Coins className="w-6 h-6" />
+                <span>{completion ? Web3Utils.formatEth(completion.reward) : totalStake} ETH</span>
+              </div>
+              <Button onClick={onExit}>Leave Arena</Button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
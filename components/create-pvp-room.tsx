@@ -14,8 +14,11 @@ import { playSound } from "@/lib/sound-utils"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import TransactionStatus from "./transaction-status"
-import GasEstimation from "./gas-estimation"
+import PayoutPreview from "./payout-preview"
+import { useArenaStatus } from "./arena-status-provider"
+import { ArenaPausedNotice } from "./arena-paused-banner"
 import { Web3Utils } from "@/lib/Web3-Utils"
+import { STAKE_TIERS, DEFAULT_STAKE } from "@/lib/contract-config"
 import type { Hash } from "viem"
 
 interface CreatePvPRoomProps {
@@ -57,10 +60,11 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
     getFormattedBalance, 
     hasSufficientBalance 
   } = useWallet()
+  const { isPaused } = useArenaStatus()
   
   const [name, setName] = useState(playerName)
   const [roomName, setRoomName] = useState("")
-  const [stakeAmount, setStakeAmount] = useState("0.001")
+  const [stakeAmount, setStakeAmount] = useState(DEFAULT_STAKE)
   const [selectedCharacterIndex, setSelectedCharacterIndex] = useState(0)
   const [arenaCharacter, setArenaCharacter] = useState<CharacterInstance | null>(null)
   const [copied, setCopied] = useState(false)
@@ -70,10 +74,10 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
 
   const [transactionHash, setTransactionHash] = useState<Hash | null>(null)
   const [walletBalance, setWalletBalance] = useState<string>("0")
-  const [gasEstimate, setGasEstimate] = useState<string | null>(null)
+  const [gasUnits, setGasUnits] = useState<bigint | null>(null)
 
   // Predefined stake amounts for quick selection
-  const stakePresets = ["0.001", "0.005", "0.01", "0.05", "0.1"]
+  const stakePresets = STAKE_TIERS
 
   // Update wallet balance
   useEffect(() => {
@@ -116,7 +120,7 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
       // Add timeout to prevent hanging
       const timeout = setTimeout(() => {
         console.log('Gas estimation timeout - continuing without estimate')
-        setGasEstimate(null)
+        setGasUnits(null)
       }, 10000) // 10 second timeout
 
       try {
@@ -126,17 +130,17 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
         estimateGas('initiateMatch', [BigInt(characterInstanceId)], Web3Utils.parseEth(stakeAmount))
           .then(gas => {
             clearTimeout(timeout)
-            setGasEstimate(Web3Utils.formatEth(gas))
+            setGasUnits(gas)
           })
           .catch((err) => {
             clearTimeout(timeout)
             console.log('Gas estimation failed, continuing without estimate:', err)
-            setGasEstimate(null)
+            setGasUnits(null)
           })
       } catch (error) {
         clearTimeout(timeout)
         console.error('Error in gas estimation setup:', error)
-        setGasEstimate(null)
+        setGasUnits(null)
       }
 
       return () => clearTimeout(timeout)
@@ -287,8 +291,12 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
     return stake > 0 && stake <= 1 // Max 1 ETH stake
   }, [stakeAmount])
 
+  const previewStake = isValidStake() ? Web3Utils.parseEth(stakeAmount) : null
+
   // Handle room creation
   const handleCreateRoom = async () => {
+    if (isPaused) return
+
     if (!name.trim()) {
       setError("Please enter your name")
       return
@@ -705,19 +713,11 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
                 <span>Your Balance:</span>
                 <span>{walletBalance} ETH</span>
               </div>
-              <div className="flex justify-between text-yellow-400">
-                <span>Total Pool (Both Players):</span>
-                <span>{(parseFloat(stakeAmount || "0") * 2).toFixed(3)} ETH</span>
-              </div>
-              {gasEstimate && (
-                <div className="flex justify-between text-gray-400">
-                  <span>Est. Gas Fee:</span>
-                  <span>{gasEstimate}</span>
-                </div>
-              )}
             </div>
           </div>
 
+          <PayoutPreview stake={previewStake} gasUnits={gasUnits} />
+
           {/* Battle Info */}
           <Card className="bg-purple-500/20 border-purple-500/30">
             <CardHeader className="pb-3">
@@ -729,7 +729,7 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
             <CardContent className="space-y-2 text-sm text-gray-300">
               <p>• Turn-based arena combat</p>
               <p>• Both players stake {contractStakeAmount || stakeAmount || "0.001"} ETH</p>
-              <p>• Winner takes the entire pool</p>
+              <p>• Winner takes the pool minus the platform fee</p>
               <p>• Stakes are held in smart contract</p>
               <p>• Fair play enforced on-chain</p>
             </CardContent>
@@ -738,10 +738,15 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
           {/* Create Button */}
           <Button
             onClick={handleCreateRoom}
-            disabled={creating || !isConnected || !contractConnected || !isValidStake() || !hasEnoughBalance() || !arenaCharacter || isLoadingContract || ownedCharacters.length === 0}
+            disabled={creating || isPaused || !isConnected || !contractConnected || !isValidStake() || !hasEnoughBalance() || !arenaCharacter || isLoadingContract || ownedCharacters.length === 0}
             className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-bold py-3"
           >
-            {creating ? (
+            {isPaused ? (
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5" />
+                Arena Paused
+              </div>
+            ) : creating ? (
               <div className="flex items-center gap-2">
                 <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
                 Creating Arena...
@@ -758,6 +763,7 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
               </div>
             )}
           </Button>
+          <ArenaPausedNotice />
 
           {/* Wallet Info */}
           <div className="text-center text-xs text-gray-400 space-y-1">
@@ -777,13 +783,6 @@ export default function CreatePvPRoom({ onBack, onRoomCreated }: CreatePvPRoomPr
           </div>
         </div>
       </motion.div>
-
-      {/* Gas Estimation */}
-      {gasEstimate && (
-        <div className="absolute bottom-4 right-4">
-          <GasEstimation estimate={gasEstimate} />
-        </div>
-      )}
     </div>
   )
 }
\ No newline at end of file
@@ -9,6 +9,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Loader2, ArrowLeft, Users, Lock, Unlock, Zap, User, Sword } from 'lucide-react'
 import { useContractMultiplayer } from './contract-multiplayer-provider'
 import { useGameState } from './game-state-provider'
+import { useArenaStatus } from './arena-status-provider'
+import { ArenaPausedNotice } from './arena-paused-banner'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import type { CharacterInstance } from '@/lib/Web3-Utils'
@@ -31,6 +33,7 @@ export default function CreateRoomContract({ onBack, onRoomCreated }: CreateRoom
   } = useContractMultiplayer()
 
   const { ownedCharacters, isLoadingContract } = useGameState()
+  const { isPaused } = useArenaStatus()
 
   const [roomName, setRoomName] = useState('')
   const [stakeAmount, setStakeAmount] = useState<string>('0.001')
@@ -177,7 +180,7 @@ export default function CreateRoomContract({ onBack, onRoomCreated }: CreateRoom
     }
   }, [roomName, stakeAmount, isPrivate, selectedCharacterId, contractConnected, name, playerName, setPlayerName, createRoom])
 
-  const canCreateRoom = isConnected && contractConnected && !creating && !waiting && selectedCharacterId !== null
+  const canCreateRoom = isConnected && contractConnected && !isPaused && !creating && !waiting && selectedCharacterId !== null
   const selectedCharacter = ownedCharacters.find(char => char.id === selectedCharacterId)
 
   return (
@@ -371,6 +374,7 @@ export default function CreateRoomContract({ onBack, onRoomCreated }: CreateRoom
                 </>
               )}
             </Button>
+            <ArenaPausedNotice />
 
             {!contractConnected && (
               <Alert className="border-yellow-500/50 bg-yellow-500/10">
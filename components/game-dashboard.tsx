@@ -1,18 +1,24 @@
 "use client"
 
 import { useState } from "react"
+import { useAccount } from "wagmi"
 import { useGameContext } from "./game-context-provider"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Badge } from "@/components/ui/badge"
 import { Sword, Shield, Clock, Zap, Trophy, Users, Map, Sparkles, Coins } from "lucide-react"
 import { GameCard } from "./game-card"
 import { QuestCard } from "./quest-card"
+import { LeaderboardList, WeeklyResetBadge, LEADERBOARD_MODES } from "./leaderboard"
+import { useLeaderboard } from "@/hooks/use-leaderboard"
+import type { LeaderboardMode } from "@/lib/leaderboard"
 
 export function GameDashboard() {
   const { increaseXP, increaseCoins } = useGameContext()
   const [selectedTab, setSelectedTab] = useState("battles")
+  const [rankingMode, setRankingMode] = useState<LeaderboardMode>("wins")
+  const { address } = useAccount()
+  const { entries: arenaRankings, isLoading: isLoadingRankings } = useLeaderboard("weekly")
 
   const handleBattle = () => {
     // Simulate winning a battle
@@ -44,10 +50,7 @@ export function GameDashboard() {
           </TabsList>
 
           <div className="hidden md:block">
-            <Badge variant="outline" className="bg-purple-900/50 text-purple-200 border-purple-500 px-3 py-1">
-              <Clock className="h-4 w-4 mr-2" />
-              Season 2 ends in 14d 6h
-            </Badge>
+            <WeeklyResetBadge />
           </div>
         </div>
 
@@ -218,72 +221,24 @@ export function GameDashboard() {
           <Card className="bg-gradient-to-br from-gray-800 to-gray-900 border-purple-700">
             <CardHeader>
               <CardTitle>Arena Rankings</CardTitle>
-              <CardDescription>Compete against other players</CardDescription>
+              <CardDescription>
+                {isLoadingRankings ? "Loading this week's results..." : "This week's top arena players"}
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <div className="flex items-center gap-4">
-                    <div className="bg-gradient-to-r from-yellow-500 to-amber-500 w-12 h-12 rounded-full flex items-center justify-center text-black font-bold text-lg">
-                      #1
-                    </div>
-                    <div>
-                      <p className="font-bold">TimeWizard</p>
-                      <p className="text-sm text-gray-400">Level 42 • 1250 points</p>
-                    </div>
-                  </div>
-                  <Button variant="outline" size="sm">
-                    Challenge
+              <div className="flex flex-wrap gap-2 mb-4">
+                {LEADERBOARD_MODES.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={rankingMode === option.value ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setRankingMode(option.value)}
+                  >
+                    {option.label}
                   </Button>
-                </div>
-
-                {[
-                  { rank: 2, name: "ChronoMaster", level: 38, points: 1180 },
-                  { rank: 3, name: "TemporalKnight", level: 35, points: 1120 },
-                  { rank: 4, name: "TimeBender", level: 33, points: 1050 },
-                  { rank: 5, name: "ClockworkSage", level: 30, points: 980 },
-                ].map((player) => (
-                  <div key={player.rank} className="flex justify-between items-center">
-                    <div className="flex items-center gap-4">
-                      <div
-                        className={`w-12 h-12 rounded-full flex items-center justify-center font-bold text-lg ${
-                          player.rank === 2
-                            ? "bg-gradient-to-r from-gray-300 to-gray-400 text-black"
-                            : player.rank === 3
-                              ? "bg-gradient-to-r from-amber-700 to-amber-800 text-white"
-                              : "bg-gray-700"
-                        }`}
-                      >
-                        #{player.rank}
-                      </div>
-                      <div>
-                        <p className="font-bold">{player.name}</p>
-                        <p className="text-sm text-gray-400">
-                          Level {player.level} • {player.points} points
-                        </p>
-                      </div>
-                    </div>
-                    <Button variant="outline" size="sm">
-                      Challenge
-                    </Button>
-                  </div>
                 ))}
-
-                <div className="flex justify-between items-center bg-purple-900/30 p-3 rounded-lg border border-purple-700">
-                  <div className="flex items-center gap-4">
-                    <div className="bg-gray-700 w-12 h-12 rounded-full flex items-center justify-center font-bold text-lg">
-                      #28
-                    </div>
-                    <div>
-                      <p className="font-bold">You</p>
-                      <p className="text-sm text-gray-400">Level 1 • 120 points</p>
-                    </div>
-                  </div>
-                  <Button variant="default" size="sm" className="bg-purple-600 hover:bg-purple-700">
-                    Climb Ranks
-                  </Button>
-                </div>
               </div>
+              <LeaderboardList entries={arenaRankings} mode={rankingMode} playerAddress={address} limit={5} />
             </CardContent>
           </Card>
         </TabsContent>
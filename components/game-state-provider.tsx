@@ -150,7 +150,7 @@ const convertContractCharacterToGameCharacter = (
 }
 
 // Helper functions for character data mapping
-const getAbilityType = (abilityName: string): "fire" | "ice" | "lightning" | "time" | "physical" => {
+export const getAbilityType = (abilityName: string): "fire" | "ice" | "lightning" | "time" | "physical" => {
   const name = abilityName.toLowerCase()
   if (name.includes('fire') || name.includes('flame') || name.includes('burn')) return 'fire'
   if (name.includes('ice') || name.includes('frost') || name.includes('freeze')) return 'ice'
@@ -181,7 +181,7 @@ const getAbilityDescription = (abilityName: string): string => {
   return descriptions[abilityName] || `A powerful ${abilityName.toLowerCase()} attack`
 }
 
-const getAbilitySoundEffect = (abilityName: string): string => {
+export const getAbilitySoundEffect = (abilityName: string): string => {
   const name = abilityName.toLowerCase()
   if (name.includes('lightning') || name.includes('thunder') || name.includes('bolt')) return 'lightning-ability.mp3'
   if (name.includes('fire') || name.includes('flame') || name.includes('burn')) return 'fire-ability.mp3'
@@ -190,7 +190,7 @@ const getAbilitySoundEffect = (abilityName: string): string => {
   return 'ability.mp3'
 }
 
-const getCharacterAvatar = (characterName: string): string => {
+export const getCharacterAvatar = (characterName: string): string => {
   const avatars: Record<string, string> = {
     'Zeus': '/images/zeus.png',
     'Athena': '/images/athena.png',
@@ -6,10 +6,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Fuel, TrendingUp, TrendingDown, AlertCircle } from "lucide-react"
 import { motion } from "framer-motion"
-import { Web3Utils } from "@/lib/Web3-Utils"
+import { Web3Utils, type FeeData } from "@/lib/Web3-Utils"
+import { isArenaError } from "@/lib/arena-errors"
+import { FALLBACK_GAS_LIMITS } from "@/lib/contract-config"
+import { contractService } from "@/lib/contract-service"
 import { useContract } from "@/hooks/use-contract"
 import { useWallet } from "@/hooks/use-wallet"
-import type { Address } from "viem"
 
 // Define specific argument types for each function
 type FunctionArgs = {
@@ -41,13 +43,14 @@ export default function GasEstimation({
   onEstimationComplete
 }: GasEstimationProps) {
   const { estimateGas } = useContract()
-  const { address, getFormattedBalance } = useWallet()
+  const { address, balance, getFormattedBalance } = useWallet()
   
   const [gasEstimate, setGasEstimate] = useState<bigint | null>(null)
-  const [gasCost, setGasCost] = useState<string>("")
+  const [feeData, setFeeData] = useState<FeeData | null>(null)
+  // The node couldn't simulate the call, so gasEstimate is a default limit for the function
+  const [isFallbackEstimate, setIsFallbackEstimate] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [gasPrice, setGasPrice] = useState<bigint>(20000000000n) // 20 gwei default
 
   // Estimate gas when parameters change
   useEffect(() => {
@@ -82,40 +85,35 @@ export default function GasEstimation({
         setIsLoading(true)
         setError(null)
 
-        console.log('GasEstimation: Estimating gas for', { functionName, args, value })
-        const estimate = await estimateGas(functionName, args, value)
-        const cost = Web3Utils.formatEth(estimate * gasPrice)
-        
+        const fees = await contractService.getFeeData()
+        setFeeData(fees)
+
+        let estimate: bigint
+        let isFallback = false
+        try {
+          console.log('GasEstimation: Estimating gas for', { functionName, args, value })
+          estimate = await estimateGas(functionName, args, value)
+        } catch (err) {
+          // The node refuses to estimate when the wallet cannot cover stake and gas
+          if (!isArenaError(err, 'INSUFFICIENT_FUNDS')) throw err
+          estimate = FALLBACK_GAS_LIMITS[functionName]
+          isFallback = true
+        }
+
+        // Expected charge: base fee plus tip, not the maxFeePerGas ceiling
+        const cost = Web3Utils.formatEth(estimate * (fees.baseFeePerGas + fees.maxPriorityFeePerGas))
+
         setGasEstimate(estimate)
-        setGasCost(cost)
-        
+        setIsFallbackEstimate(isFallback)
+
         if (onEstimationComplete) {
           onEstimationComplete(estimate, cost)
         }
       } catch (err: any) {
         console.error('Gas estimation failed:', err)
-        
-        // Check if this is an OutOfFund error
-        if (err.message.includes('OutOfFund') || 
-            err.message.includes('Request exceeds defined limit') ||
-            err.message.includes('insufficient funds')) {
-          
-          // Provide a fallback estimate for insufficient funds scenarios
-          const fallbackGasEstimate = 100000n // Conservative estimate
-          const fallbackCost = Web3Utils.formatEth(fallbackGasEstimate * gasPrice)
-          
-          setGasEstimate(fallbackGasEstimate)
-          setGasCost(fallbackCost)
-          setError('Cannot estimate exact gas due to insufficient funds. Showing conservative estimate.')
-          
-          if (onEstimationComplete) {
-            onEstimationComplete(fallbackGasEstimate, fallbackCost)
-          }
-        } else {
-          setError(err.message || 'Failed to estimate gas')
-          setGasEstimate(null)
-          setGasCost("")
-        }
+        setError(err.message || 'Failed to estimate gas')
+        setGasEstimate(null)
+        setIsFallbackEstimate(false)
       } finally {
         setIsLoading(false)
       }
@@ -125,7 +123,7 @@ export default function GasEstimation({
     }, 3000) // 3s delay to prevent rate limiting
     
     return () => clearTimeout(timeoutId)
-  }, [functionName, args, value, address, gasPrice, estimateGas, onEstimationComplete])
+  }, [functionName, args, value, address, estimateGas, onEstimationComplete])
 
   const getGasLevel = () => {
     if (!gasEstimate) return 'unknown'
@@ -161,13 +159,14 @@ export default function GasEstimation({
     return Web3Utils.formatNumber(Number(gasEstimate))
   }
 
+  // Expected gas cost, and the most the transaction can be charged at maxFeePerGas
+  const expectedGasCost = gasEstimate && feeData ? gasEstimate * (feeData.baseFeePerGas + feeData.maxPriorityFeePerGas) : null
+  const maxGasCost = gasEstimate && feeData ? gasEstimate * feeData.maxFeePerGas : null
+
+  // Wallets reject a transaction unless the balance covers its maximum cost plus value
   const checkSufficientBalance = () => {
-    if (!gasEstimate || !address) return true
-    
-    const totalCost = value ? gasEstimate * gasPrice + value : gasEstimate * gasPrice
-    const balanceWei = Web3Utils.parseEth(getFormattedBalance())
-    
-    return balanceWei >= totalCost
+    if (maxGasCost === null || !balance) return true
+    return balance.value >= maxGasCost + (value ?? 0n)
   }
 
   const hasSufficientBalance = checkSufficientBalance()
@@ -194,14 +193,14 @@ export default function GasEstimation({
               <AlertCircle className="h-3 w-3 mr-1" />
               Failed
             </Badge>
-          ) : gasEstimate ? (
+          ) : gasEstimate && expectedGasCost !== null ? (
             <div className="flex items-center gap-2">
               <Badge variant="outline" className={`text-xs ${getGasLevelColor()}`}>
                 {getGasLevelIcon()}
-                <span className="ml-1">{formatGasEstimate()}</span>
+                <span className="ml-1">{isFallbackEstimate && '≤ '}{formatGasEstimate()}</span>
               </Badge>
               <span className="font-mono text-yellow-400">
-                ~{parseFloat(gasCost).toFixed(6)} ETH
+                ~{parseFloat(Web3Utils.formatEth(expectedGasCost)).toFixed(6)} ETH
               </span>
             </div>
           ) : null}
@@ -209,7 +208,7 @@ export default function GasEstimation({
       </div>
 
       {/* Detailed breakdown */}
-      {showDetails && gasEstimate && !isLoading && (
+      {showDetails && gasEstimate && feeData && expectedGasCost !== null && maxGasCost !== null && !isLoading && (
         <motion.div
           initial={{ opacity: 0, height: 0 }}
           animate={{ opacity: 1, height: 'auto' }}
@@ -220,37 +219,71 @@ export default function GasEstimation({
             <span>Gas Limit:</span>
             <span className="font-mono">{gasEstimate.toString()}</span>
           </div>
+          {feeData.type === 'eip1559' ? (
+            <>
+              <div className="flex justify-between">
+                <span>Base Fee:</span>
+                <span className="font-mono">{Web3Utils.formatGwei(feeData.baseFeePerGas)} gwei</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Priority Fee:</span>
+                <span className="font-mono">{Web3Utils.formatGwei(feeData.maxPriorityFeePerGas)} gwei</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Max Fee:</span>
+                <span className="font-mono">{Web3Utils.formatGwei(feeData.maxFeePerGas)} gwei</span>
+              </div>
+            </>
+          ) : (
+            <div className="flex justify-between">
+              <span>Gas Price:</span>
+              <span className="font-mono">{Web3Utils.formatGwei(feeData.maxFeePerGas)} gwei</span>
+            </div>
+          )}
           <div className="flex justify-between">
-            <span>Gas Price:</span>
-            <span className="font-mono">{Web3Utils.formatEth(gasPrice)} ETH</span>
+            <span>Gas Cost:</span>
+            <span className="font-mono">
+              ~{Web3Utils.formatEth(expectedGasCost)} ETH
+              {maxGasCost > expectedGasCost && ` (max ${Web3Utils.formatEth(maxGasCost)})`}
+            </span>
           </div>
           {value && (
             <div className="flex justify-between">
-              <span>Transaction Value:</span>
+              <span>Stake:</span>
               <span className="font-mono text-yellow-400">{Web3Utils.formatEth(value)} ETH</span>
             </div>
           )}
           <div className="border-t border-gray-700 pt-1 flex justify-between font-medium">
             <span>Total Cost:</span>
             <span className="font-mono text-yellow-400">
-              ~{Web3Utils.formatEth(gasEstimate * gasPrice + (value || 0n))} ETH
+              ~{Web3Utils.formatEth(expectedGasCost + (value || 0n))} ETH
             </span>
           </div>
         </motion.div>
       )}
 
+      {/* Fallback estimate warning */}
+      {isFallbackEstimate && gasEstimate && !isLoading && (
+        <Alert className="text-xs py-2 border-yellow-500/50 bg-yellow-500/10">
+          <AlertCircle className="h-3 w-3" />
+          <AlertDescription>
+            The network could not simulate this transaction, so this is a default gas limit rather than an estimate of this call.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Insufficient balance warning */}
-      {!hasSufficientBalance && gasEstimate && (
+      {!hasSufficientBalance && maxGasCost !== null && (
         <Alert variant="destructive" className="text-xs py-2">
           <AlertCircle className="h-3 w-3" />
           <AlertDescription>
             <div className="space-y-1">
               <div className="font-medium">Insufficient Balance</div>
               <div>
-                Required: ~{Web3Utils.formatEth(gasEstimate * gasPrice + (value || 0n))} ETH
+                Required: up to {Web3Utils.formatEth(maxGasCost + (value || 0n))} ETH
                 {value && (
                   <div className="text-xs opacity-80">
-                    (Gas: ~{Web3Utils.formatEth(gasEstimate * gasPrice)} ETH + Stake: {Web3Utils.formatEth(value)} ETH)
+                    (Gas: up to {Web3Utils.formatEth(maxGasCost)} ETH + Stake: {Web3Utils.formatEth(value)} ETH)
                   </div>
                 )}
               </div>
@@ -14,9 +14,14 @@ import { playSound } from "@/lib/sound-utils"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import TransactionStatus from "./transaction-status"
-import GasEstimation from "./gas-estimation"
+import PayoutPreview from "./payout-preview"
+import { useArenaStatus } from "./arena-status-provider"
+import { ArenaPausedNotice } from "./arena-paused-banner"
+import { useRatings } from "@/hooks/use-ratings"
 import { Web3Utils } from "@/lib/Web3-Utils"
-import type { Hash } from "viem"
+import { decodeArenaError, describeArenaError } from "@/lib/arena-errors"
+import { formatRating, getWinProbability } from "@/lib/ratings"
+import type { Address, Hash } from "viem"
 
 interface JoinPvPRoomProps {
   onBack: () => void
@@ -27,6 +32,7 @@ interface AvailableRoom {
   id: string
   name: string
   hostName: string
+  hostAddress: Address
   stakeAmount: string
   players: number
   maxPlayers: number
@@ -39,6 +45,8 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
     playerName, 
     setPlayerName, 
     availableRooms, 
+    knownStakes,
+    refreshAvailableRooms,
     joinRoom, 
     isConnected, 
     isConnecting,
@@ -56,7 +64,6 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
     selectContractCharacter 
   } = useGameState()
   const { 
-    getFindingMatches, 
     getMatch, 
     joinMatch,
     isConnected: contractConnected,
@@ -68,6 +75,8 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
     getFormattedBalance, 
     hasSufficientBalance 
   } = useWallet()
+  const { getRating } = useRatings()
+  const { isPaused } = useArenaStatus()
   
   const [name, setName] = useState(playerName)
   const [roomCode, setRoomCode] = useState("")
@@ -78,10 +87,11 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
   const [viewingRooms, setViewingRooms] = useState(false)
   const [refreshingRooms, setRefreshingRooms] = useState(false)
   const [availableMatches, setAvailableMatches] = useState<AvailableRoom[]>([])
+  const [stakeFilter, setStakeFilter] = useState<string>("all")
   const [joiningRoomId, setJoiningRoomId] = useState<string | null>(null)
   const [transactionHash, setTransactionHash] = useState<Hash | null>(null)
   const [walletBalance, setWalletBalance] = useState<string>("0")
-  const [gasEstimate, setGasEstimate] = useState<string | null>(null)
+  const [joinGasUnits, setJoinGasUnits] = useState<bigint | null>(null)
 
   // Update wallet balance
   useEffect(() => {
@@ -140,39 +150,13 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
     }
   }, [currentRoom, joining, onRoomJoined])
 
-  // Refresh available rooms
+  // Refresh available rooms across every stake tier
   const refreshRooms = async () => {
     if (!contractConnected) return
 
     setRefreshingRooms(true)
     try {
-      // Get contract matches that are finding opponents
-      const matches = await getFindingMatches("0.001") // Get matches with any stake amount
-      
-      const rooms: AvailableRoom[] = matches.map((match: any) => ({
-        id: `CONTRACT_${match.id}`,
-        name: `Arena Battle #${match.id}`,
-        hostName: `${match.player1.slice(0, 6)}...${match.player1.slice(-4)}`,
-        stakeAmount: Web3Utils.formatEth(match.stake),
-        players: 1,
-        maxPlayers: 2,
-        character: "Unknown", // Could be enhanced to show character info
-        createdAt: match.createdAt || Date.now()
-      }))
-
-      // Also include socket-based rooms
-      const socketRooms: AvailableRoom[] = availableRooms.map(room => ({
-        id: room.id,
-        name: room.name,
-        hostName: room.hostName || "Unknown",
-        stakeAmount: room.stakeAmount || "0",
-        players: room.players.length,
-        maxPlayers: room.maxPlayers,
-        character: room.hostCharacter?.name || "Unknown",
-        createdAt: room.createdAt
-      }))
-
-      setAvailableMatches([...rooms, ...socketRooms])
+      await refreshAvailableRooms()
     } catch (err) {
       console.error('Failed to refresh rooms:', err)
       setError('Failed to load available rooms')
@@ -181,15 +165,51 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
     }
   }
 
-  // Auto-refresh rooms when viewing
+  // The provider keeps the lobby current as contract events arrive
+  useEffect(() => {
+    setAvailableMatches(availableRooms.map(room => ({
+      id: room.id,
+      name: room.name,
+      hostName: room.hostName || "Unknown",
+      hostAddress: room.hostAddress,
+      stakeAmount: room.stakeAmount || "0",
+      players: room.players.length,
+      maxPlayers: room.maxPlayers,
+      character: room.hostCharacter?.name || "Unknown",
+      createdAt: room.createdAt
+    })))
+  }, [availableRooms])
+
+  // Load the lobby when opening the room list
   useEffect(() => {
     if (viewingRooms) {
       refreshRooms()
-      const interval = setInterval(refreshRooms, 5000) // Refresh every 5 seconds
-      return () => clearInterval(interval)
     }
   }, [viewingRooms, contractConnected])
 
+  const filteredMatches = stakeFilter === "all"
+    ? availableMatches
+    : availableMatches.filter(room => room.stakeAmount === stakeFilter)
+
+  // joinMatch costs about the same gas for every room, so one estimate prices all the payout previews
+  const sampleRoom = filteredMatches[0]
+  const arenaCharacterId = typeof arenaCharacter?.id === "number" ? arenaCharacter.id : null
+  useEffect(() => {
+    if (!viewingRooms || !contractConnected || !sampleRoom || arenaCharacterId === null || joinGasUnits !== null) return
+    let cancelled = false
+
+    const matchId = parseInt(sampleRoom.id.replace('CONTRACT_', ''))
+    estimateGas('joinMatch', [BigInt(matchId), BigInt(arenaCharacterId)], Web3Utils.parseEth(sampleRoom.stakeAmount))
+      .then(gas => {
+        if (!cancelled) setJoinGasUnits(gas)
+      })
+      .catch(err => console.log('Join gas estimation failed, previews continue without gas:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [viewingRooms, contractConnected, sampleRoom?.id, arenaCharacterId, joinGasUnits, estimateGas])
+
   // Refresh contract data when component mounts
   useEffect(() => {
     // Only run on client side to avoid hydration mismatch
@@ -247,6 +267,8 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
 
   // Handle room join by code
   const handleJoinByCode = async () => {
+    if (isPaused) return
+
     if (!name.trim()) {
       setError("Please enter your name")
       return
@@ -337,13 +359,15 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
       
     } catch (err: any) {
       console.error("Failed to join room:", err)
-      setError(err.message || "Failed to join room. Please check the room code.")
+      setError(describeArenaError(err))
       setJoining(false)
     }
   }
 
   // Handle room join by selection
   const handleJoinRoom = async (room: AvailableRoom) => {
+    if (isPaused) return
+
     if (!name.trim()) {
       setError("Please enter your name")
       return
@@ -406,9 +430,14 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
       
     } catch (err: any) {
       console.error("Failed to join room:", err)
-      setError(err.message || "Failed to join room. Please try again.")
+      const arenaError = decodeArenaError(err)
+      setError(describeArenaError(arenaError))
       setJoining(false)
       setJoiningRoomId(null)
+      // The lobby is out of date: drop filled or changed matches
+      if (arenaError.action === 'choose-another-match' || arenaError.action === 'refresh') {
+        refreshRooms()
+      }
     }
   }
 
@@ -448,16 +477,45 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
             </Alert>
           )}
 
+          <ArenaPausedNotice className="mb-6" />
+
+          {/* Stake Tier Filter */}
+          <div className="flex flex-wrap gap-2 mb-6">
+            <Button
+              variant={stakeFilter === "all" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStakeFilter("all")}
+              className="text-xs"
+            >
+              All ({availableMatches.length})
+            </Button>
+            {knownStakes.map((stake) => (
+              <Button
+                key={stake}
+                variant={stakeFilter === stake ? "default" : "outline"}
+                size="sm"
+                onClick={() => setStakeFilter(stake)}
+                className="text-xs"
+              >
+                {stake} ETH ({availableMatches.filter(room => room.stakeAmount === stake).length})
+              </Button>
+            ))}
+          </div>
+
           {/* Available Rooms */}
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {availableMatches.length === 0 ? (
+            {filteredMatches.length === 0 ? (
               <div className="col-span-full text-center py-12">
                 <Users className="w-16 h-16 text-gray-500 mx-auto mb-4" />
                 <h3 className="text-xl font-semibold text-gray-400 mb-2">No Active Arenas</h3>
-                <p className="text-gray-500">Create a new arena to start battling!</p>
+                <p className="text-gray-500">
+                  {stakeFilter === "all"
+                    ? "Create a new arena to start battling!"
+                    : `No arenas at ${stakeFilter} ETH right now. Try another stake tier or create one!`}
+                </p>
               </div>
             ) : (
-              availableMatches.map((room) => (
+              filteredMatches.map((room) => (
                 <Card key={room.id} className="bg-black/40 border-white/20 hover:border-purple-500/50 transition-colors">
                   <CardHeader className="pb-3">
                     <CardTitle className="text-lg text-white flex items-center justify-between">
@@ -487,20 +545,35 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
                           {(parseFloat(room.stakeAmount) * 2).toFixed(3)} ETH
                         </span>
                       </div>
+                      <PayoutPreview stake={Web3Utils.parseEth(room.stakeAmount)} gasUnits={joinGasUnits} variant="compact" />
                       {room.character && (
                         <div className="flex justify-between">
                           <span className="text-gray-400">Character:</span>
                           <span className="text-purple-400">{room.character}</span>
                         </div>
                       )}
+                      <div className="flex justify-between">
+                        <span className="text-gray-400">Host Rating:</span>
+                        <span className="text-white">
+                          {formatRating(getRating(room.hostAddress))}
+                          <span className="text-gray-400">
+                            {" "}({Math.round(getWinProbability(getRating(address), getRating(room.hostAddress)) * 100)}% win chance)
+                          </span>
+                        </span>
+                      </div>
                     </div>
 
                     <Button
                       onClick={() => handleJoinRoom(room)}
-                      disabled={joining || joiningRoomId === room.id || !canAffordStake(room.stakeAmount)}
+                      disabled={joining || isPaused || joiningRoomId === room.id || !canAffordStake(room.stakeAmount)}
                       className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
                     >
-                      {joiningRoomId === room.id ? (
+                      {isPaused ? (
+                        <div className="flex items-center gap-2">
+                          <AlertTriangle className="w-4 h-4" />
+                          Arena Paused
+                        </div>
+                      ) : joiningRoomId === room.id ? (
                         <div className="flex items-center gap-2">
                           <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
                           Joining...
@@ -701,10 +774,15 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
           {/* Join by Code Button */}
           <Button
             onClick={handleJoinByCode}
-            disabled={joining || !isConnected || !contractConnected || !arenaCharacter || isLoadingContract}
+            disabled={joining || isPaused || !isConnected || !contractConnected || !arenaCharacter || isLoadingContract}
             className="w-full bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white font-bold py-3"
           >
-            {joining && !joiningRoomId ? (
+            {isPaused ? (
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5" />
+                Arena Paused
+              </div>
+            ) : joining && !joiningRoomId ? (
               <div className="flex items-center gap-2">
                 <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
                 Joining Arena...
@@ -716,6 +794,7 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
               </div>
             )}
           </Button>
+          <ArenaPausedNotice />
 
           {/* Divider */}
           <div className="flex items-center gap-4">
@@ -760,13 +839,6 @@ export default function JoinPvPRoom({ onBack, onRoomJoined }: JoinPvPRoomProps)
           </div>
         </div>
       </motion.div>
-
-      {/* Gas Estimation */}
-      {gasEstimate && (
-        <div className="absolute bottom-4 right-4">
-          <GasEstimation estimate={gasEstimate} />
-        </div>
-      )}
     </div>
   )
 }
\ No newline at end of file
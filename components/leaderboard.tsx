@@ -0,0 +1,254 @@
+// components/leaderboard.tsx - Arena rankings by wins, win rate, ETH won and win streak
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, AlertTriangle, Trophy, RefreshCw, Clock, History } from "lucide-react"
+import { motion } from "framer-motion"
+import { useAccount } from "wagmi"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useLeaderboard } from "@/hooks/use-leaderboard"
+import { Web3Utils } from "@/lib/Web3-Utils"
+import {
+  rankLeaderboard,
+  getSecondsUntilWeekReset,
+  MIN_MATCHES_FOR_WIN_RATE,
+  type LeaderboardEntry,
+  type LeaderboardMode,
+  type LeaderboardWindow
+} from "@/lib/leaderboard"
+import { formatRating } from "@/lib/ratings"
+import type { Address } from "viem"
+
+interface LeaderboardProps {
+  onBack: () => void
+}
+
+interface LeaderboardListProps {
+  entries: LeaderboardEntry[]
+  mode: LeaderboardMode
+  playerAddress?: Address
+  limit?: number
+}
+
+export const LEADERBOARD_MODES: { value: LeaderboardMode; label: string }[] = [
+  { value: "wins", label: "Wins" },
+  { value: "winRate", label: "Win Rate" },
+  { value: "ethWon", label: "ETH Won" },
+  { value: "streak", label: "Win Streak" },
+  { value: "rating", label: "Rating" }
+]
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "weekly", label: "This Week" },
+  { value: "all-time", label: "All Time" }
+]
+
+const DEFAULT_LIMIT = 50
+
+const getRankStyle = (rank: number) =>
+  rank === 1
+    ? "bg-gradient-to-r from-yellow-500 to-amber-500 text-black"
+    : rank === 2
+      ? "bg-gradient-to-r from-gray-300 to-gray-400 text-black"
+      : rank === 3
+        ? "bg-gradient-to-r from-amber-700 to-amber-800 text-white"
+        : "bg-gray-700"
+
+const getModeValue = (entry: LeaderboardEntry, mode: LeaderboardMode): string => {
+  switch (mode) {
+    case "wins":
+      return `${entry.wins} wins`
+    case "winRate":
+      return `${entry.winRate.toFixed(1)}%`
+    case "ethWon":
+      return `${Web3Utils.formatEth(entry.ethWon)} ETH`
+    case "streak":
+      return `🔥 ${entry.currentStreak}`
+    case "rating":
+      return entry.rating ? `${formatRating(entry.rating)} ±${Math.round(entry.rating.deviation)}` : "—"
+  }
+}
+
+/**
+ * Ranked rows for one mode. The connected player's row is highlighted, and pinned below the list when outside it.
+ */
+export function LeaderboardList({ entries, mode, playerAddress, limit = DEFAULT_LIMIT }: LeaderboardListProps) {
+  const ranked = rankLeaderboard(entries, mode)
+  const playerRank = playerAddress
+    ? ranked.findIndex(entry => entry.address.toLowerCase() === playerAddress.toLowerCase()) + 1
+    : 0
+
+  const renderRow = (entry: LeaderboardEntry, rank: number) => {
+    const isPlayer = rank === playerRank
+
+    return (
+      <div
+        key={entry.address}
+        className={`flex justify-between items-center p-3 rounded-lg ${
+          isPlayer ? "bg-purple-900/30 border border-purple-700" : ""
+        }`}
+      >
+        <div className="flex items-center gap-4">
+          <div className={`w-12 h-12 rounded-full flex items-center justify-center font-bold text-lg ${getRankStyle(rank)}`}>
+            #{rank}
+          </div>
+          <div>
+            <a
+              href={Web3Utils.getAddressUrl(entry.address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-bold hover:underline"
+            >
+              {isPlayer ? "You" : Web3Utils.formatAddress(entry.address)}
+            </a>
+            <p className="text-sm text-gray-400">
+              {entry.wins}W / {entry.losses}L • {entry.matches} matches
+              {entry.unindexedMatches ? ` (+${entry.unindexedMatches} earlier, not ranked)` : ""}
+            </p>
+          </div>
+        </div>
+        <div className="text-right font-bold text-yellow-400">{getModeValue(entry, mode)}</div>
+      </div>
+    )
+  }
+
+  if (ranked.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trophy className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-400 mb-2">No Rankings Yet</h3>
+        <p className="text-gray-500">
+          {mode === "winRate"
+            ? `Players need at least ${MIN_MATCHES_FOR_WIN_RATE} matches to be ranked by win rate.`
+            : "Finish an arena battle to get on the board!"}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {ranked.slice(0, limit).map((entry, index) => renderRow(entry, index + 1))}
+      {playerRank > limit && (
+        <>
+          <div className="text-center text-gray-500">•••</div>
+          {renderRow(ranked[playerRank - 1], playerRank)}
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Countdown badge for the weekly leaderboard reset
+ */
+export function WeeklyResetBadge() {
+  const seconds = getSecondsUntilWeekReset()
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+
+  return (
+    <Badge variant="outline" className="bg-purple-900/50 text-purple-200 border-purple-500 px-3 py-1">
+      <Clock className="h-4 w-4 mr-2" />
+      Weekly rankings reset in {days > 0 ? `${days}d ${hours}h` : Web3Utils.formatTime(seconds)}
+    </Badge>
+  )
+}
+
+export default function Leaderboard({ onBack }: LeaderboardProps) {
+  const { address } = useAccount()
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("weekly")
+  const [mode, setMode] = useState<LeaderboardMode>("wins")
+  const { entries, isLoading, error, status, isSupported, refresh } = useLeaderboard(timeWindow)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-3xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Arena Leaderboard</h1>
+              <p className="text-gray-400">Who is on top of the arena</p>
+            </div>
+          </div>
+
+          <Button onClick={refresh} disabled={isLoading} variant="outline" size="sm">
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Error Alerts */}
+        {!isSupported && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Leaderboard Unavailable</AlertTitle>
+            <AlertDescription>This browser doesn't support IndexedDB, which arena history is stored in.</AlertDescription>
+          </Alert>
+        )}
+
+        {(error || status.error) && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error || status.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {status.state === "backfilling" && (
+          <Alert className="mb-6 border-blue-500/50 bg-blue-500/10">
+            <History className="h-4 w-4" />
+            <AlertTitle>Indexing Arena History</AlertTitle>
+            <AlertDescription>Rankings update as past battles are read from the chain.</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Window and Mode */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex gap-2">
+            {WINDOWS.map(option => (
+              <Button
+                key={option.value}
+                variant={timeWindow === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTimeWindow(option.value)}
+                className="text-xs"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          {timeWindow === "weekly" && <WeeklyResetBadge />}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {LEADERBOARD_MODES.map(option => (
+            <Button
+              key={option.value}
+              variant={mode === option.value ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMode(option.value)}
+              className="text-xs"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="bg-black/40 rounded-xl p-4 text-white">
+          <LeaderboardList entries={entries} mode={mode} playerAddress={address} />
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+// components/match-history.tsx - Every arena match the connected wallet played, with outcome and payout
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, AlertTriangle, History, Coins, ExternalLink, ChevronLeft, ChevronRight, RefreshCw, Film, Eye } from "lucide-react"
+import { motion } from "framer-motion"
+import { useAccount } from "wagmi"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Card, CardContent } from "@/components/ui/card"
+import MatchReplayViewer from "./match-replay-viewer"
+import ContractSpectatorBattle from "./contract-spectator-battle"
+import { useContract } from "@/hooks/use-contract"
+import { useMatchHistory } from "@/hooks/use-match-history"
+import { contractService } from "@/lib/contract-service"
+import { Web3Utils, MatchStatus } from "@/lib/Web3-Utils"
+import type { IndexedMatch } from "@/lib/event-indexer"
+import { playSound } from "@/lib/sound-utils"
+import type { Address } from "viem"
+
+interface MatchHistoryProps {
+  onBack: () => void
+}
+
+type HistoryFilter = "all" | "won" | "lost" | "timeout"
+type MatchOutcome = "won" | "lost" | "cancelled" | "ongoing" | "waiting"
+
+// On-chain details the event index doesn't carry, fetched for the visible page only
+interface MatchDetails {
+  status: MatchStatus
+  turnCount: number
+  myCharacter?: string
+  opponentCharacter?: string
+}
+
+const PAGE_SIZE = 10
+
+const FILTERS: { value: HistoryFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
+  { value: "timeout", label: "Timeout" }
+]
+
+const OUTCOME_STYLES: Record<MatchOutcome, { label: string; className: string }> = {
+  won: { label: "Victory", className: "text-green-400" },
+  lost: { label: "Defeat", className: "text-red-400" },
+  cancelled: { label: "Cancelled", className: "text-gray-400" },
+  ongoing: { label: "In progress", className: "text-blue-400" },
+  waiting: { label: "Waiting", className: "text-yellow-400" }
+}
+
+const sameAddress = (a?: string | null, b?: string | null) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+const getOutcome = (match: IndexedMatch, player: Address, details?: MatchDetails): MatchOutcome => {
+  if (match.winner) return sameAddress(match.winner, player) ? "won" : "lost"
+  // emergencyCancelMatch completes the match without emitting MatchCompleted
+  if (details?.status === MatchStatus.COMPLETED) return "cancelled"
+  return match.player2 ? "ongoing" : "waiting"
+}
+
+export default function MatchHistory({ onBack }: MatchHistoryProps) {
+  const { address } = useAccount()
+  const { characterTypes } = useContract()
+  const { matches, isLoading, error, status, isSupported, refresh } = useMatchHistory(address)
+
+  const [filter, setFilter] = useState<HistoryFilter>("all")
+  const [page, setPage] = useState(0)
+  const [details, setDetails] = useState<Record<number, MatchDetails>>({})
+  const [replayMatchId, setReplayMatchId] = useState<number | null>(null)
+  const [watchingMatchId, setWatchingMatchId] = useState<number | null>(null)
+
+  const filteredMatches = useMemo(() => {
+    if (!address) return []
+
+    return matches.filter(match => {
+      switch (filter) {
+        case "won":
+          return sameAddress(match.winner, address)
+        case "lost":
+          return !!match.winner && !sameAddress(match.winner, address)
+        case "timeout":
+          return match.timedOut
+        default:
+          return true
+      }
+    })
+  }, [matches, filter, address])
+
+  const pageCount = Math.max(1, Math.ceil(filteredMatches.length / PAGE_SIZE))
+  const pageMatches = filteredMatches.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+
+  // Back to the first page whenever the filter changes
+  useEffect(() => {
+    setPage(0)
+  }, [filter])
+
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1)
+  }, [page, pageCount])
+
+  // Load status, turns and characters for the rows on screen
+  useEffect(() => {
+    if (!address || characterTypes.length === 0) return
+
+    let cancelled = false
+    const getTypeName = (characterTypeId: number) =>
+      characterTypes.find(type => type.id === characterTypeId)?.name
+
+    const loadDetails = async (match: IndexedMatch): Promise<[number, MatchDetails] | null> => {
+      try {
+        const onChain = await contractService.getMatch(match.matchId, 'background')
+        const matchDetails: MatchDetails = { status: onChain.status, turnCount: onChain.turnCount }
+
+        // Characters are only revealed once someone has joined
+        if (onChain.status !== MatchStatus.FINDING) {
+          const characters = await contractService.getMatchCharacters(match.matchId, 'background')
+          const [character1, character2] = await Promise.all([
+            contractService.getCharacterInstance(characters.char1InstanceId),
+            contractService.getCharacterInstance(characters.char2InstanceId)
+          ])
+          const isPlayer1 = sameAddress(onChain.player1, address)
+          matchDetails.myCharacter = getTypeName((isPlayer1 ? character1 : character2).characterTypeId)
+          matchDetails.opponentCharacter = getTypeName((isPlayer1 ? character2 : character1).characterTypeId)
+        }
+
+        return [match.matchId, matchDetails]
+      } catch (err) {
+        console.error(`Error loading details for match #${match.matchId}:`, err)
+        return null
+      }
+    }
+
+    // Completed matches never change, so only re-read rows that could still move
+    const toLoad = pageMatches.filter(match => details[match.matchId]?.status !== MatchStatus.COMPLETED)
+    if (toLoad.length === 0) return
+
+    Promise.all(toLoad.map(loadDetails)).then(results => {
+      if (cancelled) return
+      const loaded = results.filter((result): result is [number, MatchDetails] => result !== null)
+      if (loaded.length > 0) {
+        setDetails(prev => ({ ...prev, ...Object.fromEntries(loaded) }))
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [pageMatches.map(match => `${match.matchId}:${match.moveCount}:${match.winner}`).join(","), address, characterTypes])
+
+  const openMatch = (match: IndexedMatch, outcome: MatchOutcome) => {
+    playSound("button-click.mp3")
+    if (outcome === "won" || outcome === "lost") {
+      setReplayMatchId(match.matchId)
+    } else if (outcome === "ongoing") {
+      setWatchingMatchId(match.matchId)
+    }
+  }
+
+  if (replayMatchId !== null) {
+    return <MatchReplayViewer matchId={replayMatchId} onExit={() => setReplayMatchId(null)} />
+  }
+
+  if (watchingMatchId !== null) {
+    return <ContractSpectatorBattle matchId={watchingMatchId} onExit={() => setWatchingMatchId(null)} />
+  }
+
+  const wins = matches.filter(match => sameAddress(match.winner, address)).length
+  const losses = matches.filter(match => !!match.winner && !sameAddress(match.winner, address)).length
+  const totalWon = matches
+    .filter(match => sameAddress(match.winner, address))
+    .reduce((sum, match) => sum + (match.reward ?? 0n), 0n)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-4xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Match History</h1>
+              <p className="text-gray-400">Every arena battle you created or joined</p>
+            </div>
+          </div>
+
+          <Button onClick={refresh} disabled={isLoading} variant="outline" size="sm">
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Error Alerts */}
+        {!isSupported && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>History Unavailable</AlertTitle>
+            <AlertDescription>This browser doesn't support IndexedDB, which match history is stored in.</AlertDescription>
+          </Alert>
+        )}
+
+        {(error || status.error) && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error || status.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!address && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Wallet Required</AlertTitle>
+            <AlertDescription>Connect your wallet to see your match history.</AlertDescription>
+          </Alert>
+        )}
+
+        {status.state === "backfilling" && (
+          <Alert className="mb-6 border-blue-500/50 bg-blue-500/10">
+            <History className="h-4 w-4" />
+            <AlertTitle>Indexing Arena History</AlertTitle>
+            <AlertDescription>
+              Reading past battles from the chain
+              {status.lastIndexedBlock !== null && status.latestBlock !== null &&
+                ` (block ${status.lastIndexedBlock.toString()} of ${status.latestBlock.toString()})`}
+              . Matches appear as they are found.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-white">{matches.length}</div>
+            <div className="text-xs text-gray-400">Matches</div>
+          </div>
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold">
+              <span className="text-green-400">{wins}</span>
+              <span className="text-gray-500"> / </span>
+              <span className="text-red-400">{losses}</span>
+            </div>
+            <div className="text-xs text-gray-400">Wins / Losses</div>
+          </div>
+          <div className="bg-black/40 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-yellow-400">{Web3Utils.formatEth(totalWon)}</div>
+            <div className="text-xs text-gray-400">ETH Won</div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {FILTERS.map(option => (
+            <Button
+              key={option.value}
+              variant={filter === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setFilter(option.value)}
+              className="text-xs"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {/* Match List */}
+        <div className="space-y-3">
+          {pageMatches.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-400 mb-2">No Matches</h3>
+              <p className="text-gray-500">
+                {filter === "all" ? "Your arena battles will show up here." : "No matches match this filter."}
+              </p>
+            </div>
+          ) : (
+            pageMatches.map(match => {
+              const matchDetails = details[match.matchId]
+              const outcome = getOutcome(match, address!, matchDetails)
+              const opponent = sameAddress(match.player1, address) ? match.player2 : match.player1
+
+              return (
+                <Card key={match.matchId} className="bg-black/40 border-white/20 hover:border-purple-500/50 transition-colors">
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1 text-sm min-w-0">
+                        <div className="flex items-center gap-3">
+                          <span className="text-white font-bold">Arena #{match.matchId}</span>
+                          <span className={`font-semibold ${OUTCOME_STYLES[outcome].className}`}>
+                            {OUTCOME_STYLES[outcome].label}
+                            {match.timedOut && " (timeout)"}
+                          </span>
+                        </div>
+                        <div className="text-gray-400">
+                          vs{" "}
+                          {opponent ? (
+                            <a
+                              href={Web3Utils.getAddressUrl(opponent)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-purple-300 hover:underline"
+                            >
+                              {Web3Utils.formatAddress(opponent)}
+                            </a>
+                          ) : (
+                            <span>no opponent yet</span>
+                          )}
+                          {matchDetails?.myCharacter && (
+                            <span>
+                              {" "}• {matchDetails.myCharacter}
+                              {matchDetails.opponentCharacter && ` vs ${matchDetails.opponentCharacter}`}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-400">
+                          <span className="flex items-center gap-1">
+                            <Coins className="w-3 h-3 text-yellow-400" />
+                            {Web3Utils.formatEth(match.stake)} ETH stake
+                          </span>
+                          <span>{matchDetails ? matchDetails.turnCount : match.moveCount} turns</span>
+                          {match.winner && (
+                            <span>Winner: {sameAddress(match.winner, address) ? "You" : Web3Utils.formatAddress(match.winner)}</span>
+                          )}
+                          {match.reward !== null && (
+                            <span className="text-green-400">Reward: {Web3Utils.formatEth(match.reward)} ETH</span>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-3 text-xs">
+                          {[
+                            { label: "Created", hash: match.initiatedTx },
+                            { label: "Joined", hash: match.joinedTx },
+                            { label: "Completed", hash: match.completedTx }
+                          ].map(({ label, hash }) => hash && (
+                            <a
+                              key={label}
+                              href={Web3Utils.getTransactionUrl(hash)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+                            >
+                              {label}
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+
+                      {(outcome === "won" || outcome === "lost" || outcome === "ongoing") && (
+                        <Button variant="secondary" size="sm" onClick={() => openMatch(match, outcome)}>
+                          {outcome === "ongoing" ? <Eye className="w-4 h-4 mr-1" /> : <Film className="w-4 h-4 mr-1" />}
+                          {outcome === "ongoing" ? "Watch" : "Replay"}
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })
+          )}
+        </div>
+
+        {/* Pagination */}
+        {filteredMatches.length > PAGE_SIZE && (
+          <div className="flex items-center justify-center gap-4 mt-6">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-gray-400">Page {page + 1} of {pageCount}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  )
+}
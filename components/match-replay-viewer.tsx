@@ -0,0 +1,264 @@
+// components/match-replay-viewer.tsx - Turn-by-turn replay of a finished arena match
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Home, Trophy, Coins, Play, Pause, SkipBack, SkipForward, ChevronLeft, ChevronRight, Film } from "lucide-react"
+import { getAbilityType } from "./game-state-provider"
+import { useContract } from "@/hooks/use-contract"
+import { useMatchReplay } from "@/hooks/use-match-replay"
+import BattleEffects from "./battle-effects"
+import ArenaFighterCard from "./arena-fighter-card"
+import { Web3Utils } from "@/lib/Web3-Utils"
+import { getMaxHealth, getMaxMana, getFighterIndex } from "@/lib/battle-engine"
+import type { MatchEndReason } from "@/lib/match-replay"
+
+interface MatchReplayViewerProps {
+  matchId: number
+  onExit: () => void
+}
+
+const STEP_INTERVAL = 1500 // ms per move at 1x
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]
+
+const END_REASON_LABELS: Record<MatchEndReason, string> = {
+  knockout: "Knockout",
+  exhaustion: "Both fighters out of mana",
+  timeout: "Opponent timed out",
+  cancelled: "Cancelled by the arena, stakes refunded"
+}
+
+export default function MatchReplayViewer({ matchId, onExit }: MatchReplayViewerProps) {
+  const { characterTypes } = useContract()
+  const { replay, isLoading, error } = useMatchReplay(matchId, characterTypes)
+
+  // 0 shows the opening state, n shows the state after move n
+  const [position, setPosition] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [leftAnimation, setLeftAnimation] = useState<string | null>(null)
+  const [rightAnimation, setRightAnimation] = useState<string | null>(null)
+
+  const battleLogRef = useRef<HTMLDivElement>(null)
+
+  const totalSteps = replay?.steps.length ?? 0
+  const atEnd = position >= totalSteps
+
+  // Start from the beginning whenever a new replay loads
+  useEffect(() => {
+    setPosition(0)
+    setIsPlaying(false)
+  }, [replay])
+
+  // Advance one move per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return
+    if (atEnd) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setPosition(prev => prev + 1), STEP_INTERVAL / speed)
+    return () => clearTimeout(timer)
+  }, [isPlaying, atEnd, position, speed])
+
+  // Animate the move that produced the current position
+  useEffect(() => {
+    if (!replay || position === 0) return
+
+    const step = replay.steps[position - 1]
+    const animation = getAbilityType(step.abilityName)
+    if (getFighterIndex(replay.initialState, step.move.player) === 0) {
+      setLeftAnimation(animation)
+    } else {
+      setRightAnimation(animation)
+    }
+
+    const timer = setTimeout(() => {
+      setLeftAnimation(null)
+      setRightAnimation(null)
+    }, Math.min(1000, STEP_INTERVAL / speed))
+
+    return () => clearTimeout(timer)
+  }, [replay, position, speed])
+
+  // Scroll battle log to bottom
+  useEffect(() => {
+    if (battleLogRef.current) {
+      battleLogRef.current.scrollTop = battleLogRef.current.scrollHeight
+    }
+  }, [position])
+
+  if (!replay) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-xl text-muted-foreground mb-4">
+            {error ? `Could not load replay: ${error}` : isLoading ? "Loading match history from chain..." : "Loading replay..."}
+          </div>
+          <Button onClick={onExit}>Exit</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const state = position === 0 ? replay.initialState : replay.steps[position - 1].state
+  const [leftFighter, rightFighter] = state.fighters
+  const getCharacterName = (characterTypeId: number) =>
+    characterTypes.find(type => type.id === characterTypeId)?.name || ""
+  const getFighterName = (player: string) => {
+    const index = getFighterIndex(replay.initialState, player as any)
+    return `P${index + 1} ${Web3Utils.formatAddress(player as any)}`
+  }
+
+  const totalStake = Web3Utils.formatEth(replay.match.stake * 2n)
+  const winner = replay.completion?.winner ?? replay.match.winner
+
+  const togglePlay = () => {
+    if (atEnd) setPosition(0)
+    setIsPlaying(!isPlaying)
+  }
+
+  const seek = (nextPosition: number) => {
+    setIsPlaying(false)
+    setPosition(Math.max(0, Math.min(totalSteps, nextPosition)))
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-purple-900 to-slate-900 text-white relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 bg-[url('/images/battle-background.jpg')] bg-cover bg-center opacity-20" />
+      <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-black/30" />
+
+      <div className="relative z-10 h-screen flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 bg-black/30">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onExit}>
+              <Home className="w-4 h-4" />
+            </Button>
+            <div className="text-lg font-bold">Arena Battle #{matchId}</div>
+            <div className="flex items-center gap-1 text-sm text-purple-300">
+              <Film className="w-4 h-4" />
+              <span>Replay</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 text-yellow-400">
+              <Coins className="w-4 h-4" />
+              <span className="font-bold">{totalStake} ETH Pool</span>
+            </div>
+            <div className="text-sm text-muted-foreground">Move {position} / {totalSteps}</div>
+          </div>
+        </div>
+
+        {/* Battle Area */}
+        <div className="flex-1 flex relative">
+          <BattleEffects playerAnimation={leftAnimation} enemyAnimation={rightAnimation} />
+
+          <ArenaFighterCard
+            name={getFighterName(leftFighter.player)}
+            characterName={getCharacterName(leftFighter.instance.characterTypeId)}
+            level={leftFighter.instance.level}
+            health={leftFighter.currentHealth}
+            maxHealth={getMaxHealth(leftFighter.characterType, leftFighter.instance.level)}
+            mana={leftFighter.currentMana}
+            maxMana={getMaxMana(leftFighter.characterType, leftFighter.instance.level)}
+            animation={leftAnimation}
+            side="left"
+          />
+
+          {/* VS Indicator */}
+          <div className="flex items-center justify-center px-4">
+            <div className="text-6xl font-bold text-purple-400 opacity-50">VS</div>
+          </div>
+
+          <ArenaFighterCard
+            name={getFighterName(rightFighter.player)}
+            characterName={getCharacterName(rightFighter.instance.characterTypeId)}
+            level={rightFighter.instance.level}
+            health={rightFighter.currentHealth}
+            maxHealth={getMaxHealth(rightFighter.characterType, rightFighter.instance.level)}
+            mana={rightFighter.currentMana}
+            maxMana={getMaxMana(rightFighter.characterType, rightFighter.instance.level)}
+            animation={rightAnimation}
+            side="right"
+          />
+        </div>
+
+        {/* Bottom UI */}
+        <div className="bg-black/40 p-4 space-y-4">
+          {/* Move Log */}
+          <div className="bg-black/50 rounded-lg p-4 h-32 overflow-y-auto" ref={battleLogRef}>
+            <div className="space-y-1 text-sm">
+              <div className="text-gray-300">⚔️ {getFighterName(leftFighter.player)} vs {getFighterName(rightFighter.player)}</div>
+              {replay.steps.slice(0, position).map(step => (
+                <div key={step.index} className={step.diverged ? "text-yellow-300" : "text-gray-300"}>
+                  {step.index}. {getFighterName(step.move.player)} used {step.abilityName}
+                  {step.isHealing ? ` and recovered ${step.healed} health` : ` for ${step.damage} damage`}
+                  {step.diverged && " (recorded damage)"}
+                </div>
+              ))}
+              {atEnd && (
+                <div className="text-yellow-400 font-semibold">
+                  🏆 {END_REASON_LABELS[replay.endReason]}
+                  {replay.endReason !== "cancelled" && ` — ${getFighterName(winner)} wins`}
+                  {replay.completion && ` ${Web3Utils.formatEth(replay.completion.reward)} ETH`}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Playback Controls */}
+          <div className="space-y-3">
+            <Progress value={totalSteps > 0 ? (position / totalSteps) * 100 : 100} className="h-2" />
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Button variant="secondary" size="sm" onClick={() => seek(0)} disabled={position === 0}>
+                  <SkipBack className="w-4 h-4" />
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => seek(position - 1)} disabled={position === 0}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button size="sm" onClick={togglePlay} disabled={totalSteps === 0} className="w-24">
+                  {isPlaying ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                  {isPlaying ? "Pause" : atEnd ? "Replay" : "Play"}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => seek(position + 1)} disabled={atEnd}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => seek(totalSteps)} disabled={atEnd}>
+                  <SkipForward className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-1">
+                {PLAYBACK_SPEEDS.map(option => (
+                  <Button
+                    key={option}
+                    variant={speed === option ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSpeed(option)}
+                    className="text-xs"
+                  >
+                    {option}x
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {atEnd && replay.endReason !== "cancelled" && (
+            <div className="flex items-center justify-center gap-2 text-yellow-400">
+              <Trophy className="w-4 h-4" />
+              <span className="font-semibold">{getFighterName(winner)} won the {totalStake} ETH pool</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,7 @@ import { playSound } from "@/lib/sound-utils"
 import { useContract } from "@/hooks/use-contract"
 import { useAccount } from "wagmi"
 import { Web3Utils } from "@/lib/Web3-Utils"
+import { decodeArenaError } from "@/lib/arena-errors"
 import type { Hash } from "viem"
 
 type MultiplayerContextType = {
@@ -583,7 +584,7 @@ export function MultiplayerProvider({ children }: { children: ReactNode }) {
     
   } catch (error: any) {
     console.error('Error initiating contract match:', error)
-    throw new Error(Web3Utils.parseContractError(error))
+    throw decodeArenaError(error)
   }
 }, [contractConnected, address, initiateMatch])
   
@@ -610,7 +611,7 @@ export function MultiplayerProvider({ children }: { children: ReactNode }) {
       
     } catch (error: any) {
       console.error('Error joining contract match:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }, [contractConnected, address, joinMatch, playerId])
   
@@ -636,7 +637,7 @@ export function MultiplayerProvider({ children }: { children: ReactNode }) {
       
     } catch (error: any) {
       console.error('Error making contract move:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }, [contractConnected, address, makeMove, playerId])
   
@@ -2,20 +2,28 @@
 
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Users, Plus, LogIn, Zap } from "lucide-react"
+import { ArrowLeft, Users, Plus, LogIn, Zap, Eye, History, Trophy, Wallet, Shield } from "lucide-react"
 import { motion } from "framer-motion"
 import { useMultiplayer } from "./multiplayer-context-provider"
+import { useContractOwner } from "@/hooks/use-arena-admin"
 import { playSound } from "@/lib/sound-utils"
 
 interface MultiplayerMenuProps {
   onCreateRoom: () => void
   onCreateContractRoom: () => void
   onJoinRoom: () => void
+  onQuickMatch: () => void
+  onSpectate: () => void
+  onMatchHistory: () => void
+  onLeaderboard: () => void
+  onStakingPnl: () => void
+  onAdminConsole: () => void
   onBack: () => void
 }
 
-export default function MultiplayerMenu({ onCreateRoom, onCreateContractRoom, onJoinRoom, onBack }: MultiplayerMenuProps) {
-  
+export default function MultiplayerMenu({ onCreateRoom, onCreateContractRoom, onJoinRoom, onQuickMatch, onSpectate, onMatchHistory, onLeaderboard, onStakingPnl, onAdminConsole, onBack }: MultiplayerMenuProps) {
+  const { isOwner } = useContractOwner()
+
   const handleCreateRoom = () => {
     playSound("button-click.mp3")
     onCreateRoom()
@@ -31,6 +39,36 @@ export default function MultiplayerMenu({ onCreateRoom, onCreateContractRoom, on
     onJoinRoom()
   }
 
+  const handleQuickMatch = () => {
+    playSound("button-click.mp3")
+    onQuickMatch()
+  }
+
+  const handleSpectate = () => {
+    playSound("button-click.mp3")
+    onSpectate()
+  }
+
+  const handleMatchHistory = () => {
+    playSound("button-click.mp3")
+    onMatchHistory()
+  }
+
+  const handleLeaderboard = () => {
+    playSound("button-click.mp3")
+    onLeaderboard()
+  }
+
+  const handleStakingPnl = () => {
+    playSound("button-click.mp3")
+    onStakingPnl()
+  }
+
+  const handleAdminConsole = () => {
+    playSound("button-click.mp3")
+    onAdminConsole()
+  }
+
   const handleBack = () => {
     playSound("button-click.mp3")
     onBack()
@@ -72,6 +110,15 @@ export default function MultiplayerMenu({ onCreateRoom, onCreateContractRoom, on
             <p className="text-gray-300">Arena PvP battles with smart contract wagering - winner takes all!</p>
           </div>
 
+          <Button
+            onClick={handleQuickMatch}
+            className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white font-bold py-3 text-sm mb-2"
+          >
+            <Zap className="mr-2 h-4 w-4" />
+            ⚡ Quick Match
+          </Button>
+          <p className="text-xs text-gray-400 text-center mb-4">Pick a stake tier • Join or host instantly</p>
+
           <Button
             onClick={handleCreateRoom}
             className="w-full bg-gradient-to-r from-yellow-600 to-amber-600 hover:from-yellow-700 hover:to-amber-700 text-black font-bold py-3 text-sm mb-2"
@@ -90,6 +137,46 @@ export default function MultiplayerMenu({ onCreateRoom, onCreateContractRoom, on
           </Button>
           <p className="text-xs text-gray-400 text-center mb-4">Match stakes • Battle for ETH • Arena style</p>
 
+          <Button
+            onClick={handleSpectate}
+            variant="outline"
+            className="w-full border-purple-500/50 text-purple-300 hover:bg-purple-900/40 py-3 text-sm mb-2"
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            👁️ Spectate Match
+          </Button>
+          <p className="text-xs text-gray-400 text-center mb-4">Watch live battles • No wallet needed</p>
+
+          <Button
+            onClick={handleMatchHistory}
+            variant="outline"
+            className="w-full border-blue-500/50 text-blue-300 hover:bg-blue-900/40 py-3 text-sm mb-2"
+          >
+            <History className="mr-2 h-4 w-4" />
+            📜 Match History
+          </Button>
+          <p className="text-xs text-gray-400 text-center mb-4">Your results, payouts and replays</p>
+
+          <Button
+            onClick={handleLeaderboard}
+            variant="outline"
+            className="w-full border-yellow-500/50 text-yellow-300 hover:bg-yellow-900/40 py-3 text-sm mb-2"
+          >
+            <Trophy className="mr-2 h-4 w-4" />
+            🏆 Leaderboard
+          </Button>
+          <p className="text-xs text-gray-400 text-center mb-4">Top players this week and all time</p>
+
+          <Button
+            onClick={handleStakingPnl}
+            variant="outline"
+            className="w-full border-green-500/50 text-green-300 hover:bg-green-900/40 py-3 text-sm mb-2"
+          >
+            <Wallet className="mr-2 h-4 w-4" />
+            💰 Staking P&amp;L
+          </Button>
+          <p className="text-xs text-gray-400 text-center mb-4">Stakes, rewards, fees and gas • CSV export</p>
+
           <div className="border-t border-gray-600 pt-4 mt-4">
             <p className="text-xs text-gray-500 text-center mb-2">Legacy Options:</p>
             <Button
@@ -101,6 +188,19 @@ export default function MultiplayerMenu({ onCreateRoom, onCreateContractRoom, on
               Old Contract Room
             </Button>
           </div>
+
+          {isOwner && (
+            <div className="border-t border-gray-600 pt-4 mt-4">
+              <Button
+                onClick={handleAdminConsole}
+                variant="outline"
+                className="w-full border-red-500/50 text-red-300 hover:bg-red-900/40 py-2 text-xs"
+              >
+                <Shield className="mr-2 h-3 w-3" />
+                Admin Console
+              </Button>
+            </div>
+          )}
         </div>
       </motion.div>
 
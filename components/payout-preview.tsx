@@ -0,0 +1,109 @@
+// components/payout-preview.tsx - Pot, platform fee, winner reward, XP and gas for a staked match
+"use client"
+
+import { Coins, Fuel, Star, TrendingUp } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { usePayoutPreview } from "@/hooks/use-payout-preview"
+import { Web3Utils } from "@/lib/Web3-Utils"
+import { formatFeePercent } from "@/lib/payout"
+
+interface PayoutPreviewProps {
+  stake: bigint | null
+  // Gas units for the staking transaction; the cost is priced at the current gas price
+  gasUnits?: bigint | null
+  variant?: "card" | "compact"
+  className?: string
+}
+
+export default function PayoutPreview({ stake, gasUnits, variant = "card", className = "" }: PayoutPreviewProps) {
+  const { preview, isLoading, error } = usePayoutPreview(stake, gasUnits)
+
+  if (variant === "compact") {
+    if (!preview) return null
+
+    return (
+      <div
+        className={`flex items-center gap-2 text-xs text-gray-300 ${className}`}
+        title={`Pot ${Web3Utils.formatEth(preview.grossPot)} ETH − ${formatFeePercent(preview.feeBasisPoints)} platform fee (${Web3Utils.formatEth(preview.platformFee)} ETH)`}
+      >
+        <Coins className="w-3 h-3 text-yellow-400" />
+        <span>
+          Win <span className="font-bold text-green-400">{Web3Utils.formatEth(preview.winnerReward)} ETH</span>
+          {" "}• {formatFeePercent(preview.feeBasisPoints)} fee • +{preview.experienceIfWon} XP
+          {preview.gasCost !== null && ` • ~${Web3Utils.formatEth(preview.gasCost)} ETH gas`}
+        </span>
+      </div>
+    )
+  }
+
+  const rows = preview
+    ? [
+        { label: "Your stake", value: `${Web3Utils.formatEth(preview.stake)} ETH` },
+        { label: "Gross pot (both stakes)", value: `${Web3Utils.formatEth(preview.grossPot)} ETH` },
+        {
+          label: `Platform fee (${formatFeePercent(preview.feeBasisPoints)})`,
+          value: `−${Web3Utils.formatEth(preview.platformFee)} ETH`,
+          className: "text-orange-400"
+        },
+        {
+          label: "Estimated gas",
+          value: preview.gasCost !== null ? `~${Web3Utils.formatEth(preview.gasCost)} ETH` : "—",
+          icon: Fuel
+        }
+      ]
+    : []
+
+  return (
+    <Card className={`bg-black/40 border-white/20 ${className}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-white flex items-center gap-2 text-base">
+          <Coins className="w-4 h-4 text-yellow-400" />
+          Payout Preview
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {isLoading && <p className="text-xs text-gray-400">Reading the current platform fee...</p>}
+
+        {preview && (
+          <>
+            {rows.map(row => (
+              <div key={row.label} className="flex justify-between text-gray-300">
+                <span className="flex items-center gap-1">
+                  {row.icon && <row.icon className="w-3 h-3" />}
+                  {row.label}
+                </span>
+                <span className={`font-mono ${row.className ?? "text-white"}`}>{row.value}</span>
+              </div>
+            ))}
+
+            <div className="border-t border-white/10 pt-2 space-y-1">
+              <div className="flex justify-between font-bold">
+                <span className="text-green-400 flex items-center gap-1">
+                  <TrendingUp className="w-4 h-4" />
+                  If you win
+                </span>
+                <span className="text-green-400 font-mono">
+                  {Web3Utils.formatEth(preview.winnerReward)} ETH (+{Web3Utils.formatEth(preview.profitIfWon)})
+                </span>
+              </div>
+              <div className="flex justify-between text-yellow-300">
+                <span className="flex items-center gap-1">
+                  <Star className="w-4 h-4" />
+                  Character XP on a win
+                </span>
+                <span>+{preview.experienceIfWon} XP</span>
+              </div>
+              <div className="flex justify-between text-red-400">
+                <span>If you lose</span>
+                <span className="font-mono">
+                  −{Web3Utils.formatEth(preview.maxLoss)} ETH{preview.gasCost === null && " + gas"}
+                </span>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
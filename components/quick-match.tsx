@@ -0,0 +1,297 @@
+// components/quick-match.tsx - One-click matchmaking at a chosen stake tier
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, AlertTriangle, Coins, Zap } from "lucide-react"
+import { motion } from "framer-motion"
+import { useContractMultiplayer } from "./contract-multiplayer-provider"
+import { useArenaStatus } from "./arena-status-provider"
+import { ArenaPausedNotice } from "./arena-paused-banner"
+import { useGameState, getCharacterAvatar } from "./game-state-provider"
+import { useContract } from "@/hooks/use-contract"
+import { useWallet } from "@/hooks/use-wallet"
+import { useRatings } from "@/hooks/use-ratings"
+import { playSound } from "@/lib/sound-utils"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { STAKE_TIERS, DEFAULT_STAKE } from "@/lib/contract-config"
+import { formatRating } from "@/lib/ratings"
+
+const CLOSE_RATING_GAP = 200 // max rating difference to a host when "close rating" is on
+
+interface QuickMatchProps {
+  onBack: () => void
+  onRoomCreated: (roomId: string) => void
+  onRoomJoined: (roomId: string) => void
+}
+
+export default function QuickMatch({ onBack, onRoomCreated, onRoomJoined }: QuickMatchProps) {
+  const { isConnected, isConnecting, connect, quickMatch } = useContractMultiplayer()
+  const { ownedCharacters, isLoadingContract, refreshContractData, selectContractCharacter } = useGameState()
+  const { isConnected: contractConnected } = useContract()
+  const { address, isWalletReady, getFormattedBalance } = useWallet()
+  const { getRating } = useRatings()
+  const { isPaused } = useArenaStatus()
+
+  const [stakeAmount, setStakeAmount] = useState(DEFAULT_STAKE)
+  const [selectedCharacterIndex, setSelectedCharacterIndex] = useState(0)
+  const [searching, setSearching] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [walletBalance, setWalletBalance] = useState<string>("0")
+  const [closeRatingOnly, setCloseRatingOnly] = useState(false)
+
+  const arenaCharacter = ownedCharacters[selectedCharacterIndex] ?? null
+  const playerRating = getRating(address)
+
+  // Update wallet balance
+  useEffect(() => {
+    if (address && isWalletReady) {
+      try {
+        setWalletBalance(getFormattedBalance())
+      } catch (err) {
+        setWalletBalance("0")
+      }
+    }
+  }, [address, isWalletReady, getFormattedBalance])
+
+  // Refresh contract data when component mounts
+  useEffect(() => {
+    if (address) {
+      refreshContractData()
+    }
+  }, [address, refreshContractData])
+
+  // Make sure connection is established on mount
+  useEffect(() => {
+    if (!isConnected && !isConnecting && address) {
+      connect().catch(err => console.error("Failed to connect:", err))
+    }
+  }, [isConnected, isConnecting, address, connect])
+
+  // Check if user has sufficient balance for stake
+  const canAffordStake = useCallback((stake: string) => {
+    const gasBuffer = 0.002 // Reserve for gas fees
+    return parseFloat(walletBalance) >= parseFloat(stake) + gasBuffer
+  }, [walletBalance])
+
+  const handleCycleCharacter = (step: number) => {
+    if (ownedCharacters.length === 0) return
+    playSound("button-click.mp3")
+    setSelectedCharacterIndex((selectedCharacterIndex + step + ownedCharacters.length) % ownedCharacters.length)
+  }
+
+  const handleQuickMatch = async () => {
+    if (isPaused) return
+
+    if (!arenaCharacter) {
+      setError("Please select a character for the arena")
+      return
+    }
+
+    if (!canAffordStake(stakeAmount)) {
+      setError(`Insufficient balance. You need at least ${parseFloat(stakeAmount) + 0.002} ETH (including gas fees)`)
+      return
+    }
+
+    if (!contractConnected) {
+      setError("Smart contract not connected. Please check your wallet connection.")
+      return
+    }
+
+    setSearching(true)
+    setError(null)
+
+    try {
+      if (!isConnected) {
+        await connect()
+      }
+
+      await selectContractCharacter(arenaCharacter)
+      const result = await quickMatch(arenaCharacter.id, stakeAmount, setStatus, closeRatingOnly
+        ? {
+            closeRating: {
+              playerRating: playerRating.rating,
+              maxGap: CLOSE_RATING_GAP,
+              getRating: (host) => getRating(host).rating
+            }
+          }
+        : {})
+
+      if (result.joined) {
+        playSound("room-joined.mp3")
+        onRoomJoined(result.roomId)
+      } else {
+        onRoomCreated(result.roomId)
+      }
+    } catch (err: any) {
+      console.error("Quick match failed:", err)
+      setError(err.message || "Quick match failed. Please try again.")
+    } finally {
+      setSearching(false)
+      setStatus(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-black/40 backdrop-blur-lg rounded-xl p-8 max-w-lg w-full"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="sm" onClick={onBack} disabled={searching}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Quick Match</h1>
+            <p className="text-gray-400">Join the next open arena at your stake, or host one</p>
+          </div>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-6">
+          {/* Character Selection */}
+          {isLoadingContract ? (
+            <p className="text-sm text-gray-400 text-center">Loading your characters...</p>
+          ) : ownedCharacters.length === 0 ? (
+            <p className="text-sm text-yellow-400 text-center">
+              No owned characters found. Acquire a character first from the character select screen.
+            </p>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-3">
+                Select Your Champion
+              </label>
+              <Card className="bg-white/10 border-white/20">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCycleCharacter(-1)}
+                      disabled={ownedCharacters.length <= 1 || searching}
+                      className="border-white/20 text-white hover:bg-white/10"
+                    >
+                      ‹
+                    </Button>
+
+                    {arenaCharacter && (
+                      <div className="flex-1 mx-4 text-center space-y-2">
+                        <img
+                          src={getCharacterAvatar(arenaCharacter.characterTypeName)}
+                          alt={arenaCharacter.characterTypeName}
+                          className="w-16 h-16 mx-auto object-cover rounded-full border-2 border-purple-400"
+                        />
+                        <h3 className="text-lg font-bold text-white">{arenaCharacter.characterTypeName}</h3>
+                        <p className="text-sm text-gray-300">Level {arenaCharacter.level}</p>
+                      </div>
+                    )}
+
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCycleCharacter(1)}
+                      disabled={ownedCharacters.length <= 1 || searching}
+                      className="border-white/20 text-white hover:bg-white/10"
+                    >
+                      ›
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {/* Stake Tier */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-3">
+              Stake Tier (ETH)
+            </label>
+            <div className="grid grid-cols-5 gap-2">
+              {STAKE_TIERS.map((tier) => (
+                <Button
+                  key={tier}
+                  variant={stakeAmount === tier ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setStakeAmount(tier)}
+                  disabled={searching}
+                  className="text-xs"
+                >
+                  {tier}
+                </Button>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-400 mt-2">
+              <span className="flex items-center gap-1">
+                <Coins className="w-3 h-3" />
+                Balance: {parseFloat(walletBalance).toFixed(4)} ETH
+              </span>
+              <span>Pool: {(parseFloat(stakeAmount) * 2).toFixed(3)} ETH</span>
+            </div>
+          </div>
+
+          {/* Matchmaking */}
+          <div className="flex items-center justify-between bg-white/5 rounded-lg p-3">
+            <div>
+              <p className="text-sm font-medium text-gray-300">Close rating only</p>
+              <p className="text-xs text-gray-400">
+                Your rating: {formatRating(playerRating)} • hosts within ±{CLOSE_RATING_GAP}
+              </p>
+            </div>
+            <Button
+              variant={closeRatingOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCloseRatingOnly(!closeRatingOnly)}
+              disabled={searching}
+              className="text-xs"
+            >
+              {closeRatingOnly ? "On" : "Off"}
+            </Button>
+          </div>
+
+          <Button
+            onClick={handleQuickMatch}
+            disabled={searching || isPaused || !arenaCharacter || !canAffordStake(stakeAmount)}
+            className="w-full bg-gradient-to-r from-yellow-600 to-amber-600 hover:from-yellow-700 hover:to-amber-700 text-black font-bold py-3"
+          >
+            {isPaused ? (
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Arena Paused
+              </div>
+            ) : searching ? (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 border-2 border-black/30 border-t-black rounded-full animate-spin" />
+                Matching...
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Zap className="w-4 h-4" />
+                Find Match
+              </div>
+            )}
+          </Button>
+          <ArenaPausedNotice />
+
+          {status && (
+            <p className="text-sm text-gray-300 text-center">{status}</p>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
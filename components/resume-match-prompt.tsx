@@ -0,0 +1,97 @@
+// components/resume-match-prompt.tsx - Offer to get back into unfinished contract matches
+"use client"
+
+import { useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Coins, History, X } from "lucide-react"
+import { motion } from "framer-motion"
+import { useContractMultiplayer } from "./contract-multiplayer-provider"
+import { usePendingTransactions } from "@/hooks/use-pending-transactions"
+import { playSound } from "@/lib/sound-utils"
+import TransactionStatus from "./transaction-status"
+
+interface ResumeMatchPromptProps {
+  onResume: (roomId: string, status: 'waiting' | 'playing' | 'completed') => void
+}
+
+export default function ResumeMatchPrompt({ onResume }: ResumeMatchPromptProps) {
+  const { resumableRooms, readyRoomId, resumeRoom, dismissResumableRooms, playerAddress } = useContractMultiplayer()
+  const { pending } = usePendingTransactions()
+
+  // Joins and match creations sent before a reload that are still confirming
+  const pendingRoomTransactions = pending.filter(transaction =>
+    transaction.resumed && (transaction.intent === "join" || transaction.intent === "initiate")
+  )
+
+  const handleResume = (roomId: string) => {
+    const room = resumeRoom(roomId)
+    if (!room) return
+    playSound("button-click.mp3")
+    onResume(room.id, room.status)
+  }
+
+  // Open the room as soon as its pending join or creation confirms
+  useEffect(() => {
+    if (readyRoomId && resumableRooms.some(room => room.id === readyRoomId)) {
+      handleResume(readyRoomId)
+    }
+  }, [readyRoomId, resumableRooms])
+
+  if (resumableRooms.length === 0 && pendingRoomTransactions.length === 0) return null
+
+  const getTurnLabel = (currentTurn?: string) => {
+    if (!currentTurn || !playerAddress) return "Battle in progress"
+    return currentTurn.toLowerCase() === playerAddress.toLowerCase() ? "Your turn!" : "Opponent's turn"
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed bottom-4 right-4 z-50 w-full max-w-sm bg-black/90 border border-yellow-500/50 rounded-lg p-4 shadow-xl"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-yellow-400 font-semibold">
+          <History className="w-4 h-4" />
+          Unfinished {resumableRooms.length === 1 ? "Match" : "Matches"}
+        </div>
+        <Button variant="ghost" size="sm" onClick={dismissResumableRooms} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {pendingRoomTransactions.map((transaction) => (
+          <TransactionStatus
+            key={transaction.hash}
+            isLoading={false}
+            error={null}
+            hash={transaction.hash}
+            title={transaction.intent === "join" ? `Join Match #${transaction.matchId}` : "Match Creation"}
+            description="Sent before the page reloaded. The room opens once it confirms."
+          />
+        ))}
+
+        {resumableRooms.map((room) => (
+          <div key={room.id} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+            <div className="text-sm">
+              <p className="text-white font-medium">Match #{room.matchId}</p>
+              <p className="text-gray-400 flex items-center gap-1">
+                <Coins className="w-3 h-3 text-yellow-400" />
+                {room.stakeAmount} ETH •{" "}
+                {room.status === "playing" ? getTurnLabel(room.gameData.currentTurn) : "Waiting for opponent"}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => handleResume(room.id)}
+              className="bg-gradient-to-r from-yellow-600 to-amber-600 hover:from-yellow-700 hover:to-amber-700 text-black font-bold"
+            >
+              Resume
+            </Button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,127 @@
+// components/spectate-match.tsx - Pick an arena match to watch live or replay, no wallet needed
+"use client"
+
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, AlertTriangle, Eye } from "lucide-react"
+import { motion } from "framer-motion"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import ContractSpectatorBattle from "./contract-spectator-battle"
+import MatchReplayViewer from "./match-replay-viewer"
+import { matchQuery } from "@/lib/arena-queries"
+import { MatchStatus } from "@/lib/Web3-Utils"
+import { playSound } from "@/lib/sound-utils"
+
+interface SpectateMatchProps {
+  onBack: () => void
+}
+
+export default function SpectateMatch({ onBack }: SpectateMatchProps) {
+  const [matchIdInput, setMatchIdInput] = useState("")
+  const [watchingMatchId, setWatchingMatchId] = useState<number | null>(null)
+  const [replayMatchId, setReplayMatchId] = useState<number | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const queryClient = useQueryClient()
+
+  const handleWatch = async () => {
+    const matchId = parseInt(matchIdInput.replace('CONTRACT_', ''))
+    if (isNaN(matchId) || matchId <= 0) {
+      setError("Please enter a valid match ID")
+      return
+    }
+
+    setChecking(true)
+    setError(null)
+
+    try {
+      // Seeds the cache the battle view then reads from
+      const match = await queryClient.fetchQuery(matchQuery(matchId))
+
+      if (match.status === MatchStatus.FINDING) {
+        throw new Error(`Match #${matchId} is still waiting for an opponent`)
+      }
+
+      playSound("button-click.mp3")
+      if (match.status === MatchStatus.COMPLETED) {
+        setReplayMatchId(matchId)
+      } else {
+        setWatchingMatchId(matchId)
+      }
+    } catch (err: any) {
+      console.error("Failed to open match for spectating:", err)
+      setError(err.message || "Match not found")
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  if (replayMatchId !== null) {
+    return <MatchReplayViewer matchId={replayMatchId} onExit={() => setReplayMatchId(null)} />
+  }
+
+  if (watchingMatchId !== null) {
+    return <ContractSpectatorBattle matchId={watchingMatchId} onExit={() => setWatchingMatchId(null)} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-black/40 backdrop-blur-lg rounded-xl p-8 max-w-lg w-full"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="sm" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Spectate Match</h1>
+            <p className="text-gray-400">Watch an ongoing battle live or replay a finished one</p>
+          </div>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Match ID
+            </label>
+            <Input
+              type="text"
+              placeholder="e.g., 42"
+              value={matchIdInput}
+              onChange={(e) => setMatchIdInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleWatch()}
+              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+            />
+          </div>
+
+          <Button
+            onClick={handleWatch}
+            disabled={checking || !matchIdInput.trim()}
+            className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            {checking ? "Checking match..." : "Watch Battle"}
+          </Button>
+
+          <p className="text-xs text-gray-400 text-center">
+            Spectating is read-only and doesn't need a connected wallet. Finished matches open as a replay.
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
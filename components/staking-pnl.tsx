@@ -0,0 +1,211 @@
+// components/staking-pnl.tsx - Net ETH won or lost staking in the arena, per day and per character
+"use client"
+
+import { useState, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, AlertTriangle, History, RefreshCw, Download, Wallet } from "lucide-react"
+import { motion } from "framer-motion"
+import { useAccount } from "wagmi"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useContract } from "@/hooks/use-contract"
+import { useStakingPnl } from "@/hooks/use-staking-pnl"
+import { Web3Utils } from "@/lib/Web3-Utils"
+import { groupPnl, pnlToCsv, sumPnl, type PnlGroup } from "@/lib/staking-pnl"
+import { playSound } from "@/lib/sound-utils"
+
+interface StakingPnlProps {
+  onBack: () => void
+}
+
+type PnlGrouping = "day" | "character"
+
+const GROUPINGS: { value: PnlGrouping; label: string }[] = [
+  { value: "day", label: "Per Day" },
+  { value: "character", label: "Per Character" }
+]
+
+const UNKNOWN_CHARACTER = "unknown"
+
+const getNetStyle = (net: bigint) => (net > 0n ? "text-green-400" : net < 0n ? "text-red-400" : "text-gray-300")
+
+const formatSigned = (amount: bigint) => `${amount > 0n ? "+" : ""}${Web3Utils.formatEth(amount)}`
+
+export default function StakingPnl({ onBack }: StakingPnlProps) {
+  const { address } = useAccount()
+  const { ownedCharacters } = useContract()
+  const { records, isLoading, error, status, isSupported, refresh } = useStakingPnl(address)
+  const [grouping, setGrouping] = useState<PnlGrouping>("day")
+
+  const totals = useMemo(() => sumPnl(records), [records])
+
+  const groups = useMemo<PnlGroup[]>(() => {
+    return grouping === "day"
+      ? groupPnl(records, record => record.day)
+      : groupPnl(records, record => record.characterInstanceId?.toString() ?? UNKNOWN_CHARACTER)
+  }, [records, grouping])
+
+  const getGroupLabel = (key: string) => {
+    if (grouping === "day") return key
+    if (key === UNKNOWN_CHARACTER) return "Unknown character"
+
+    const character = ownedCharacters.find(owned => owned.id === Number(key))
+    return character ? `${character.characterTypeName} #${key} (Lv ${character.level})` : `Character #${key}`
+  }
+
+  const exportCsv = () => {
+    playSound("button-click.mp3")
+    const blob = new Blob([pnlToCsv(records)], { type: "text/csv;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `arena-pnl-${address}-${new Date().toISOString().slice(0, 10)}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const summary = [
+    { label: "Staked", value: Web3Utils.formatEth(totals.stakeSent), className: "text-white" },
+    { label: "Rewards", value: Web3Utils.formatEth(totals.rewards), className: "text-green-400" },
+    { label: "Refunded", value: Web3Utils.formatEth(totals.stakeRefunded), className: "text-gray-300" },
+    { label: "Platform Fees", value: Web3Utils.formatEth(totals.platformFees), className: "text-orange-400" },
+    { label: "Gas Paid", value: Web3Utils.formatEth(totals.gasPaid), className: "text-orange-400" },
+    { label: "In Escrow", value: Web3Utils.formatEth(totals.inEscrow), className: "text-blue-400" }
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-4xl mx-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Staking P&amp;L</h1>
+              <p className="text-gray-400">Whether your arena stakes have you up or down</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={exportCsv} disabled={records.length === 0} variant="outline" size="sm">
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button onClick={refresh} disabled={isLoading} variant="outline" size="sm">
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Error Alerts */}
+        {!isSupported && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>P&amp;L Unavailable</AlertTitle>
+            <AlertDescription>This browser doesn't support IndexedDB, which match history is stored in.</AlertDescription>
+          </Alert>
+        )}
+
+        {(error || status.error) && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error || status.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!address && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Wallet Required</AlertTitle>
+            <AlertDescription>Connect your wallet to see your staking P&amp;L.</AlertDescription>
+          </Alert>
+        )}
+
+        {status.state === "backfilling" && (
+          <Alert className="mb-6 border-blue-500/50 bg-blue-500/10">
+            <History className="h-4 w-4" />
+            <AlertTitle>Indexing Arena History</AlertTitle>
+            <AlertDescription>Totals update as past battles are read from the chain.</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Net */}
+        <div className="bg-black/40 rounded-xl p-6 mb-4 text-center">
+          <div className={`text-4xl font-bold ${getNetStyle(totals.net)}`}>{formatSigned(totals.net)} ETH</div>
+          <div className="text-sm text-gray-400 mt-1">
+            Net over {totals.matches} {totals.matches === 1 ? "match" : "matches"}, after stakes and gas
+          </div>
+        </div>
+
+        {/* Breakdown */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+          {summary.map(item => (
+            <div key={item.label} className="bg-black/40 rounded-lg p-4 text-center">
+              <div className={`text-lg font-bold ${item.className}`}>{item.value}</div>
+              <div className="text-xs text-gray-400">{item.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Grouping */}
+        <div className="flex gap-2 mb-4">
+          {GROUPINGS.map(option => (
+            <Button
+              key={option.value}
+              variant={grouping === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setGrouping(option.value)}
+              className="text-xs"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="text-center py-12">
+            <Wallet className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-400 mb-2">No Stakes Yet</h3>
+            <p className="text-gray-500">Matches you create or join will be tallied here.</p>
+          </div>
+        ) : (
+          <div className="bg-black/40 rounded-xl p-4 overflow-x-auto">
+            <table className="w-full text-sm text-white">
+              <thead>
+                <tr className="text-gray-400 text-xs text-right">
+                  <th className="text-left font-medium pb-2">{grouping === "day" ? "Day (UTC)" : "Character"}</th>
+                  <th className="font-medium pb-2">Matches</th>
+                  <th className="font-medium pb-2">Staked</th>
+                  <th className="font-medium pb-2">Rewards</th>
+                  <th className="font-medium pb-2">Fees</th>
+                  <th className="font-medium pb-2">Gas</th>
+                  <th className="font-medium pb-2">Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => (
+                  <tr key={group.key} className="border-t border-white/10 text-right">
+                    <td className="text-left py-2">{getGroupLabel(group.key)}</td>
+                    <td>{group.totals.matches}</td>
+                    <td>{Web3Utils.formatEth(group.totals.stakeSent)}</td>
+                    <td className="text-green-400">{Web3Utils.formatEth(group.totals.rewards)}</td>
+                    <td className="text-orange-400">{Web3Utils.formatEth(group.totals.platformFees)}</td>
+                    <td className="text-orange-400">{Web3Utils.formatEth(group.totals.gasPaid)}</td>
+                    <td className={`font-bold ${getNetStyle(group.totals.net)}`}>{formatSigned(group.totals.net)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { CheckCircle, XCircle, Loader2, ExternalLink, Clock } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { Web3Utils } from "@/lib/Web3-Utils"
+import { usePendingTransaction } from "@/hooks/use-pending-transactions"
 import type { Hash } from "viem"
 
 interface TransactionStatusProps {
@@ -21,8 +22,8 @@ interface TransactionStatusProps {
 }
 
 export default function TransactionStatus({
-  isLoading,
-  error,
+  isLoading: isLoadingProp,
+  error: errorProp,
   hash,
   title = "Transaction",
   description,
@@ -32,6 +33,11 @@ export default function TransactionStatus({
 }: TransactionStatusProps) {
   const [timeElapsed, setTimeElapsed] = useState(0)
 
+  // Hashes tracked by the pending transaction manager report their own confirmation state
+  const tracked = usePendingTransaction(hash)
+  const isLoading = isLoadingProp || tracked?.status === 'pending'
+  const error = errorProp ?? tracked?.error ?? null
+
   // Track time elapsed for pending transactions
   useEffect(() => {
     if (!isLoading) {
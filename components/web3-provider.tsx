@@ -3,14 +3,16 @@
 
 import { ReactNode } from 'react'
 import { WagmiProvider } from 'wagmi'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { QueryClientProvider } from '@tanstack/react-query'
 import { RainbowKitProvider, getDefaultConfig, connectorsForWallets } from '@rainbow-me/rainbowkit'
 import { metaMaskWallet, walletConnectWallet, injectedWallet } from '@rainbow-me/rainbowkit/wallets'
 import { config } from '@/lib/web3-config'
+import { arenaQueryClient } from '@/lib/arena-queries'
+import { useArenaQueryInvalidation } from '@/hooks/use-arena-queries'
+import { usePendingTransactionResume } from '@/hooks/use-pending-transactions'
+import { useContractSigner } from '@/hooks/use-contract-signer'
 import '@rainbow-me/rainbowkit/styles.css'
 
-const queryClient = new QueryClient()
-
 const connectors = connectorsForWallets(
   [
     {
@@ -24,6 +26,19 @@ const connectors = connectorsForWallets(
   }
 )
 
+// Keeps the shared contract query cache in step with on-chain events and transactions left pending by a reload
+function ArenaQuerySync() {
+  useArenaQueryInvalidation()
+  usePendingTransactionResume()
+  return null
+}
+
+// Points contract writes at the wallet wagmi has connected
+function ContractSignerSync() {
+  useContractSigner()
+  return null
+}
+
 interface Web3ProviderProps {
   children: ReactNode
 }
@@ -31,7 +46,9 @@ interface Web3ProviderProps {
 export function Web3Provider({ children }: Web3ProviderProps) {
   return (
     <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>
+      <QueryClientProvider client={arenaQueryClient}>
+        <ArenaQuerySync />
+        <ContractSignerSync />
         <RainbowKitProvider>
           {children}
         </RainbowKitProvider>
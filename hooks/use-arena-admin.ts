@@ -0,0 +1,186 @@
+// hooks/use-arena-admin.ts
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAccount } from 'wagmi'
+import { type Address, type Hash } from 'viem'
+import { useEventIndexer } from './use-event-indexer'
+import { contractService } from '@/lib/contract-service'
+import { GAME_CONSTANTS } from '@/lib/contract-config'
+import { MatchStatus } from '@/lib/Web3-Utils'
+
+// An ongoing match nobody has moved in for longer than MAX_TURN_TIME
+export interface StuckMatch {
+  matchId: number
+  player1: Address
+  player2: Address
+  stake: bigint
+  turnCount: number
+  lastMoveTimestamp: number
+  createdAt: number
+  // emergencyCancelMatch reverts before this unix time
+  cancellableAt: number
+}
+
+export type AdminAction = 'setPlatformFee' | 'withdrawPlatformFees' | 'pause' | 'unpause' | 'emergencyCancelMatch' | 'transferOwnership'
+
+// Hook for whether the connected wallet owns the arena contract
+export function useContractOwner() {
+  const { address } = useAccount()
+  const [owner, setOwner] = useState<Address | null>(null)
+
+  const loadOwner = useCallback(async () => {
+    try {
+      setOwner(await contractService.getOwner())
+    } catch (err) {
+      console.error('Error loading contract owner:', err)
+      setOwner(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadOwner()
+  }, [loadOwner, address])
+
+  const isOwner = !!address && !!owner && address.toLowerCase() === owner.toLowerCase()
+
+  return { owner, isOwner, refreshOwner: loadOwner }
+}
+
+// Hook for the owner admin console: contract state, stuck matches and the onlyOwner actions
+export function useArenaAdmin() {
+  const { owner, isOwner, refreshOwner } = useContractOwner()
+  const { indexer, status, isSupported } = useEventIndexer()
+
+  const [paused, setPaused] = useState(false)
+  const [platformFee, setPlatformFee] = useState<number | null>(null)
+  const [contractBalance, setContractBalance] = useState<bigint>(0n)
+  // Stakes the contract still owes players; withdrawPlatformFees sends these out too
+  const [escrowedStakes, setEscrowedStakes] = useState<bigint>(0n)
+  const [stuckMatches, setStuckMatches] = useState<StuckMatch[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingAction, setPendingAction] = useState<AdminAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Find unfinished matches in the event index, then confirm each against the contract,
+   * since emergency cancels leave no event behind.
+   */
+  const loadMatches = useCallback(async () => {
+    if (!isSupported) return
+
+    const [initiated, joined, completed] = await Promise.all([
+      indexer.getEvents('MatchInitiated'),
+      indexer.getEvents('MatchJoined'),
+      indexer.getEvents('MatchCompleted')
+    ])
+
+    const completedIds = new Set(completed.map(event => event.matchId!))
+    const joinedIds = new Set(joined.map(event => event.matchId!))
+    const unfinished = initiated.filter(event => !completedIds.has(event.matchId!))
+
+    // Nobody has joined these yet, so the host's stake is all that is held
+    const waitingStakes = unfinished
+      .filter(event => !joinedIds.has(event.matchId!))
+      .reduce((total, event) => total + BigInt(event.args.stake), 0n)
+
+    const candidates = unfinished.filter(event => joinedIds.has(event.matchId!)).map(event => event.matchId!)
+    const [now, onChain] = await Promise.all([
+      contractService.getBlockTimestamp(),
+      contractService.getMatches(candidates)
+    ])
+
+    const ongoing = onChain.filter(match => match.status === MatchStatus.ONGOING)
+    const ongoingStakes = ongoing.reduce((total, match) => total + match.stake * 2n, 0n)
+
+    const stale = ongoing.filter(match => now - match.lastMoveTimestamp > GAME_CONSTANTS.MAX_TURN_TIME)
+    const createdAt = await Promise.all(stale.map(match => contractService.getMatchCreatedAt(match.id)))
+
+    setEscrowedStakes(waitingStakes + ongoingStakes)
+    setStuckMatches(stale.map((match, index) => ({
+      matchId: match.id,
+      player1: match.player1,
+      player2: match.player2,
+      stake: match.stake,
+      turnCount: match.turnCount,
+      lastMoveTimestamp: match.lastMoveTimestamp,
+      createdAt: createdAt[index],
+      cancellableAt: createdAt[index] + GAME_CONSTANTS.EMERGENCY_CANCEL_DELAY
+    })))
+  }, [indexer, isSupported])
+
+  const refresh = useCallback(async () => {
+    if (!isOwner) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const [isPaused, fee, balance] = await Promise.all([
+        contractService.isPaused(),
+        contractService.getPlatformFeePercentage(),
+        contractService.getContractBalance()
+      ])
+      setPaused(isPaused)
+      setPlatformFee(fee)
+      setContractBalance(balance)
+      await loadMatches()
+    } catch (err: any) {
+      console.error('Error loading admin data:', err)
+      setError(err.message || 'Failed to load contract state')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isOwner, loadMatches])
+
+  // Reload when the backfill finishes, so matches from before this session are counted
+  useEffect(() => {
+    refresh()
+  }, [refresh, status.state])
+
+  /**
+   * Send an owner transaction, wait for it to be mined and reload contract state
+   */
+  const runAction = useCallback(async (action: AdminAction, send: () => Promise<Hash>): Promise<boolean> => {
+    setPendingAction(action)
+    setError(null)
+
+    try {
+      const hash = await send()
+      await contractService.waitForTransaction(hash)
+      if (action === 'transferOwnership') {
+        await refreshOwner()
+      } else {
+        await refresh()
+      }
+      return true
+    } catch (err: any) {
+      console.error(`Error running ${action}:`, err)
+      setError(err.message || 'Transaction failed')
+      return false
+    } finally {
+      setPendingAction(null)
+    }
+  }, [refresh, refreshOwner])
+
+  return {
+    owner,
+    isOwner,
+    paused,
+    platformFee,
+    contractBalance,
+    escrowedStakes,
+    stuckMatches,
+    isLoading,
+    pendingAction,
+    error,
+    status,
+    refresh,
+    setPlatformFee: (basisPoints: number) => runAction('setPlatformFee', () => contractService.setPlatformFee(basisPoints)),
+    withdrawPlatformFees: () => runAction('withdrawPlatformFees', () => contractService.withdrawPlatformFees()),
+    pause: () => runAction('pause', () => contractService.pause()),
+    unpause: () => runAction('unpause', () => contractService.unpause()),
+    emergencyCancelMatch: (matchId: number) => runAction('emergencyCancelMatch', () => contractService.emergencyCancelMatch(matchId)),
+    transferOwnership: (newOwner: Address) => runAction('transferOwnership', () => contractService.transferOwnership(newOwner))
+  }
+}
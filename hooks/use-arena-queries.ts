@@ -0,0 +1,113 @@
+// hooks/use-arena-queries.ts - Cached contract reads shared through React Query
+"use client"
+
+import { useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { type Address } from 'viem'
+import { contractService } from '@/lib/contract-service'
+import {
+  arenaQueryKeys,
+  characterTypesQuery,
+  characterInstanceQuery,
+  matchQuery,
+  matchCharactersQuery,
+  PLAYER_STALE_MS
+} from '@/lib/arena-queries'
+
+export { arenaQueryKeys }
+
+export function useCharacterTypes() {
+  return useQuery(characterTypesQuery())
+}
+
+export function usePlayerProfile(address: Address | null | undefined) {
+  return useQuery({
+    queryKey: address ? arenaQueryKeys.playerProfile(address) : arenaQueryKeys.playerProfiles(),
+    queryFn: () => contractService.getPlayerProfile(address!),
+    enabled: !!address,
+    staleTime: PLAYER_STALE_MS
+  })
+}
+
+// Character instances listed in the player's profile, read in one batch
+export function useOwnedCharacters(address: Address | null | undefined) {
+  const profile = usePlayerProfile(address)
+  const instanceIds = profile.data?.ownedCharacterInstances
+
+  return useQuery({
+    queryKey: address
+      ? [...arenaQueryKeys.ownedCharacters(address), instanceIds ?? []]
+      : arenaQueryKeys.ownedCharacterLists(),
+    queryFn: () => instanceIds!.length > 0 ? contractService.getCharacterInstances(instanceIds!) : [],
+    enabled: !!address && !!instanceIds,
+    staleTime: PLAYER_STALE_MS
+  })
+}
+
+export function useCharacterInstance(characterInstanceId: number | null | undefined) {
+  return useQuery({
+    ...characterInstanceQuery(characterInstanceId ?? -1),
+    enabled: characterInstanceId !== null && characterInstanceId !== undefined
+  })
+}
+
+export function useMatch(matchId: number | null | undefined) {
+  return useQuery({
+    ...matchQuery(matchId ?? -1),
+    enabled: matchId !== null && matchId !== undefined
+  })
+}
+
+// The contract hides match characters while the match is FINDING, so callers enable this once it has started
+export function useMatchCharacters(matchId: number | null | undefined, enabled: boolean = true) {
+  return useQuery({
+    ...matchCharactersQuery(matchId ?? -1),
+    enabled: enabled && matchId !== null && matchId !== undefined
+  })
+}
+
+/**
+ * Invalidate cached reads as contract events arrive. Mount once, inside the QueryClientProvider.
+ */
+export function useArenaQueryInvalidation() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const unwatch = contractService.watchAllContractEvents(
+      (logs) => {
+        for (const log of logs) {
+          const args = log.args ?? {}
+
+          switch (log.eventName) {
+            case 'CharacterAcquired':
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.playerProfile(args.owner) })
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.ownedCharacters(args.owner) })
+              break
+            case 'CharacterLeveledUp':
+              // The event doesn't name the owner, so every cached roster is suspect
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.ownedCharacterLists() })
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.characterInstance(Number(args.characterInstanceId)) })
+              break
+            case 'MatchInitiated':
+            case 'MatchJoined':
+            case 'MoveMade':
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.match(Number(args.matchId)) })
+              break
+            case 'MatchCompleted':
+              // Results move both players' records and the winner's character XP
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.match(Number(args.matchId)) })
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.playerProfiles() })
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.ownedCharacterLists() })
+              queryClient.invalidateQueries({ queryKey: arenaQueryKeys.characterInstances() })
+              break
+          }
+        }
+      },
+      (error) => console.error('Error watching contract events for query invalidation:', error)
+    )
+
+    return () => {
+      unwatch()
+    }
+  }, [queryClient])
+}
@@ -0,0 +1,203 @@
+// hooks/use-contract-match.ts
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { type Address, type Hash } from 'viem'
+import { contractService, type ArenaEventLog } from '@/lib/contract-service'
+import { arenaQueryKeys } from '@/lib/arena-queries'
+import { INDEXER_START_BLOCK } from '@/lib/contract-config'
+import {
+  MatchStatus,
+  type CharacterType,
+  type CharacterInstance
+} from '@/lib/Web3-Utils'
+import { createFighter, type BattleState } from '@/lib/battle-engine'
+import { useMatch, useMatchCharacters, useCharacterInstance } from './use-arena-queries'
+
+export interface MatchMoveEvent {
+  player: Address
+  abilityIndex: number
+  damage: number
+  transactionHash?: Hash
+  logIndex?: number
+}
+
+export interface MatchCompletion {
+  winner: Address
+  reward: bigint
+  transactionHash?: Hash
+}
+
+const moveKey = (move: MatchMoveEvent) => `${move.transactionHash}_${move.logIndex}`
+
+const toMoveEvent = (log: ArenaEventLog<'MoveMade'>): MatchMoveEvent => ({
+  player: log.args.player as Address,
+  abilityIndex: Number(log.args.abilityIndex),
+  damage: Number(log.args.damage),
+  transactionHash: log.transactionHash,
+  logIndex: log.logIndex
+})
+
+// Hook for following a single arena match from on-chain state
+export function useContractMatch(matchId: number | null, characterTypes: CharacterType[]) {
+  const queryClient = useQueryClient()
+  const [moves, setMoves] = useState<MatchMoveEvent[]>([])
+  const [historyComplete, setHistoryComplete] = useState(false)
+  const [lastMove, setLastMove] = useState<MatchMoveEvent | null>(null)
+  const [completion, setCompletion] = useState<MatchCompletion | null>(null)
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+
+  // Match and character state come from the shared query cache, which contract events invalidate
+  const matchQuery = useMatch(matchId)
+  const match = matchQuery.data ?? null
+  // Character info is hidden by the contract while the match is still FINDING
+  const charactersQuery = useMatchCharacters(matchId, !!match && match.status !== MatchStatus.FINDING)
+  const matchCharacters = charactersQuery.data ?? null
+  const instance1Query = useCharacterInstance(matchCharacters?.char1InstanceId)
+  const instance2Query = useCharacterInstance(matchCharacters?.char2InstanceId)
+
+  const instances = useMemo<[CharacterInstance, CharacterInstance] | null>(() =>
+    instance1Query.data && instance2Query.data ? [instance1Query.data, instance2Query.data] : null,
+  [instance1Query.data, instance2Query.data])
+
+  const queryError = matchQuery.error || charactersQuery.error || instance1Query.error || instance2Query.error
+  const error = queryError ? (queryError.message || 'Failed to load match') : null
+
+  /**
+   * Re-read match and character state from the contract
+   */
+  const refresh = useCallback(async () => {
+    if (!matchId) return
+    await queryClient.invalidateQueries({ queryKey: arenaQueryKeys.match(matchId) })
+  }, [matchId, queryClient])
+
+  // Reset when switching matches
+  useEffect(() => {
+    setMoves([])
+    setHistoryComplete(false)
+    setLastMove(null)
+    setCompletion(null)
+  }, [matchId])
+
+  // Initial load: current state plus the move history needed for cooldowns
+  useEffect(() => {
+    if (!matchId) return
+
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoadingHistory(true)
+
+      // The match's start block is unknown, so both histories are read from deployment in bounded windows
+      try {
+        const logs = await contractService.getPastEventsInChunks('MoveMade', INDEXER_START_BLOCK, undefined, { matchId: BigInt(matchId) }, 'battle')
+        if (!cancelled) {
+          setMoves(prev => {
+            const known = new Set(prev.map(moveKey))
+            const history = logs.map(toMoveEvent).filter(move => !known.has(moveKey(move)))
+            return [...history, ...prev]
+          })
+          setHistoryComplete(true)
+        }
+      } catch (err) {
+        console.warn('Could not load move history, cooldown tracking disabled:', err)
+      }
+
+      try {
+        const [completed] = await contractService.getPastEventsInChunks('MatchCompleted', INDEXER_START_BLOCK, undefined, { matchId: BigInt(matchId) }, 'battle')
+        if (completed && !cancelled && completed.args.winner && completed.args.reward !== undefined) {
+          setCompletion({ winner: completed.args.winner, reward: completed.args.reward, transactionHash: completed.transactionHash })
+        }
+      } catch (err) {
+        console.warn('Could not load match completion:', err)
+      }
+
+      if (!cancelled) setIsLoadingHistory(false)
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [matchId])
+
+  // Follow moves and the match result as they land on chain
+  useEffect(() => {
+    if (!matchId) return
+
+    const unwatchMoves = contractService.watchContractEvents('MoveMade', (logs) => {
+      const newMoves = logs.map(toMoveEvent)
+      setMoves(prev => {
+        const known = new Set(prev.map(moveKey))
+        return [...prev, ...newMoves.filter(move => !known.has(moveKey(move)))]
+      })
+      setLastMove(newMoves[newMoves.length - 1])
+      refresh()
+    }, { matchId: BigInt(matchId) }, undefined, 'battle')
+
+    const unwatchCompleted = contractService.watchContractEvents('MatchCompleted', (logs) => {
+      const log = logs[logs.length - 1]
+      setCompletion({ winner: log.args.winner, reward: log.args.reward, transactionHash: log.transactionHash })
+      refresh()
+    }, { matchId: BigInt(matchId) }, undefined, 'battle')
+
+    return () => {
+      unwatchMoves()
+      unwatchCompleted()
+    }
+  }, [matchId, refresh])
+
+  // Engine view of the chain state, with cooldowns rebuilt from the move history
+  const battleState = useMemo<BattleState | null>(() => {
+    if (!match || !matchCharacters || !instances) return null
+
+    const type1 = characterTypes.find(type => type.id === instances[0].characterTypeId)
+    const type2 = characterTypes.find(type => type.id === instances[1].characterTypeId)
+    if (!type1 || !type2) return null
+
+    const fighter1 = createFighter(match.player1, instances[0], type1)
+    const fighter2 = createFighter(match.player2, instances[1], type2)
+    fighter1.currentHealth = matchCharacters.char1Health
+    fighter1.currentMana = matchCharacters.char1Mana
+    fighter2.currentHealth = matchCharacters.char2Health
+    fighter2.currentMana = matchCharacters.char2Mana
+
+    // Each MoveMade is one turn, so the n-th move sets its ability's cooldown to n + cooldown.
+    // Without the full history the turn numbers are unknown and the contract stays the judge.
+    if (historyComplete) {
+      moves.forEach((move, turn) => {
+        const fighter = move.player.toLowerCase() === match.player1.toLowerCase() ? fighter1 : fighter2
+        const ability = fighter.characterType.abilities[move.abilityIndex]
+        if (ability) {
+          fighter.abilityCooldowns[move.abilityIndex] = turn + ability.cooldown
+        }
+      })
+    }
+
+    const winner = match.status === MatchStatus.COMPLETED ? match.winner : null
+
+    return {
+      fighters: [fighter1, fighter2],
+      currentTurn: match.currentTurn,
+      turnCount: match.turnCount,
+      isOver: match.status === MatchStatus.COMPLETED,
+      winner
+    }
+  }, [match, matchCharacters, instances, characterTypes, moves, historyComplete])
+
+  return {
+    match,
+    matchCharacters,
+    instances,
+    battleState,
+    moves,
+    historyComplete,
+    lastMove,
+    completion,
+    isLoading: isLoadingHistory || matchQuery.isLoading,
+    error,
+    refresh
+  }
+}
@@ -0,0 +1,18 @@
+// hooks/use-contract-signer.ts
+"use client"
+
+import { useEffect } from 'react'
+import { useWalletClient } from 'wagmi'
+import { contractService } from '@/lib/contract-service'
+
+/**
+ * Sign contract writes with whichever wallet is connected through wagmi (injected, MetaMask
+ * or WalletConnect), following connector and account switches. Mount once, inside the WagmiProvider.
+ */
+export function useContractSigner() {
+  const { data: walletClient } = useWalletClient()
+
+  useEffect(() => {
+    contractService.setSigner(walletClient ?? null)
+  }, [walletClient])
+}
@@ -4,91 +4,75 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useAccount, useChainId } from 'wagmi'
 import { contractService } from '@/lib/contract-service'
-import { Web3Utils, type CharacterType, type CharacterInstance, type PlayerProfile, type Match } from '@/lib/Web3-Utils'
+import { Web3Utils, type CharacterType, type CharacterInstance, type Match } from '@/lib/Web3-Utils'
 import { etherlink } from '@/lib/web3-config'
 import { type Hash } from 'viem'
+import { useQueryClient } from '@tanstack/react-query'
+import { getPendingTransactionManager, type TransactionDetails, type TransactionIntent } from '@/lib/pending-transactions'
+import { fetchFreshMatch } from '@/lib/arena-queries'
+import { decodeArenaError } from '@/lib/arena-errors'
+import { arenaQueryKeys, useCharacterTypes, useOwnedCharacters, usePlayerProfile } from './use-arena-queries'
+
+const pendingTransactions = getPendingTransactionManager(contractService)
+
+// Waits through the pending transaction manager, so the wait resumes after a reload. Reverts become errors.
+const confirmTransaction = async (hash: Hash, intent: TransactionIntent, details: TransactionDetails) => {
+  const receipt = await pendingTransactions.track(hash, intent, details)
+  if (receipt.status !== 'success') {
+    throw new Error('Transaction reverted')
+  }
+  return receipt
+}
+
+// Stable fallbacks so consumers' effects don't re-run on every render before data arrives
+const EMPTY_CHARACTER_TYPES: CharacterType[] = []
+const EMPTY_OWNED_CHARACTERS: CharacterInstance[] = []
 
 // Hook for managing contract operations
 export function useContract() {
   const { address, isConnected } = useAccount()
   const chainId = useChainId()
   
+  const queryClient = useQueryClient()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [characterTypes, setCharacterTypes] = useState<CharacterType[]>([])
-  const [playerProfile, setPlayerProfile] = useState<PlayerProfile | null>(null)
-  const [ownedCharacters, setOwnedCharacters] = useState<CharacterInstance[]>([])
 
   const isCorrectNetwork = chainId === etherlink.id
+  const playerAddress = isConnected && isCorrectNetwork ? address : undefined
+
+  // Shared with every other caller through the query cache, so mounting doesn't re-read the contract
+  const characterTypesQuery = useCharacterTypes()
+  const playerProfileQuery = usePlayerProfile(playerAddress)
+  const ownedCharactersQuery = useOwnedCharacters(playerAddress)
+
+  const characterTypes = characterTypesQuery.data ?? EMPTY_CHARACTER_TYPES
+  const playerProfile = playerProfileQuery.data ?? null
+  const ownedCharacters = ownedCharactersQuery.data ?? EMPTY_OWNED_CHARACTERS
+  const queryError = characterTypesQuery.error || playerProfileQuery.error || ownedCharactersQuery.error
 
   // Reset state when account changes
   useEffect(() => {
-    setPlayerProfile(null)
-    setOwnedCharacters([])
     setError(null)
   }, [address])
 
-  // Load character types on mount
-  useEffect(() => {
-    loadCharacterTypes()
-  }, [])
-
-  // Load player data when connected and on correct network
-  useEffect(() => {
-    if (isConnected && address && isCorrectNetwork) {
-      loadPlayerData()
-    }
-  }, [isConnected, address, isCorrectNetwork])
-
   /**
-   * Load all available character types
+   * Reload all available character types
    */
   const loadCharacterTypes = useCallback(async () => {
-    try {
-      setIsLoading(true)
-      setError(null)
-      const types = await contractService.getAllCharacterTypes()
-      setCharacterTypes(types)
-    } catch (err: any) {
-      console.error('Error loading character types:', err)
-      setError(err.message || 'Failed to load character types')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
+    await queryClient.invalidateQueries({ queryKey: arenaQueryKeys.characterTypes() })
+  }, [queryClient])
 
   /**
-   * Load player profile and owned characters
+   * Reload player profile and owned characters
    */
   const loadPlayerData = useCallback(async () => {
     if (!address) return
 
-    try {
-      setIsLoading(true)
-      setError(null)
-      
-      // Load player profile
-      const profile = await contractService.getPlayerProfile(address)
-      setPlayerProfile(profile)
-
-      // Load owned character instances
-      if (profile.ownedCharacterInstances.length > 0) {
-        const characters = await Promise.all(
-          profile.ownedCharacterInstances.map(id => 
-            contractService.getCharacterInstance(id)
-          )
-        )
-        setOwnedCharacters(characters)
-      } else {
-        setOwnedCharacters([])
-      }
-    } catch (err: any) {
-      console.error('Error loading player data:', err)
-      setError(err.message || 'Failed to load player data')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [address])
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: arenaQueryKeys.playerProfile(address) }),
+      queryClient.invalidateQueries({ queryKey: arenaQueryKeys.ownedCharacters(address) })
+    ])
+  }, [address, queryClient])
 
   /**
    * Acquire a new character
@@ -105,17 +89,18 @@ export function useContract() {
       const hash = await contractService.acquireCharacter(characterTypeId)
       
       // Wait for transaction confirmation
-      await contractService.waitForTransaction(hash)
+      await confirmTransaction(hash, 'acquire', { account: address, characterTypeId })
       
       // Reload player data to show new character
       await loadPlayerData()
       
       return hash
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error acquiring character:', err)
-      const errorMessage = err.message || 'Failed to acquire character'
-      setError(errorMessage)
-      throw new Error(errorMessage)
+      // Keep the decoded error, so callers can branch on its code
+      const arenaError = decodeArenaError(err)
+      setError(arenaError.message)
+      throw arenaError
     } finally {
       setIsLoading(false)
     }
@@ -136,17 +121,17 @@ export function useContract() {
       const hash = await contractService.levelUpCharacter(characterInstanceId)
       
       // Wait for transaction confirmation
-      await contractService.waitForTransaction(hash)
+      await confirmTransaction(hash, 'level-up', { account: address, characterInstanceId })
       
       // Reload player data to show updated character
       await loadPlayerData()
       
       return hash
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error leveling up character:', err)
-      const errorMessage = err.message || 'Failed to level up character'
-      setError(errorMessage)
-      throw new Error(errorMessage)
+      const arenaError = decodeArenaError(err)
+      setError(arenaError.message)
+      throw arenaError
     } finally {
       setIsLoading(false)
     }
@@ -173,14 +158,14 @@ export function useContract() {
       const hash = await contractService.initiateMatch(characterInstanceId, stakeAmount)
       
       // Wait for transaction confirmation
-      await contractService.waitForTransaction(hash)
+      await confirmTransaction(hash, 'initiate', { account: address, characterInstanceId, stake: stakeAmount })
       
       return hash
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error initiating match:', err)
-      const errorMessage = err.message || 'Failed to initiate match'
-      setError(errorMessage)
-      throw new Error(errorMessage)
+      const arenaError = decodeArenaError(err)
+      setError(arenaError.message)
+      throw arenaError
     } finally {
       setIsLoading(false)
     }
@@ -201,14 +186,14 @@ export function useContract() {
       const hash = await contractService.joinMatch(matchId, characterInstanceId, stakeAmount)
       
       // Wait for transaction confirmation
-      await contractService.waitForTransaction(hash)
+      await confirmTransaction(hash, 'join', { account: address, matchId, characterInstanceId, stake: stakeAmount })
       
       return hash
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error joining match:', err)
-      const errorMessage = err.message || 'Failed to join match'
-      setError(errorMessage)
-      throw new Error(errorMessage)
+      const arenaError = decodeArenaError(err)
+      setError(arenaError.message)
+      throw arenaError
     } finally {
       setIsLoading(false)
     }
@@ -229,14 +214,42 @@ export function useContract() {
       const hash = await contractService.makeMove(matchId, abilityIndex)
       
       // Wait for transaction confirmation
-      await contractService.waitForTransaction(hash)
+      await confirmTransaction(hash, 'move', { account: address, matchId, abilityIndex })
       
       return hash
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error making move:', err)
-      const errorMessage = err.message || 'Failed to make move'
-      setError(errorMessage)
-      throw new Error(errorMessage)
+      const arenaError = decodeArenaError(err)
+      setError(arenaError.message)
+      throw arenaError
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isConnected, address, isCorrectNetwork])
+
+  /**
+   * Claim victory after the opponent let their turn time out
+   */
+  const claimTimeoutVictory = useCallback(async (matchId: number): Promise<Hash> => {
+    if (!isConnected || !address || !isCorrectNetwork) {
+      throw new Error('Wallet not connected or wrong network')
+    }
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      
+      const hash = await contractService.claimTimeoutVictory(matchId)
+      
+      // Wait for transaction confirmation
+      await confirmTransaction(hash, 'claim', { account: address, matchId })
+      
+      return hash
+    } catch (err) {
+      console.error('Error claiming timeout victory:', err)
+      const arenaError = decodeArenaError(err)
+      setError(arenaError.message)
+      throw arenaError
     } finally {
       setIsLoading(false)
     }
@@ -247,10 +260,11 @@ export function useContract() {
    */
   const getMatch = useCallback(async (matchId: number): Promise<Match> => {
     try {
-      return await contractService.getMatch(matchId)
-    } catch (err: any) {
+      // Callers check for state changes right after transactions, so always read fresh
+      return await fetchFreshMatch(matchId)
+    } catch (err) {
       console.error('Error fetching match:', err)
-      throw new Error(err.message || 'Failed to fetch match')
+      throw decodeArenaError(err)
     }
   }, [])
 
@@ -260,9 +274,9 @@ export function useContract() {
   const getFindingMatches = useCallback(async (stakeAmount: string): Promise<number[]> => {
     try {
       return await contractService.getFindingMatches(stakeAmount)
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching finding matches:', err)
-      throw new Error(err.message || 'Failed to fetch available matches')
+      throw decodeArenaError(err)
     }
   }, [])
 
@@ -280,9 +294,9 @@ export function useContract() {
 
     try {
       return await contractService.estimateGas(functionName, args, value, address)
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error estimating gas:', err)
-      throw new Error(err.message || 'Failed to estimate gas')
+      throw decodeArenaError(err)
     }
   }, [address])
 
@@ -305,8 +319,8 @@ export function useContract() {
 
   return {
     // State
-    isLoading,
-    error,
+    isLoading: isLoading || characterTypesQuery.isLoading || playerProfileQuery.isLoading || ownedCharactersQuery.isLoading,
+    error: error ?? queryError?.message ?? null,
     characterTypes,
     playerProfile,
     ownedCharacters,
@@ -318,6 +332,7 @@ export function useContract() {
     initiateMatch,
     joinMatch,
     makeMove,
+    claimTimeoutVictory,
     getMatch,
     getFindingMatches,
     estimateGas,
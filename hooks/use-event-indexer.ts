@@ -0,0 +1,33 @@
+// hooks/use-event-indexer.ts
+"use client"
+
+import { useState, useEffect } from 'react'
+import { contractService } from '@/lib/contract-service'
+import { getEventIndexer, type IndexerStatus } from '@/lib/event-indexer'
+
+// Hook that keeps the shared local event index running and reports its sync progress
+export function useEventIndexer() {
+  const indexer = getEventIndexer(contractService)
+  const [status, setStatus] = useState<IndexerStatus>(indexer.getStatus())
+
+  useEffect(() => {
+    const handleStatus = (nextStatus: IndexerStatus) => setStatus(nextStatus)
+
+    indexer.on('status', handleStatus)
+    setStatus(indexer.getStatus())
+
+    // The indexer is app-wide, so it keeps following blocks after this component unmounts
+    indexer.start()
+
+    return () => {
+      indexer.off('status', handleStatus)
+    }
+  }, [indexer])
+
+  return {
+    indexer,
+    status,
+    isSupported: indexer.isSupported(),
+    isSynced: status.state === 'live'
+  }
+}
@@ -0,0 +1,143 @@
+// hooks/use-leaderboard.ts
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { type Address } from 'viem'
+import { useEventIndexer } from './use-event-indexer'
+import { useRatings } from './use-ratings'
+import { contractService } from '@/lib/contract-service'
+import { INDEXER_START_BLOCK } from '@/lib/contract-config'
+import type { IndexedArenaEvent } from '@/lib/event-indexer'
+import {
+  buildLeaderboard,
+  getWeekStart,
+  type CompletedMatchResult,
+  type LeaderboardEntry,
+  type LeaderboardWindow
+} from '@/lib/leaderboard'
+
+// First block of each leaderboard week, keyed by the week start in ms
+const weekStartBlocks = new Map<number, bigint>()
+
+const PROFILE_CHECK_LIMIT = 25 // most active all-time players reconciled against getPlayerProfile
+
+const getWeekStartBlock = async (): Promise<bigint> => {
+  const weekStart = getWeekStart().getTime()
+  let block = weekStartBlocks.get(weekStart)
+  if (block === undefined) {
+    block = await contractService.findBlockByTimestamp(weekStart / 1000, INDEXER_START_BLOCK)
+    weekStartBlocks.set(weekStart, block)
+  }
+  return block
+}
+
+/**
+ * The contract's own counters include matches from before the index starts. Profiles can't supply
+ * ETH won or streaks, so every field stays from the index and the gap is reported alongside.
+ */
+const reconcileWithProfiles = async (entries: LeaderboardEntry[]): Promise<LeaderboardEntry[]> => {
+  const mostActive = [...entries].sort((a, b) => b.matches - a.matches).slice(0, PROFILE_CHECK_LIMIT)
+  const profiles = await Promise.all(
+    mostActive.map(entry => contractService.getPlayerProfile(entry.address).catch(() => null))
+  )
+
+  const byAddress = new Map(
+    profiles
+      .filter(profile => profile !== null)
+      .map(profile => [profile!.address.toLowerCase(), profile!])
+  )
+
+  return entries.map(entry => {
+    const profile = byAddress.get(entry.address.toLowerCase())
+    if (!profile || profile.totalMatches <= entry.matches) return entry
+
+    return { ...entry, unindexedMatches: profile.totalMatches - entry.matches }
+  })
+}
+
+// Hook for ranking every arena player from locally indexed MatchCompleted history
+export function useLeaderboard(timeWindow: LeaderboardWindow) {
+  const { indexer, status, isSupported, isSynced } = useEventIndexer()
+  const { ratings } = useRatings()
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLeaderboard = useCallback(async () => {
+    if (!isSupported) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const fromBlock = timeWindow === 'weekly' ? await getWeekStartBlock() : undefined
+      const [completedEvents, initiatedEvents, joinedEvents] = await Promise.all([
+        indexer.getEvents('MatchCompleted', fromBlock),
+        indexer.getEvents('MatchInitiated'),
+        indexer.getEvents('MatchJoined')
+      ])
+
+      // MatchCompleted only names the winner; the loser comes from who created and joined
+      const hosts = new Map(initiatedEvents.map(event => [event.matchId!, event.args.initiator as Address]))
+      const guests = new Map(joinedEvents.map(event => [event.matchId!, event.args.opponent as Address]))
+
+      const results: CompletedMatchResult[] = completedEvents.flatMap(event => {
+        const player1 = hosts.get(event.matchId!)
+        const player2 = guests.get(event.matchId!)
+        if (!player1 || !player2) return []
+
+        return [{
+          matchId: event.matchId!,
+          player1,
+          player2,
+          winner: event.args.winner as Address,
+          reward: BigInt(event.args.reward),
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex
+        }]
+      })
+
+      const leaderboard = buildLeaderboard(results)
+      setEntries(timeWindow === 'all-time' ? await reconcileWithProfiles(leaderboard) : leaderboard)
+    } catch (err: any) {
+      console.error('Error loading leaderboard:', err)
+      setError(err.message || 'Failed to load leaderboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [indexer, isSupported, timeWindow])
+
+  // Reload when the backfill finishes or fails, not on every indexed chunk
+  useEffect(() => {
+    loadLeaderboard()
+  }, [loadLeaderboard, status.state])
+
+  // Re-rank as new results come in
+  useEffect(() => {
+    const handleEvents = (events: IndexedArenaEvent[]) => {
+      if (events.some(event => event.eventName === 'MatchCompleted')) {
+        loadLeaderboard()
+      }
+    }
+
+    indexer.on('events', handleEvents)
+    return () => {
+      indexer.off('events', handleEvents)
+    }
+  }, [indexer, loadLeaderboard])
+
+  const ratedEntries = useMemo(
+    () => entries.map(entry => ({ ...entry, rating: ratings.get(entry.address.toLowerCase()) })),
+    [entries, ratings]
+  )
+
+  return {
+    entries: ratedEntries,
+    isLoading,
+    error,
+    status,
+    isSupported,
+    isSynced,
+    refresh: loadLeaderboard
+  }
+}
@@ -0,0 +1,68 @@
+// hooks/use-match-history.ts
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { type Address } from 'viem'
+import { useEventIndexer } from './use-event-indexer'
+import type { IndexedArenaEvent, IndexedMatch } from '@/lib/event-indexer'
+
+// Hook for every match an address created or joined, read from the local event index
+export function useMatchHistory(address?: Address | null) {
+  const { indexer, status, isSupported, isSynced } = useEventIndexer()
+  const [matches, setMatches] = useState<IndexedMatch[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMatches = useCallback(async () => {
+    if (!address || !isSupported) {
+      setMatches([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setMatches(await indexer.getMatchesByPlayer(address))
+    } catch (err: any) {
+      console.error('Error loading match history:', err)
+      setError(err.message || 'Failed to load match history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [indexer, address, isSupported])
+
+  // Reload when the backfill finishes or fails, not on every indexed chunk
+  useEffect(() => {
+    loadMatches()
+  }, [loadMatches, status.state])
+
+  // Pick up new matches, moves and results for this address as they are indexed
+  useEffect(() => {
+    if (!address) return
+
+    const player = address.toLowerCase()
+    const handleEvents = (events: IndexedArenaEvent[]) => {
+      const knownMatchIds = new Set(matches.map(match => match.matchId))
+      const isRelevant = events.some(event =>
+        event.addresses.includes(player) || (event.matchId !== undefined && knownMatchIds.has(event.matchId))
+      )
+      if (isRelevant) loadMatches()
+    }
+
+    indexer.on('events', handleEvents)
+    return () => {
+      indexer.off('events', handleEvents)
+    }
+  }, [indexer, address, matches, loadMatches])
+
+  return {
+    matches,
+    isLoading,
+    error,
+    status,
+    isSupported,
+    isSynced,
+    refresh: loadMatches
+  }
+}
@@ -0,0 +1,141 @@
+// hooks/use-match-replay.ts
+"use client"
+
+import { useState, useEffect } from 'react'
+import { type Address, type Hash } from 'viem'
+import { contractService } from '@/lib/contract-service'
+import { MatchStatus, type CharacterType, type CharacterInstance, type Match } from '@/lib/Web3-Utils'
+import { createFighter, createBattleState, type BattleState } from '@/lib/battle-engine'
+import {
+  buildReplaySteps,
+  getMatchEndReason,
+  type MatchEndReason,
+  type RecordedMove,
+  type ReplayStep
+} from '@/lib/match-replay'
+
+export interface MatchReplay {
+  match: Match
+  instances: [CharacterInstance, CharacterInstance]
+  initialState: BattleState
+  steps: ReplayStep[]
+  initiatedTx?: Hash
+  joinedTx?: Hash
+  completion: { winner: Address; reward: bigint; transactionHash?: Hash } | null
+  endReason: MatchEndReason
+}
+
+/**
+ * Character level when the match started: a level-up after the join means it was one lower then
+ */
+const getInstanceAtMatchStart = async (instance: CharacterInstance, joinedBlock?: bigint): Promise<CharacterInstance> => {
+  if (joinedBlock === undefined) return instance
+
+  const levelUps = await contractService.getPastEvents(
+    'CharacterLeveledUp',
+    joinedBlock + 1n,
+    undefined,
+    { characterInstanceId: BigInt(instance.id) }
+  )
+  if (levelUps.length === 0) return instance
+
+  const firstLevelUp = levelUps[0] as any
+  return { ...instance, level: Number(firstLevelUp.args.newLevel) - 1 }
+}
+
+// Hook for loading a finished arena match and its full move history
+export function useMatchReplay(matchId: number | null, characterTypes: CharacterType[]) {
+  const [replay, setReplay] = useState<MatchReplay | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!matchId || characterTypes.length === 0) return
+
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+      setReplay(null)
+
+      try {
+        const match = await contractService.getMatch(matchId, 'background')
+        if (match.status !== MatchStatus.COMPLETED) {
+          throw new Error(`Match #${matchId} hasn't finished yet`)
+        }
+
+        const args = { matchId: BigInt(matchId) }
+        const [initiatedLogs, joinedLogs, moveLogs, completedLogs, characters] = await Promise.all([
+          contractService.getPastEvents('MatchInitiated', 0n, undefined, args),
+          contractService.getPastEvents('MatchJoined', 0n, undefined, args),
+          contractService.getPastEvents('MoveMade', 0n, undefined, args),
+          contractService.getPastEvents('MatchCompleted', 0n, undefined, args),
+          contractService.getMatchCharacters(matchId, 'background')
+        ])
+
+        const joined = joinedLogs[0] as any
+        const [currentInstance1, currentInstance2] = await Promise.all([
+          contractService.getCharacterInstance(characters.char1InstanceId),
+          contractService.getCharacterInstance(characters.char2InstanceId)
+        ])
+        const instances: [CharacterInstance, CharacterInstance] = await Promise.all([
+          getInstanceAtMatchStart(currentInstance1, joined?.blockNumber ?? undefined),
+          getInstanceAtMatchStart(currentInstance2, joined?.blockNumber ?? undefined)
+        ])
+
+        const type1 = characterTypes.find(type => type.id === instances[0].characterTypeId)
+        const type2 = characterTypes.find(type => type.id === instances[1].characterTypeId)
+        if (!type1 || !type2) {
+          throw new Error('Unknown character type in match')
+        }
+
+        const initialState = createBattleState(
+          createFighter(match.player1, instances[0], type1),
+          createFighter(match.player2, instances[1], type2)
+        )
+
+        const moves: RecordedMove[] = (moveLogs as any[]).map(log => ({
+          player: log.args.player,
+          abilityIndex: Number(log.args.abilityIndex),
+          damage: Number(log.args.damage),
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber
+        }))
+        const steps = buildReplaySteps(initialState, moves)
+        const finalState = steps.length > 0 ? steps[steps.length - 1].state : initialState
+
+        const completed = completedLogs[0] as any
+        const completion = completed
+          ? { winner: completed.args.winner, reward: completed.args.reward, transactionHash: completed.transactionHash }
+          : null
+
+        if (!cancelled) {
+          setReplay({
+            match,
+            instances,
+            initialState,
+            steps,
+            initiatedTx: (initiatedLogs[0] as any)?.transactionHash,
+            joinedTx: joined?.transactionHash,
+            completion,
+            endReason: getMatchEndReason(finalState, completion?.winner ?? null)
+          })
+        }
+      } catch (err: any) {
+        console.error('Error loading match replay:', err)
+        if (!cancelled) setError(err.message || 'Failed to load match replay')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [matchId, characterTypes])
+
+  return { replay, isLoading, error }
+}
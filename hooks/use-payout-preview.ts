@@ -0,0 +1,76 @@
+// hooks/use-payout-preview.ts
+"use client"
+
+import { useState, useEffect, useMemo } from 'react'
+import { contractService } from '@/lib/contract-service'
+import { calculatePayout, type PayoutPreview } from '@/lib/payout'
+
+// The owner can change the fee at any time without an event, so it is re-read once this is stale
+const FEE_MAX_AGE_MS = 60 * 1000
+
+let cachedFee: { basisPoints: number; readAt: number } | null = null
+let pendingFee: Promise<number> | null = null
+
+const loadPlatformFee = (): Promise<number> => {
+  if (cachedFee && Date.now() - cachedFee.readAt < FEE_MAX_AGE_MS) {
+    return Promise.resolve(cachedFee.basisPoints)
+  }
+  if (!pendingFee) {
+    pendingFee = contractService.getPlatformFeePercentage()
+      .then(basisPoints => {
+        cachedFee = { basisPoints, readAt: Date.now() }
+        return basisPoints
+      })
+      .finally(() => {
+        pendingFee = null
+      })
+  }
+  return pendingFee
+}
+
+// Hook for the payout of a match at the given stake, with the live platform fee and optional gas estimate
+export function usePayoutPreview(stake: bigint | null, gasUnits?: bigint | null) {
+  const [feeBasisPoints, setFeeBasisPoints] = useState<number | null>(cachedFee?.basisPoints ?? null)
+  const [gasPrice, setGasPrice] = useState<bigint | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadPlatformFee()
+      .then(basisPoints => {
+        if (!cancelled) setFeeBasisPoints(basisPoints)
+      })
+      .catch(err => {
+        console.error('Error loading platform fee:', err)
+        if (!cancelled) setError(err.message || 'Failed to load platform fee')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [stake])
+
+  useEffect(() => {
+    if (!gasUnits) return
+    let cancelled = false
+
+    contractService.getGasPrice()
+      .then(price => {
+        if (!cancelled) setGasPrice(price)
+      })
+      .catch(err => console.error('Error loading gas price:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [gasUnits])
+
+  const preview = useMemo<PayoutPreview | null>(() => {
+    if (stake === null || feeBasisPoints === null) return null
+    const gasCost = gasUnits && gasPrice !== null ? gasUnits * gasPrice : null
+    return calculatePayout(stake, feeBasisPoints, gasCost)
+  }, [stake, feeBasisPoints, gasUnits, gasPrice])
+
+  return { preview, isLoading: feeBasisPoints === null && !error, error }
+}
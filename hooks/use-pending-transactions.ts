@@ -0,0 +1,80 @@
+// hooks/use-pending-transactions.ts
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import type { Hash } from 'viem'
+import { contractService } from '@/lib/contract-service'
+import { getPendingTransactionManager, type PendingTransaction } from '@/lib/pending-transactions'
+import { arenaQueryKeys } from './use-arena-queries'
+
+// Hook for every transaction the manager is tracking, pending or recently settled
+export function usePendingTransactions() {
+  const manager = getPendingTransactionManager(contractService)
+  const [transactions, setTransactions] = useState<PendingTransaction[]>(() => manager.list())
+
+  useEffect(() => {
+    setTransactions(manager.list())
+    return manager.subscribe(() => setTransactions(manager.list()))
+  }, [manager])
+
+  return {
+    transactions,
+    pending: transactions.filter(transaction => transaction.status === 'pending'),
+    dismiss: (hash: Hash) => manager.dismiss(hash)
+  }
+}
+
+// Hook for the tracked state of one transaction, or null when the manager doesn't know it
+export function usePendingTransaction(hash: Hash | string | null | undefined) {
+  const manager = getPendingTransactionManager(contractService)
+  const [transaction, setTransaction] = useState<PendingTransaction | null>(() => hash ? manager.get(hash as Hash) : null)
+
+  useEffect(() => {
+    if (!hash) {
+      setTransaction(null)
+      return
+    }
+
+    setTransaction(manager.get(hash as Hash))
+    return manager.subscribe(() => setTransaction(manager.get(hash as Hash)))
+  }, [manager, hash])
+
+  return transaction
+}
+
+/**
+ * Resume transactions left pending by an earlier page load and refresh the reads they change.
+ * Mount once, inside the QueryClientProvider.
+ */
+export function usePendingTransactionResume() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const manager = getPendingTransactionManager(contractService)
+
+    const refreshPlayer = (transaction: PendingTransaction) => {
+      if (!transaction.account) return
+      queryClient.invalidateQueries({ queryKey: arenaQueryKeys.playerProfile(transaction.account) })
+      queryClient.invalidateQueries({ queryKey: arenaQueryKeys.ownedCharacters(transaction.account) })
+    }
+    const refreshMatch = (transaction: PendingTransaction) => {
+      if (transaction.matchId === undefined) return
+      queryClient.invalidateQueries({ queryKey: arenaQueryKeys.match(transaction.matchId) })
+    }
+
+    const unsubscribers = [
+      manager.onSettled('acquire', refreshPlayer),
+      manager.onSettled('level-up', refreshPlayer),
+      manager.onSettled('join', refreshMatch),
+      manager.onSettled('move', refreshMatch),
+      manager.onSettled('claim', refreshMatch)
+    ]
+
+    manager.resume()
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }, [queryClient])
+}
@@ -0,0 +1,155 @@
+// hooks/use-ratings.ts
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { type Address } from 'viem'
+import { useEventIndexer } from './use-event-indexer'
+import { contractService } from '@/lib/contract-service'
+import { RATING_LEVEL_GAP_ADJUSTMENT } from '@/lib/contract-config'
+import type { EventIndexer, IndexedArenaEvent } from '@/lib/event-indexer'
+import { computeRatings, createRating, type PlayerRating, type RatedMatchResult } from '@/lib/ratings'
+
+// Ratings are shared by every screen that shows them, so they are computed once per index update
+let cachedRatings: Map<string, PlayerRating> = new Map()
+let pendingLoad: Promise<Map<string, PlayerRating>> | null = null
+// Set when the index changes mid-load, since the in-flight replay may have read it before the change
+let reloadRequested = false
+const subscribers = new Set<(ratings: Map<string, PlayerRating>) => void>()
+
+// Character instances never change once a match starts
+const matchCharacterIds = new Map<number, [number, number]>()
+
+/**
+ * Character levels when each match started, from the CharacterLeveledUp history before its join block
+ */
+const getLevelsAtJoin = async (
+  indexer: EventIndexer,
+  joins: Map<number, IndexedArenaEvent>,
+  matchIds: number[]
+): Promise<Map<number, [number, number]>> => {
+  const levelUps = await indexer.getEvents('CharacterLeveledUp')
+  const levelAt = (instanceId: number, blockNumber: number) => {
+    const earlier = levelUps.filter(event => event.characterInstanceId === instanceId && event.blockNumber <= blockNumber)
+    return earlier.length > 0 ? Number(earlier[earlier.length - 1].args.newLevel) : 1
+  }
+
+  const levels = new Map<number, [number, number]>()
+  for (const matchId of matchIds) {
+    const join = joins.get(matchId)
+    if (!join) continue
+
+    try {
+      let ids = matchCharacterIds.get(matchId)
+      if (!ids) {
+        const characters = await contractService.getMatchCharacters(matchId, 'background')
+        ids = [characters.char1InstanceId, characters.char2InstanceId]
+        matchCharacterIds.set(matchId, ids)
+      }
+      levels.set(matchId, [levelAt(ids[0], join.blockNumber), levelAt(ids[1], join.blockNumber)])
+    } catch (error) {
+      console.warn(`Could not read characters for match ${matchId}, rating it without level gap`, error)
+    }
+  }
+  return levels
+}
+
+const computeFromIndex = async (indexer: EventIndexer): Promise<Map<string, PlayerRating>> => {
+  const [completedEvents, initiatedEvents, joinedEvents] = await Promise.all([
+    indexer.getEvents('MatchCompleted'),
+    indexer.getEvents('MatchInitiated'),
+    indexer.getEvents('MatchJoined')
+  ])
+
+  const hosts = new Map(initiatedEvents.map(event => [event.matchId!, event.args.initiator as Address]))
+  const joins = new Map(joinedEvents.map(event => [event.matchId!, event]))
+
+  const levels = RATING_LEVEL_GAP_ADJUSTMENT
+    ? await getLevelsAtJoin(indexer, joins, completedEvents.map(event => event.matchId!))
+    : new Map<number, [number, number]>()
+
+  const results: RatedMatchResult[] = completedEvents.flatMap(event => {
+    const matchId = event.matchId!
+    const host = hosts.get(matchId)
+    const guest = joins.get(matchId)?.args.opponent as Address | undefined
+    if (!host || !guest) return []
+
+    const winner = event.args.winner as Address
+    const hostWon = winner.toLowerCase() === host.toLowerCase()
+    const matchLevels = levels.get(matchId)
+
+    return [{
+      matchId,
+      winner,
+      loser: hostWon ? guest : host,
+      winnerLevel: matchLevels ? matchLevels[hostWon ? 0 : 1] : undefined,
+      loserLevel: matchLevels ? matchLevels[hostWon ? 1 : 0] : undefined,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex
+    }]
+  })
+
+  return computeRatings(results, { adjustForLevelGap: RATING_LEVEL_GAP_ADJUSTMENT })
+}
+
+const loadRatings = (indexer: EventIndexer): Promise<Map<string, PlayerRating>> => {
+  if (pendingLoad) {
+    reloadRequested = true
+    return pendingLoad
+  }
+
+  pendingLoad = computeFromIndex(indexer)
+    .then(ratings => {
+      cachedRatings = ratings
+      subscribers.forEach(subscriber => subscriber(ratings))
+      return ratings
+    })
+    .finally(() => {
+      pendingLoad = null
+      // Any number of updates during the load is covered by one more replay
+      if (reloadRequested) {
+        reloadRequested = false
+        loadRatings(indexer).catch(error => console.error('Error computing ratings:', error))
+      }
+    })
+  return pendingLoad
+}
+
+// Hook for Glicko-2 ratings of every arena player, replayed from the local event index
+export function useRatings() {
+  const { indexer, status, isSupported } = useEventIndexer()
+  const [ratings, setRatings] = useState<Map<string, PlayerRating>>(cachedRatings)
+
+  useEffect(() => {
+    subscribers.add(setRatings)
+    setRatings(cachedRatings)
+    return () => {
+      subscribers.delete(setRatings)
+    }
+  }, [])
+
+  // Recompute when the backfill finishes or fails, not on every indexed chunk
+  useEffect(() => {
+    if (!isSupported) return
+    loadRatings(indexer).catch(error => console.error('Error computing ratings:', error))
+  }, [indexer, isSupported, status.state])
+
+  useEffect(() => {
+    const handleEvents = (events: IndexedArenaEvent[]) => {
+      if (events.some(event => event.eventName === 'MatchCompleted')) {
+        loadRatings(indexer).catch(error => console.error('Error computing ratings:', error))
+      }
+    }
+
+    indexer.on('events', handleEvents)
+    return () => {
+      indexer.off('events', handleEvents)
+    }
+  }, [indexer])
+
+  // Unrated players start at the Glicko-2 defaults
+  const getRating = useCallback((address?: Address | null): PlayerRating => {
+    return (address && ratings.get(address.toLowerCase())) || createRating()
+  }, [ratings])
+
+  return { ratings, getRating }
+}
@@ -0,0 +1,152 @@
+// hooks/use-staking-pnl.ts
+"use client"
+
+import { useState, useEffect } from 'react'
+import { type Address, type Hash } from 'viem'
+import { useEventIndexer } from './use-event-indexer'
+import { useMatchHistory } from './use-match-history'
+import { contractService } from '@/lib/contract-service'
+import { MatchStatus, type TransactionCost } from '@/lib/Web3-Utils'
+import type { EventIndexer, IndexedMatch } from '@/lib/event-indexer'
+import { getPlatformFee, toPnlDay, type PnlMatchRecord, type PnlOutcome } from '@/lib/staking-pnl'
+
+// Mined transactions never change, so their costs and block times are read once per session
+const transactionCosts = new Map<Hash, Promise<TransactionCost>>()
+const blockTimestamps = new Map<bigint, Promise<number>>()
+
+const getTransactionCost = (hash: Hash): Promise<TransactionCost> => {
+  let cost = transactionCosts.get(hash)
+  if (!cost) {
+    cost = contractService.getTransactionCost(hash)
+    cost.catch(() => transactionCosts.delete(hash))
+    transactionCosts.set(hash, cost)
+  }
+  return cost
+}
+
+const getBlockTimestamp = (blockNumber: bigint): Promise<number> => {
+  let timestamp = blockTimestamps.get(blockNumber)
+  if (!timestamp) {
+    timestamp = contractService.getBlockTimestamp(blockNumber)
+    timestamp.catch(() => blockTimestamps.delete(blockNumber))
+    blockTimestamps.set(blockNumber, timestamp)
+  }
+  return timestamp
+}
+
+/**
+ * Where the match stands for this wallet. Matches without a winner are read from the contract,
+ * since an emergency cancel refunds stakes without emitting anything.
+ */
+const getOutcome = async (match: IndexedMatch, player: string): Promise<PnlOutcome> => {
+  if (match.winner) return match.winner.toLowerCase() === player ? 'won' : 'lost'
+
+  const onChain = await contractService.getMatch(match.matchId, 'background')
+  if (onChain.status === MatchStatus.COMPLETED) return 'refunded'
+  return onChain.status === MatchStatus.FINDING ? 'open' : 'ongoing'
+}
+
+const buildRecord = async (indexer: EventIndexer, match: IndexedMatch, address: Address): Promise<PnlMatchRecord | null> => {
+  const player = address.toLowerCase()
+  const isHost = match.player1.toLowerCase() === player
+  const stakeTx = isHost ? match.initiatedTx : match.joinedTx
+  if (!stakeTx) return null
+
+  const [outcome, moves] = await Promise.all([
+    getOutcome(match, player),
+    indexer.getMovesByMatch(match.matchId)
+  ])
+
+  // Gas is paid for the stake, each of this wallet's moves and a timeout claim
+  const paidTransactions = new Set<Hash>([stakeTx])
+  moves
+    .filter(move => move.player.toLowerCase() === player)
+    .forEach(move => paidTransactions.add(move.transactionHash))
+  if (match.timedOut && outcome === 'won' && match.completedTx) {
+    paidTransactions.add(match.completedTx)
+  }
+
+  const costs = await Promise.all(Array.from(paidTransactions).map(getTransactionCost))
+  const stakeCost = costs[0]
+  const timestamp = await getBlockTimestamp(stakeCost.blockNumber)
+
+  // initiateMatch(characterInstanceId) / joinMatch(matchId, characterInstanceId)
+  const characterArg = stakeCost.functionName === 'initiateMatch'
+    ? stakeCost.args?.[0]
+    : stakeCost.functionName === 'joinMatch' ? stakeCost.args?.[1] : undefined
+
+  const reward = outcome === 'won' ? match.reward ?? 0n : 0n
+
+  return {
+    matchId: match.matchId,
+    day: toPnlDay(timestamp),
+    timestamp,
+    characterInstanceId: characterArg !== undefined ? Number(characterArg) : null,
+    outcome,
+    stakeSent: stakeCost.value,
+    stakeRefunded: outcome === 'refunded' ? stakeCost.value : 0n,
+    reward,
+    platformFee: outcome === 'won' ? getPlatformFee(match.stake, reward) : 0n,
+    gasPaid: costs.reduce((total, cost) => total + cost.gasCost, 0n),
+    transactions: Array.from(paidTransactions)
+  }
+}
+
+// Hook for the staking profit and loss of an address, per match, built from indexed matches and transaction receipts
+export function useStakingPnl(address?: Address | null) {
+  const { indexer } = useEventIndexer()
+  const {
+    matches,
+    isLoading: isLoadingMatches,
+    error: historyError,
+    status,
+    isSupported,
+    isSynced,
+    refresh: refreshHistory
+  } = useMatchHistory(address)
+  const [records, setRecords] = useState<PnlMatchRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!address) {
+      setRecords([])
+      return
+    }
+
+    let cancelled = false
+
+    const loadRecords = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const built = await Promise.all(matches.map(match => buildRecord(indexer, match, address)))
+        if (!cancelled) {
+          setRecords(built.filter((record): record is PnlMatchRecord => record !== null))
+        }
+      } catch (err: any) {
+        console.error('Error building staking P&L:', err)
+        if (!cancelled) setError(err.message || 'Failed to load staking P&L')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadRecords()
+
+    return () => {
+      cancelled = true
+    }
+  }, [indexer, address, matches])
+
+  return {
+    records,
+    isLoading: isLoading || isLoadingMatches,
+    error: error || historyError,
+    status,
+    isSupported,
+    isSynced,
+    refresh: refreshHistory
+  }
+}
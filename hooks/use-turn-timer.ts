@@ -0,0 +1,65 @@
+// hooks/use-turn-timer.ts
+"use client"
+
+import { useState, useEffect } from 'react'
+import { contractService } from '@/lib/contract-service'
+import { GAME_CONSTANTS } from '@/lib/contract-config'
+import { MatchStatus, type Match } from '@/lib/Web3-Utils'
+
+export const TURN_WARNING_SECONDS = 5 * 60
+export const TURN_CRITICAL_SECONDS = 60
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000)
+
+// Countdown to the point where the player on turn can be timed out (BattleArena.TURN_TIMEOUT)
+export function useTurnTimer(match: Match | null) {
+  // Chain time minus local time, so the countdown follows block timestamps rather than the local clock
+  const [clockOffset, setClockOffset] = useState(0)
+  const [now, setNow] = useState(nowInSeconds)
+
+  const matchId = match?.id ?? null
+  const lastMoveTimestamp = match?.lastMoveTimestamp ?? null
+  const deadline = match && match.status === MatchStatus.ONGOING
+    ? match.lastMoveTimestamp + GAME_CONSTANTS.TURN_TIMEOUT
+    : null
+
+  // Re-sync against getTimeLeftForCurrentTurn whenever a new turn starts
+  useEffect(() => {
+    if (matchId === null || deadline === null) return
+
+    let cancelled = false
+
+    contractService.getTimeLeftForCurrentTurn(matchId)
+      .then(timeLeft => {
+        if (cancelled) return
+        const localNow = nowInSeconds()
+        // Zero only tells us the deadline has passed on chain, so make sure we show it as passed
+        setClockOffset(prev => timeLeft === 0
+          ? Math.max(prev, deadline - localNow)
+          : deadline - timeLeft - localNow
+        )
+      })
+      .catch(err => console.warn('Could not read turn time from contract:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [matchId, lastMoveTimestamp, deadline])
+
+  useEffect(() => {
+    if (deadline === null) return
+
+    setNow(nowInSeconds())
+    const interval = setInterval(() => setNow(nowInSeconds()), 1000)
+    return () => clearInterval(interval)
+  }, [deadline])
+
+  const timeLeft = deadline === null ? null : Math.max(0, deadline - (now + clockOffset))
+
+  return {
+    timeLeft,
+    isExpired: timeLeft === 0,
+    isWarning: timeLeft !== null && timeLeft <= TURN_WARNING_SECONDS,
+    isCritical: timeLeft !== null && timeLeft <= TURN_CRITICAL_SECONDS
+  }
+}
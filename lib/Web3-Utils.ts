@@ -1,6 +1,8 @@
 // lib/web3-utils.ts
-import { type Address, parseEther, formatEther } from 'viem'
+import { type Address, type Hash, parseEther, formatEther, formatGwei } from 'viem'
 import { etherlink } from './web3-config'
+import { calculateDamage as calculateBattleDamage } from './battle-engine'
+import { decodeArenaError } from './arena-errors'
 
 // Type definitions for contract data
 export interface CharacterType {
@@ -61,6 +63,29 @@ export interface MatchCharacters {
   char2Mana: number
 }
 
+// What a mined transaction cost its sender, from the transaction and its receipt
+export interface TransactionCost {
+  hash: Hash
+  from: Address
+  value: bigint
+  gasUsed: bigint
+  effectiveGasPrice: bigint
+  gasCost: bigint
+  blockNumber: bigint
+  succeeded: boolean
+  functionName?: string
+  args?: readonly unknown[]
+}
+
+// Fees per gas for a new transaction. Legacy chains report their gas price as the base fee
+// with no priority fee. The sender expects to pay base + priority but must hold enough for maxFeePerGas.
+export interface FeeData {
+  type: 'eip1559' | 'legacy'
+  baseFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  maxFeePerGas: bigint
+}
+
 export enum MatchStatus {
   FINDING = 0,
   ONGOING = 1,
@@ -83,6 +108,13 @@ export class Web3Utils {
     return formatEther(amount)
   }
 
+  /**
+   * Format wei as gwei, for fees per gas
+   */
+  static formatGwei(amount: bigint): string {
+    return formatGwei(amount)
+  }
+
   /**
    * Format address for display (0x1234...5678)
    */
@@ -218,46 +250,7 @@ export class Web3Utils {
    * Parse contract error messages into user-friendly strings
    */
   static parseContractError(error: any): string {
-    if (error?.message) {
-      // Extract revert reason if available
-      const revertMatch = error.message.match(/reverted with reason string '([^']+)'/)
-      if (revertMatch) {
-        return revertMatch[1]
-      }
-
-      // Handle "execution reverted for unknown reason" - common in race conditions
-      if (error.message.includes('Execution reverted for an unknown reason') || 
-          (error.message.includes('execution reverted') && error.message.includes('unknown reason'))) {
-        return 'Transaction failed due to changing contract state. The match may have been filled by another player or is no longer available.'
-      }
-
-      // Handle OutOfFund error specifically
-      if (error.message.includes('OutOfFund') || error.message.includes('The transaction failed: Error(OutOfFund)')) {
-        return 'Insufficient funds in wallet. Please add more ETH to cover gas fees and stake amount.'
-      }
-
-      // Handle limit exceeded errors (often related to insufficient balance)
-      if (error.message.includes('Request exceeds defined limit') || error.message.includes('LimitExceededRpcError')) {
-        return 'Transaction exceeds limit, likely due to insufficient funds. Please check your balance and try again.'
-      }
-
-      // Common error patterns
-      if (error.message.includes('insufficient funds')) {
-        return 'Insufficient funds for transaction'
-      }
-      if (error.message.includes('user rejected')) {
-        return 'Transaction rejected by user'
-      }
-      if (error.message.includes('nonce too low')) {
-        return 'Transaction nonce too low'
-      }
-      if (error.message.includes('gas limit')) {
-        return 'Gas limit exceeded'
-      }
-
-      return error.message
-    }
-    return 'Unknown contract error'
+    return decodeArenaError(error).message
   }
 
   /**
@@ -313,7 +306,7 @@ export class Web3Utils {
   }
 
   /**
-   * Calculate damage with level and defense modifiers
+   * Calculate damage with level and defense modifiers (same integer math as the contract)
    */
   static calculateDamage(
     baseDamage: number,
@@ -321,14 +314,6 @@ export class Web3Utils {
     defenderDefense: number,
     defenderLevel: number
   ): number {
-    const levelBonus = (attackerLevel - 1) * 2
-    const totalDamage = baseDamage + levelBonus
-    
-    // Apply defense (max 80% reduction)
-    const totalDefense = defenderDefense + (defenderLevel - 1) * 5
-    const defenseReduction = Math.min(80, (totalDefense * 100) / totalDamage)
-    
-    const finalDamage = totalDamage * (100 - defenseReduction) / 100
-    return Math.max(1, Math.floor(finalDamage)) // Minimum 1 damage
+    return calculateBattleDamage(baseDamage, attackerLevel, { baseDefense: defenderDefense }, defenderLevel)
   }
 }
\ No newline at end of file
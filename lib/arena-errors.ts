@@ -0,0 +1,439 @@
+// lib/arena-errors.ts - Typed errors for BattleArena reverts and wallet failures
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  LimitExceededRpcError,
+  UserRejectedRequestError,
+  InsufficientFundsError,
+  NonceTooLowError,
+  IntrinsicGasTooLowError,
+  IntrinsicGasTooHighError
+} from 'viem'
+
+export type ArenaErrorCode =
+  // require() messages in BattleArena
+  | 'NOT_CHARACTER_OWNER'
+  | 'MATCH_NOT_FOUND'
+  | 'NOT_MATCH_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'INVALID_CHARACTER_TYPE'
+  | 'CHARACTER_TYPE_NOT_FOUND'
+  | 'CHARACTERS_FREE'
+  | 'CHARACTER_MAX_LEVEL'
+  | 'NOT_ENOUGH_EXPERIENCE'
+  | 'ZERO_STAKE'
+  | 'CHARACTER_NOT_FOUND'
+  | 'MATCH_NOT_AVAILABLE'
+  | 'OWN_MATCH'
+  | 'INCORRECT_STAKE'
+  | 'INVALID_ABILITY'
+  | 'MATCH_NOT_ONGOING'
+  | 'ABILITY_ON_COOLDOWN'
+  | 'NOT_ENOUGH_MANA'
+  | 'TIMEOUT_ON_OWN_TURN'
+  | 'TIMEOUT_NOT_REACHED'
+  | 'WINNER_PAYMENT_FAILED'
+  | 'CHARACTER_HIDDEN_IN_MATCHMAKING'
+  | 'FEE_TOO_HIGH'
+  | 'NO_FEES'
+  | 'WITHDRAWAL_FAILED'
+  | 'MATCH_NOT_STUCK'
+  | 'REFUND_FAILED'
+  // Inherited OpenZeppelin guards
+  | 'CONTRACT_PAUSED'
+  | 'CONTRACT_NOT_PAUSED'
+  | 'NOT_OWNER'
+  | 'REENTRANT_CALL'
+  // Wallet and node failures
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'NONCE_TOO_LOW'
+  | 'GAS_LIMIT'
+  | 'RATE_LIMITED'
+  | 'STATE_CHANGED'
+  // A revert this table doesn't recognise
+  | 'UNKNOWN_REVERT'
+  | 'UNKNOWN'
+
+export type ArenaRecoveryAction =
+  | 'retry'
+  | 'wait'
+  | 'refresh'
+  | 'choose-another-match'
+  | 'choose-another-character'
+  | 'switch-ability'
+  | 'fix-input'
+  | 'add-funds'
+  | 'switch-account'
+  | 'none'
+
+interface ArenaErrorDefinition {
+  // Revert reasons (Error(string) text or custom error names) that decode to this code
+  reasons: string[]
+  message: string
+  hint: string
+  action: ArenaRecoveryAction
+}
+
+export const ARENA_PAUSED_MESSAGE = 'The arena is paused by its operators. Character purchases, matches and moves are disabled until it resumes.'
+
+const ARENA_ERRORS: Record<ArenaErrorCode, ArenaErrorDefinition> = {
+  NOT_CHARACTER_OWNER: {
+    reasons: ['Not character instance owner'],
+    message: 'You do not own this character',
+    hint: 'Pick one of the characters held by the connected wallet.',
+    action: 'choose-another-character'
+  },
+  MATCH_NOT_FOUND: {
+    reasons: ['Match does not exist'],
+    message: 'This match does not exist',
+    hint: 'The match id is unknown to the contract. Refresh the lobby for current matches.',
+    action: 'refresh'
+  },
+  NOT_MATCH_PLAYER: {
+    reasons: ['Not a player in this match'],
+    message: 'You are not a player in this match',
+    hint: 'Only the two players of a match can move in it. Check the connected wallet.',
+    action: 'switch-account'
+  },
+  NOT_YOUR_TURN: {
+    reasons: ['Not your turn'],
+    message: 'It is not your turn',
+    hint: 'Wait for your opponent to move. The battle view updates when their move lands.',
+    action: 'wait'
+  },
+  INVALID_CHARACTER_TYPE: {
+    reasons: ['Invalid character type'],
+    message: 'Invalid character type',
+    hint: 'Choose one of the listed character types.',
+    action: 'fix-input'
+  },
+  CHARACTER_TYPE_NOT_FOUND: {
+    reasons: ['Character type does not exist'],
+    message: 'This character type does not exist',
+    hint: 'Refresh the character list and choose an available type.',
+    action: 'refresh'
+  },
+  CHARACTERS_FREE: {
+    reasons: ['Characters are currently free'],
+    message: 'Characters are currently free',
+    hint: 'Acquire the character without sending ETH.',
+    action: 'retry'
+  },
+  CHARACTER_MAX_LEVEL: {
+    reasons: ['Character at max level'],
+    message: 'This character is already at max level',
+    hint: 'Level up a different character instead.',
+    action: 'choose-another-character'
+  },
+  NOT_ENOUGH_EXPERIENCE: {
+    reasons: ['Not enough experience'],
+    message: 'Not enough experience to level up',
+    hint: 'Win more staked matches with this character to earn experience.',
+    action: 'none'
+  },
+  ZERO_STAKE: {
+    reasons: ['Stake must be greater than 0'],
+    message: 'Stake must be greater than 0',
+    hint: 'Enter a stake above zero.',
+    action: 'fix-input'
+  },
+  CHARACTER_NOT_FOUND: {
+    reasons: ['Character instance does not exist'],
+    message: 'This character does not exist',
+    hint: 'Refresh your characters and pick one you own.',
+    action: 'refresh'
+  },
+  MATCH_NOT_AVAILABLE: {
+    reasons: ['Match not available'],
+    message: 'This match is no longer available',
+    hint: 'Another player may have just joined it, or it was cancelled. Pick another open match.',
+    action: 'choose-another-match'
+  },
+  OWN_MATCH: {
+    reasons: ['Cannot join own match'],
+    message: 'You cannot join your own match',
+    hint: 'Wait for an opponent to join it, or join someone else\'s match.',
+    action: 'choose-another-match'
+  },
+  INCORRECT_STAKE: {
+    reasons: ['Incorrect stake amount'],
+    message: 'The stake does not match this match',
+    hint: 'Refresh the lobby so the join sends the match\'s exact stake.',
+    action: 'refresh'
+  },
+  INVALID_ABILITY: {
+    reasons: ['Invalid ability index'],
+    message: 'Invalid ability',
+    hint: 'Choose one of your character\'s abilities.',
+    action: 'switch-ability'
+  },
+  MATCH_NOT_ONGOING: {
+    reasons: ['Match not ongoing'],
+    message: 'This match is not in progress',
+    hint: 'It has not started yet or has already ended. Refresh to see its current state.',
+    action: 'refresh'
+  },
+  ABILITY_ON_COOLDOWN: {
+    reasons: ['Ability on cooldown'],
+    message: 'That ability is on cooldown',
+    hint: 'Use another ability this turn.',
+    action: 'switch-ability'
+  },
+  NOT_ENOUGH_MANA: {
+    reasons: ['Not enough mana'],
+    message: 'Not enough mana for that ability',
+    hint: 'Pick a cheaper ability. Mana regenerates every turn.',
+    action: 'switch-ability'
+  },
+  TIMEOUT_ON_OWN_TURN: {
+    reasons: ['It\'s your turn, cannot claim timeout'],
+    message: 'It is your turn, so you cannot claim a timeout',
+    hint: 'Make your move instead.',
+    action: 'none'
+  },
+  TIMEOUT_NOT_REACHED: {
+    reasons: ['Timeout period not reached'],
+    message: 'Your opponent still has time to move',
+    hint: 'A timeout can only be claimed once the turn timer has run out.',
+    action: 'wait'
+  },
+  WINNER_PAYMENT_FAILED: {
+    reasons: ['Winner payment failed'],
+    message: 'The reward payment to the winner failed',
+    hint: 'The match could not pay out. Try again in a moment.',
+    action: 'retry'
+  },
+  CHARACTER_HIDDEN_IN_MATCHMAKING: {
+    reasons: ['Character information not available during matchmaking'],
+    message: 'Match characters are hidden until an opponent joins',
+    hint: 'Characters are revealed once the match starts.',
+    action: 'wait'
+  },
+  FEE_TOO_HIGH: {
+    reasons: ['Fee cannot exceed 10%'],
+    message: 'The platform fee cannot exceed 10%',
+    hint: 'Enter a fee of at most 1000 basis points.',
+    action: 'fix-input'
+  },
+  NO_FEES: {
+    reasons: ['No fees to withdraw'],
+    message: 'There are no fees to withdraw',
+    hint: 'The contract balance is empty.',
+    action: 'none'
+  },
+  WITHDRAWAL_FAILED: {
+    reasons: ['Withdrawal failed'],
+    message: 'The fee withdrawal failed',
+    hint: 'The owner address rejected the transfer. Try again.',
+    action: 'retry'
+  },
+  MATCH_NOT_STUCK: {
+    reasons: ['Match not stuck long enough'],
+    message: 'This match cannot be cancelled yet',
+    hint: 'Emergency cancellation opens 10 days after the match was created.',
+    action: 'wait'
+  },
+  REFUND_FAILED: {
+    reasons: ['Refund failed'],
+    message: 'Refunding the players failed',
+    hint: 'A player address rejected the refund. Try again.',
+    action: 'retry'
+  },
+  CONTRACT_PAUSED: {
+    reasons: ['Pausable: paused', 'EnforcedPause'],
+    message: ARENA_PAUSED_MESSAGE,
+    hint: 'Wait for the operators to resume the arena.',
+    action: 'wait'
+  },
+  CONTRACT_NOT_PAUSED: {
+    reasons: ['Pausable: not paused', 'ExpectedPause'],
+    message: 'The arena is not paused',
+    hint: 'Refresh to see the arena\'s current state.',
+    action: 'refresh'
+  },
+  NOT_OWNER: {
+    reasons: ['Ownable: caller is not the owner', 'OwnableUnauthorizedAccount'],
+    message: 'Only the contract owner can do this',
+    hint: 'Connect the owner wallet.',
+    action: 'switch-account'
+  },
+  REENTRANT_CALL: {
+    reasons: ['ReentrancyGuard: reentrant call', 'ReentrancyGuardReentrantCall'],
+    message: 'Reentrant call rejected',
+    hint: 'Send the transaction again on its own.',
+    action: 'retry'
+  },
+  USER_REJECTED: {
+    reasons: [],
+    message: 'Transaction rejected by user',
+    hint: 'Approve the transaction in your wallet to continue.',
+    action: 'retry'
+  },
+  INSUFFICIENT_FUNDS: {
+    reasons: ['OutOfFund'],
+    message: 'Insufficient funds in wallet',
+    hint: 'Add ETH to cover the stake and gas fees.',
+    action: 'add-funds'
+  },
+  NONCE_TOO_LOW: {
+    reasons: [],
+    message: 'Transaction nonce too low',
+    hint: 'A previous transaction from this wallet was already mined. Send it again.',
+    action: 'retry'
+  },
+  GAS_LIMIT: {
+    reasons: [],
+    message: 'Gas limit exceeded',
+    hint: 'Try again. The network may be congested.',
+    action: 'retry'
+  },
+  RATE_LIMITED: {
+    reasons: [],
+    message: 'The network is rate limiting requests',
+    hint: 'The RPC node is busy. Wait a moment and try again.',
+    action: 'wait'
+  },
+  STATE_CHANGED: {
+    reasons: [],
+    message: 'Transaction failed due to changing contract state',
+    hint: 'The match may have been filled by another player or is no longer available. Refresh and try again.',
+    action: 'refresh'
+  },
+  UNKNOWN_REVERT: {
+    reasons: [],
+    message: 'The contract rejected the transaction',
+    hint: 'The contract reverted without a reason this app recognises. Refresh and try again.',
+    action: 'refresh'
+  },
+  UNKNOWN: {
+    reasons: [],
+    message: 'Unknown contract error',
+    hint: 'Try again.',
+    action: 'retry'
+  }
+}
+
+const CODE_BY_REASON = new Map<string, ArenaErrorCode>(
+  (Object.keys(ARENA_ERRORS) as ArenaErrorCode[]).flatMap(code =>
+    ARENA_ERRORS[code].reasons.map(reason => [reason, code] as [string, ArenaErrorCode])
+  )
+)
+
+export class ArenaError extends Error {
+  readonly code: ArenaErrorCode
+  readonly hint: string
+  readonly action: ArenaRecoveryAction
+  // The decoded revert reason or custom error name, when the contract reverted
+  readonly revertReason?: string
+
+  constructor(
+    code: ArenaErrorCode,
+    options: { message?: string; revertReason?: string; cause?: unknown } = {}
+  ) {
+    const definition = ARENA_ERRORS[code]
+    super(options.message ?? definition.message, { cause: options.cause })
+    this.name = 'ArenaError'
+    this.code = code
+    this.hint = definition.hint
+    this.action = definition.action
+    this.revertReason = options.revertReason
+  }
+}
+
+/**
+ * Decode anything thrown by viem, the wallet or the contract into an ArenaError.
+ * Reverts are read from viem's decoded ContractFunctionRevertedError; the message
+ * text is only consulted for errors that arrive without one.
+ */
+export function decodeArenaError(error: unknown): ArenaError {
+  if (error instanceof ArenaError) return error
+
+  if (error instanceof BaseError) {
+    const reverted = error.walk(err => err instanceof ContractFunctionRevertedError)
+    if (reverted instanceof ContractFunctionRevertedError) {
+      const reason = reverted.reason ?? reverted.data?.errorName
+      const code = reason ? CODE_BY_REASON.get(reason) : undefined
+      if (code) return new ArenaError(code, { revertReason: reason, cause: error })
+      if (reason) return new ArenaError('UNKNOWN_REVERT', { message: reason, revertReason: reason, cause: error })
+      // A custom error missing from the ABI only decodes as far as its selector
+      return new ArenaError('UNKNOWN_REVERT', { revertReason: reverted.signature, cause: error })
+    }
+
+    // Node-side throttling: worth retrying, and nothing to do with the wallet's balance
+    if (error.walk(err => err instanceof LimitExceededRpcError || (err instanceof HttpRequestError && err.status === 429))) {
+      return new ArenaError('RATE_LIMITED', { cause: error })
+    }
+
+    if (error.walk(err => err instanceof UserRejectedRequestError)) {
+      return new ArenaError('USER_REJECTED', { cause: error })
+    }
+    if (error.walk(err => err instanceof InsufficientFundsError)) {
+      return new ArenaError('INSUFFICIENT_FUNDS', { cause: error })
+    }
+    if (error.walk(err => err instanceof NonceTooLowError)) {
+      return new ArenaError('NONCE_TOO_LOW', { cause: error })
+    }
+    if (error.walk(err => err instanceof IntrinsicGasTooLowError || err instanceof IntrinsicGasTooHighError)) {
+      return new ArenaError('GAS_LIMIT', { cause: error })
+    }
+  }
+
+  return decodeFromMessage(error)
+}
+
+// Fallback for errors that lost their structure, e.g. re-thrown as plain Errors or from the wallet provider
+function decodeFromMessage(error: unknown): ArenaError {
+  const message = String((error as any)?.message ?? '')
+  if (!message) return new ArenaError('UNKNOWN', { cause: error })
+
+  const quoted = message.match(/reverted with (?:the following )?reason(?: string)?:?\s*'?([^'\n]+)'?/)
+  const quotedReason = quoted?.[1].trim()
+  if (quotedReason && CODE_BY_REASON.has(quotedReason)) {
+    return new ArenaError(CODE_BY_REASON.get(quotedReason)!, { revertReason: quotedReason, cause: error })
+  }
+
+  for (const [reason, code] of CODE_BY_REASON) {
+    if (message.includes(reason)) {
+      return new ArenaError(code, { revertReason: reason, cause: error })
+    }
+  }
+
+  if (/execution reverted/i.test(message) && /unknown reason/i.test(message)) {
+    return new ArenaError('UNKNOWN_REVERT', { cause: error })
+  }
+  if (message.includes('Request exceeds defined limit') || message.includes('LimitExceededRpcError')) {
+    return new ArenaError('RATE_LIMITED', { cause: error })
+  }
+  if (message.includes('insufficient funds')) {
+    return new ArenaError('INSUFFICIENT_FUNDS', { cause: error })
+  }
+  if (/user (rejected|denied)/i.test(message)) {
+    return new ArenaError('USER_REJECTED', { cause: error })
+  }
+  if (message.includes('nonce too low')) {
+    return new ArenaError('NONCE_TOO_LOW', { cause: error })
+  }
+  if (message.includes('gas limit')) {
+    return new ArenaError('GAS_LIMIT', { cause: error })
+  }
+
+  return new ArenaError('UNKNOWN', { message, cause: error })
+}
+
+/**
+ * True when the error decodes to one of the given codes
+ */
+export function isArenaError(error: unknown, ...codes: ArenaErrorCode[]): boolean {
+  if (error === null || error === undefined) return false
+  return codes.includes(decodeArenaError(error).code)
+}
+
+/**
+ * Message and recovery hint as one line, for banners and battle logs
+ */
+export function describeArenaError(error: unknown): string {
+  const { message, hint } = decodeArenaError(error)
+  return `${message.replace(/\.$/, '')}. ${hint}`
+}
@@ -0,0 +1,76 @@
+// lib/arena-queries.ts - Query keys, options and the shared cache for contract reads
+import { QueryClient, queryOptions } from '@tanstack/react-query'
+import { type Address } from 'viem'
+import { contractService } from './contract-service'
+import type { RpcPriority } from './rpc-scheduler'
+import type { Match } from './Web3-Utils'
+
+// Character types only change when the owner adds one; player and match data move with every game
+const CHARACTER_TYPES_STALE_MS = 10 * 60 * 1000
+export const PLAYER_STALE_MS = 30 * 1000
+const MATCH_STALE_MS = 5 * 1000
+
+// Every arena query lives under ['arena'], so prefixes can invalidate whole groups.
+// A match's character states sit under its key, so invalidating the match refreshes both.
+export const arenaQueryKeys = {
+  all: ['arena'] as const,
+  characterTypes: () => ['arena', 'characterTypes'] as const,
+  playerProfiles: () => ['arena', 'playerProfile'] as const,
+  playerProfile: (address: Address) => ['arena', 'playerProfile', address.toLowerCase()] as const,
+  ownedCharacterLists: () => ['arena', 'ownedCharacters'] as const,
+  ownedCharacters: (address: Address) => ['arena', 'ownedCharacters', address.toLowerCase()] as const,
+  characterInstances: () => ['arena', 'characterInstance'] as const,
+  characterInstance: (characterInstanceId: number) => ['arena', 'characterInstance', characterInstanceId] as const,
+  match: (matchId: number) => ['arena', 'match', matchId] as const,
+  matchCharacters: (matchId: number) => ['arena', 'match', matchId, 'characters'] as const
+}
+
+// One cache for the React tree and the services outside it
+export const arenaQueryClient = new QueryClient()
+
+export const characterTypesQuery = () => queryOptions({
+  queryKey: arenaQueryKeys.characterTypes(),
+  queryFn: () => contractService.getAllCharacterTypes(),
+  staleTime: CHARACTER_TYPES_STALE_MS
+})
+
+export const playerProfileQuery = (address: Address) => queryOptions({
+  queryKey: arenaQueryKeys.playerProfile(address),
+  queryFn: () => contractService.getPlayerProfile(address),
+  staleTime: PLAYER_STALE_MS
+})
+
+export const characterInstanceQuery = (characterInstanceId: number) => queryOptions({
+  queryKey: arenaQueryKeys.characterInstance(characterInstanceId),
+  queryFn: () => contractService.getCharacterInstance(characterInstanceId, 'battle'),
+  staleTime: PLAYER_STALE_MS
+})
+
+export const matchQuery = (matchId: number, priority: RpcPriority = 'battle') => queryOptions({
+  queryKey: arenaQueryKeys.match(matchId),
+  queryFn: () => contractService.getMatch(matchId, priority),
+  staleTime: MATCH_STALE_MS
+})
+
+export const matchCharactersQuery = (matchId: number) => queryOptions({
+  queryKey: arenaQueryKeys.matchCharacters(matchId),
+  queryFn: () => contractService.getMatchCharacters(matchId),
+  staleTime: MATCH_STALE_MS
+})
+
+/**
+ * Read a match from the contract now, sharing a read already in flight and updating the cache.
+ * For state checks right after a transaction or event, where a cached copy could be stale.
+ */
+export function fetchFreshMatch(matchId: number, priority: RpcPriority = 'battle'): Promise<Match> {
+  return arenaQueryClient.fetchQuery({ ...matchQuery(matchId, priority), staleTime: 0 })
+}
+
+/**
+ * Store matches read in a batch, so single-match readers start from them
+ */
+export function seedMatches(matches: Match[]): void {
+  for (const match of matches) {
+    arenaQueryClient.setQueryData(arenaQueryKeys.match(match.id), match)
+  }
+}
@@ -0,0 +1,281 @@
+// lib/battle-engine.ts - Pure TypeScript mirror of BattleArena combat rules
+import type { Address } from 'viem'
+import { GAME_CONSTANTS } from './contract-config'
+import type { ContractCharacterType } from './game-types'
+import type { CharacterInstance } from './Web3-Utils'
+
+// Ability name keywords that turn an ability into a self-heal (BattleArena._isHealingAbility)
+export const HEALING_KEYWORDS = [
+  'Heal',
+  'Shield',
+  'Armor',
+  'Restoration',
+  'Regeneration',
+  'Blessing',
+  'Drain',
+  'Embrace',
+  'Divine'
+] as const
+
+export type BattleCharacterType = Pick<ContractCharacterType, 'id' | 'baseHealth' | 'baseMana' | 'baseDefense' | 'abilities'>
+
+export type BattleCharacterInstance = Pick<CharacterInstance, 'id' | 'characterTypeId' | 'level'>
+
+export interface BattleFighter {
+  player: Address
+  instance: BattleCharacterInstance
+  characterType: BattleCharacterType
+  currentHealth: number
+  currentMana: number
+  // Turn number at which each ability becomes usable again (CharacterInMatch.abilityCooldowns)
+  abilityCooldowns: number[]
+}
+
+export interface BattleState {
+  fighters: [BattleFighter, BattleFighter]
+  currentTurn: Address
+  turnCount: number
+  isOver: boolean
+  winner: Address | null
+}
+
+export interface MoveOutcome {
+  state: BattleState
+  abilityIndex: number
+  abilityName: string
+  isHealing: boolean
+  // Damage as emitted by MoveMade (always 0 for healing abilities)
+  damage: number
+  healed: number
+  manaSpent: number
+  manaRegenerated: number
+  winner: Address | null
+  // True when the match ended through the both-zero-mana rule rather than a knockout
+  emergencyWin: boolean
+}
+
+export type MoveValidation = { isValid: true } | { isValid: false; error: string }
+
+const sameAddress = (a?: string | null, b?: string | null): boolean =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+/**
+ * Max health at level (BattleArena._getCharacterHealth)
+ */
+export function getMaxHealth(characterType: Pick<BattleCharacterType, 'baseHealth'>, level: number): number {
+  return characterType.baseHealth + (level - 1) * 20
+}
+
+/**
+ * Max mana at level (BattleArena._getCharacterMana)
+ */
+export function getMaxMana(characterType: Pick<BattleCharacterType, 'baseMana'>, level: number): number {
+  return characterType.baseMana + (level - 1) * 10
+}
+
+/**
+ * Total defense at level, as used by _calculateDamage and getCharacterInstance
+ */
+export function getDefense(characterType: Pick<BattleCharacterType, 'baseDefense'>, level: number): number {
+  return characterType.baseDefense + (level - 1) * 5
+}
+
+/**
+ * Case-sensitive keyword check (BattleArena._isHealingAbility)
+ */
+export function isHealingAbility(abilityName: string): boolean {
+  return HEALING_KEYWORDS.some(keyword => abilityName.includes(keyword))
+}
+
+/**
+ * Damage dealt by an attack, using the contract's integer arithmetic (BattleArena._calculateDamage)
+ */
+export function calculateDamage(
+  baseDamage: number,
+  attackerLevel: number,
+  defenderType: Pick<BattleCharacterType, 'baseDefense'>,
+  defenderLevel: number
+): number {
+  const levelBonus = (attackerLevel - 1) * 2
+  const totalDamage = baseDamage + levelBonus
+
+  // Defense reduces damage by a percentage, capped at 80%
+  const totalDefense = getDefense(defenderType, defenderLevel)
+  const defenseReduction = Math.min(80, Math.floor((totalDefense * 100) / totalDamage))
+
+  const finalDamage = Math.floor((totalDamage * (100 - defenseReduction)) / 100)
+  return finalDamage > 0 ? finalDamage : 1
+}
+
+/**
+ * Fighter state right after initiateMatch/joinMatch
+ */
+export function createFighter(
+  player: Address,
+  instance: BattleCharacterInstance,
+  characterType: BattleCharacterType
+): BattleFighter {
+  return {
+    player,
+    instance,
+    characterType,
+    currentHealth: getMaxHealth(characterType, instance.level),
+    currentMana: getMaxMana(characterType, instance.level),
+    abilityCooldowns: new Array(GAME_CONSTANTS.ABILITIES_PER_CHARACTER).fill(0)
+  }
+}
+
+/**
+ * Battle state right after joinMatch: player 1 moves first on turn 0
+ */
+export function createBattleState(player1: BattleFighter, player2: BattleFighter): BattleState {
+  return {
+    fighters: [player1, player2],
+    currentTurn: player1.player,
+    turnCount: 0,
+    isOver: false,
+    winner: null
+  }
+}
+
+/**
+ * Index (0 or 1) of the fighter controlled by the given address, or -1
+ */
+export function getFighterIndex(state: BattleState, player: Address): number {
+  return state.fighters.findIndex(fighter => sameAddress(fighter.player, player))
+}
+
+/**
+ * Whether the ability is off cooldown on the current turn
+ */
+export function isAbilityReady(state: BattleState, fighter: BattleFighter, abilityIndex: number): boolean {
+  return (fighter.abilityCooldowns[abilityIndex] ?? 0) <= state.turnCount
+}
+
+/**
+ * Turns left before the ability can be used again (0 when ready)
+ */
+export function getCooldownRemaining(state: BattleState, fighter: BattleFighter, abilityIndex: number): number {
+  return Math.max(0, (fighter.abilityCooldowns[abilityIndex] ?? 0) - state.turnCount)
+}
+
+/**
+ * Run the same checks as makeMove, in the same order, returning the revert reason on failure
+ */
+export function validateMove(state: BattleState, player: Address, abilityIndex: number): MoveValidation {
+  const fighterIndex = getFighterIndex(state, player)
+  if (fighterIndex === -1) {
+    return { isValid: false, error: 'Not a player in this match' }
+  }
+  if (!sameAddress(state.currentTurn, player)) {
+    return { isValid: false, error: 'Not your turn' }
+  }
+  if (!Number.isInteger(abilityIndex) || abilityIndex < 0 || abilityIndex >= GAME_CONSTANTS.ABILITIES_PER_CHARACTER) {
+    return { isValid: false, error: 'Invalid ability index' }
+  }
+  if (state.isOver) {
+    return { isValid: false, error: 'Match not ongoing' }
+  }
+
+  const attacker = state.fighters[fighterIndex]
+  const ability = attacker.characterType.abilities[abilityIndex]
+
+  if (!isAbilityReady(state, attacker, abilityIndex)) {
+    return { isValid: false, error: 'Ability on cooldown' }
+  }
+  if (attacker.currentMana < ability.manaCost) {
+    return { isValid: false, error: 'Not enough mana' }
+  }
+
+  return { isValid: true }
+}
+
+/**
+ * Apply a move exactly as BattleArena.makeMove would, returning the new state.
+ * The input state is left untouched. Throws with the contract's revert reason
+ * when the move would revert on chain.
+ */
+export function applyMove(state: BattleState, player: Address, abilityIndex: number): MoveOutcome {
+  const validation = validateMove(state, player, abilityIndex)
+  if (!validation.isValid) {
+    throw new Error(validation.error)
+  }
+
+  const attackerIndex = getFighterIndex(state, player)
+  const defenderIndex = attackerIndex === 0 ? 1 : 0
+  const attacker: BattleFighter = { ...state.fighters[attackerIndex], abilityCooldowns: [...state.fighters[attackerIndex].abilityCooldowns] }
+  const defender: BattleFighter = { ...state.fighters[defenderIndex], abilityCooldowns: [...state.fighters[defenderIndex].abilityCooldowns] }
+  const ability = attacker.characterType.abilities[abilityIndex]
+
+  // Consume mana and set cooldown
+  attacker.currentMana -= ability.manaCost
+  attacker.abilityCooldowns[abilityIndex] = state.turnCount + ability.cooldown
+
+  const isHealing = isHealingAbility(ability.name)
+  let damage = 0
+  let healed = 0
+
+  if (isHealing) {
+    const maxHealth = getMaxHealth(attacker.characterType, attacker.instance.level)
+    const newHealth = Math.min(maxHealth, attacker.currentHealth + ability.baseDamage)
+    healed = newHealth - attacker.currentHealth
+    attacker.currentHealth = newHealth
+  } else {
+    damage = calculateDamage(
+      ability.baseDamage,
+      attacker.instance.level,
+      defender.characterType,
+      defender.instance.level
+    )
+    defender.currentHealth = damage >= defender.currentHealth ? 0 : defender.currentHealth - damage
+  }
+
+  const fighters: [BattleFighter, BattleFighter] = attackerIndex === 0 ? [attacker, defender] : [defender, attacker]
+  let nextState: BattleState = { ...state, fighters }
+  let manaRegenerated = 0
+  let emergencyWin = false
+
+  if (defender.currentHealth === 0) {
+    // Knockout: _endMatch runs before any turn switch or mana regen
+    nextState = { ...nextState, isOver: true, winner: attacker.player }
+  } else {
+    // _handleTurnSwitch
+    const maxMana = getMaxMana(attacker.characterType, attacker.instance.level)
+    const regenMana = Math.min(maxMana, attacker.currentMana + GAME_CONSTANTS.MANA_REGEN_PER_TURN)
+    manaRegenerated = regenMana - attacker.currentMana
+    attacker.currentMana = regenMana
+
+    nextState = {
+      ...nextState,
+      currentTurn: defender.player,
+      turnCount: state.turnCount + 1
+    }
+
+    // Emergency win when both players are out of mana: higher health wins, ties go to the defender
+    if (attacker.currentMana === 0 && defender.currentMana === 0) {
+      emergencyWin = true
+      const emergencyWinner = attacker.currentHealth > defender.currentHealth ? attacker.player : defender.player
+      nextState = { ...nextState, isOver: true, winner: emergencyWinner }
+    }
+  }
+
+  return {
+    state: nextState,
+    abilityIndex,
+    abilityName: ability.name,
+    isHealing,
+    damage,
+    healed,
+    manaSpent: ability.manaCost,
+    manaRegenerated,
+    winner: nextState.winner,
+    emergencyWin
+  }
+}
+
+/**
+ * Predict the outcome of a move without throwing; returns null if the move would revert
+ */
+export function predictMove(state: BattleState, player: Address, abilityIndex: number): MoveOutcome | null {
+  return validateMove(state, player, abilityIndex).isValid ? applyMove(state, player, abilityIndex) : null
+}
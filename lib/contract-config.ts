@@ -1,5 +1,5 @@
 // lib/contract-config.ts
-import { type Address } from 'viem'
+import { type Address, formatEther, parseEther } from 'viem'
 
 // Contract Address Configuration
 export const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as Address
@@ -31,6 +31,16 @@ export const BATTLE_ARENA_ABI =
 		"stateMutability": "nonpayable",
 		"type": "constructor"
 	},
+	{
+		"inputs": [],
+		"name": "EnforcedPause",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ExpectedPause",
+		"type": "error"
+	},
 	{
 		"inputs": [
 			{
@@ -53,6 +63,11 @@ export const BATTLE_ARENA_ABI =
 		"name": "OwnableUnauthorizedAccount",
 		"type": "error"
 	},
+	{
+		"inputs": [],
+		"name": "ReentrancyGuardReentrantCall",
+		"type": "error"
+	},
 	{
 		"anonymous": false,
 		"inputs": [
@@ -1125,6 +1140,46 @@ export const GAME_CONSTANTS = {
   MAX_LEVEL: 100,
   ABILITIES_PER_CHARACTER: 4,
   TURN_TIMEOUT: 30 * 60, // 30 minutes in seconds
+  MAX_TURN_TIME: 24 * 60 * 60, // 24 hours in seconds
+  // emergencyCancelMatch only accepts matches created more than 10 * MAX_TURN_TIME ago
+  EMERGENCY_CANCEL_DELAY: 10 * 24 * 60 * 60,
+  MAX_PLATFORM_FEE: 1000, // basis points (10%)
   MANA_REGEN_PER_TURN: 15,
+  WIN_EXPERIENCE: 50, // awarded to the winning character by _endMatch
   TOTAL_CHARACTER_TYPES: 4
-} as const
\ No newline at end of file
+} as const
+
+// Stake tiers (ETH) offered when creating a match and scanned together by the lobby.
+// Override with a comma-separated NEXT_PUBLIC_STAKE_TIERS, e.g. "0.001,0.01,0.1"
+export const STAKE_TIERS: readonly string[] = (process.env.NEXT_PUBLIC_STAKE_TIERS || '0.001,0.005,0.01,0.05,0.1')
+  .split(',')
+  .map(tier => tier.trim())
+  .filter(Boolean)
+  .map(tier => formatEther(parseEther(tier)))
+
+export const DEFAULT_STAKE = STAKE_TIERS[0]
+
+// Local event indexer: first block to backfill from (the contract's deployment block)
+// and how many blocks to request per eth_getLogs call
+export const INDEXER_START_BLOCK = BigInt(process.env.NEXT_PUBLIC_CONTRACT_DEPLOY_BLOCK || '0')
+export const INDEXER_BLOCK_RANGE = BigInt(process.env.NEXT_PUBLIC_INDEXER_BLOCK_RANGE || '10000')
+
+// Shift Glicko-2 updates by the character level gap between opponents.
+// Needs one getMatchCharacters read per completed match, so it is opt-in: NEXT_PUBLIC_RATING_LEVEL_GAP=true
+export const RATING_LEVEL_GAP_ADJUSTMENT = process.env.NEXT_PUBLIC_RATING_LEVEL_GAP === 'true'
+
+// Budget for the RPC scheduler: calls per second and how many may start back to back.
+// Public Etherlink nodes rate-limit aggressively, so keep these below the node's limit
+export const RPC_REQUESTS_PER_SECOND = Number(process.env.NEXT_PUBLIC_RPC_REQUESTS_PER_SECOND || '8')
+export const RPC_BURST = Number(process.env.NEXT_PUBLIC_RPC_BURST || RPC_REQUESTS_PER_SECOND)
+
+// Gas limits shown when the node refuses to simulate a call (e.g. the wallet can't cover the stake).
+// Generous upper bounds for each function, not measurements; the UI flags estimates that use them
+export const FALLBACK_GAS_LIMITS = {
+  acquireCharacter: 250000n,
+  levelUpCharacter: 120000n,
+  initiateMatch: 250000n,
+  joinMatch: 300000n,
+  makeMove: 200000n,
+  claimTimeoutVictory: 200000n
+} as const
@@ -1,7 +1,12 @@
 // lib/contract-multiplayer-service.ts - Real contract-only multiplayer service
-import type { Address } from 'viem'
-import { ContractService } from './contract-service'
+import { BaseError, ContractFunctionExecutionError, type Address, type Hash } from 'viem'
+import { ContractService, type ArenaEventName } from './contract-service'
+import type { RpcPriority } from './rpc-scheduler'
+import { STAKE_TIERS, INDEXER_START_BLOCK } from './contract-config'
 import { Web3Utils, type Match, MatchStatus, type CharacterInstance } from './Web3-Utils'
+import { ArenaError, isArenaError } from './arena-errors'
+import { getPendingTransactionManager, type PendingTransactionManager } from './pending-transactions'
+import { arenaQueryClient, fetchFreshMatch, playerProfileQuery, seedMatches } from './arena-queries'
 
 export interface ContractRoom {
   id: string
@@ -44,14 +49,85 @@ export interface ContractCharacter {
   owner: Address
 }
 
+export interface QuickMatchResult {
+  roomId: string
+  // True when an existing match was joined, false when a new one was created
+  joined: boolean
+}
+
+export interface QuickMatchOptions {
+  // Only join hosts rated within maxGap of the player, closest rating first
+  closeRating?: {
+    playerRating: number
+    maxGap: number
+    getRating: (address: Address) => number
+  }
+}
+
+// Arena events that open, fill or close lobby matches; battle screens watch their own match
+const WATCHED_EVENTS: ArenaEventName[] = ['MatchInitiated', 'MatchJoined', 'MatchCompleted']
+
+const RESUBSCRIBE_DELAY = 3000 // ms before re-opening watchers after an RPC error
+const POLLING_INTERVAL = 5000 // ms between reads when the RPC can't filter logs
+
+/**
+ * True when the RPC rejects log filtering outright (as opposed to a transient failure)
+ */
+const isLogFilteringUnsupported = (error: any): boolean => {
+  const message = String(error?.details || error?.message || '')
+  return error?.code === -32601 ||
+    error?.name === 'MethodNotFoundRpcError' ||
+    error?.name === 'MethodNotSupportedRpcError' ||
+    /eth_(getLogs|newFilter|getFilterChanges).*(not (found|supported|available)|does not exist)/i.test(message) ||
+    /method not (found|supported)/i.test(message)
+}
+
+/**
+ * True when the joinMatch call itself reverted before being sent, rather than a later step
+ */
+const isJoinSimulationRevert = (error: unknown): boolean => {
+  const cause = error instanceof ArenaError ? error.cause : error
+  return cause instanceof BaseError &&
+    !!cause.walk(err => err instanceof ContractFunctionExecutionError && err.functionName === 'joinMatch')
+}
+
+/**
+ * True when a join failed because someone else got to the match first. A join that reverts
+ * with no reason ("changing contract state") is the same race seen from the node's side.
+ */
+const isLostJoinRace = (error: unknown): boolean => {
+  return isArenaError(error, 'MATCH_NOT_AVAILABLE', 'STATE_CHANGED') ||
+    (isArenaError(error, 'UNKNOWN_REVERT') && isJoinSimulationRevert(error))
+}
+
 class ContractMultiplayerService {
   private contractService: ContractService
+  private pendingTransactions: PendingTransactionManager
   private connectedAddress: Address | null = null
   private eventListeners: Map<string, Function[]> = new Map()
   private pollingInterval: NodeJS.Timeout | null = null
+  private resubscribeTimeout: NodeJS.Timeout | null = null
+  private unwatchers: Array<() => void> = []
+  // Last block each watcher has delivered; watchers poll independently, so one may lag another
+  private eventCursors: Map<ArenaEventName, bigint> = new Map()
+  // Handled log keys with their block, pruned once every cursor has moved past them
+  private processedLogs: Map<string, bigint> = new Map()
+  private openMatches: Map<number, Match> = new Map()
+  private activeMatchIds: Set<number> = new Set()
+  private startedMatchIds: Set<number> = new Set()
+  private mode: 'idle' | 'events' | 'polling' = 'idle'
+  // getFindingMatches is keyed by exact stake, so the lobby scans every stake it knows about
+  private knownStakes: Set<bigint> = new Set(STAKE_TIERS.map(tier => Web3Utils.parseEth(tier)))
+  private stakeDiscoveryBlock: bigint | null = null
+  // Our matches from MatchInitiated/MatchJoined history, with the initiating tx for those we host.
+  // Scanned once from deployment, then only past ownMatchScanBlock; completed matches drop out.
+  private ownMatches: Map<number, Hash | null> = new Map()
+  private ownMatchScanBlock: bigint | null = null
+  private ownMatchScan: Promise<void> | null = null
 
   constructor(contractService: ContractService) {
     this.contractService = contractService
+    this.pendingTransactions = getPendingTransactionManager(contractService)
   }
 
   // Connection management
@@ -59,8 +135,17 @@ class ContractMultiplayerService {
     this.connectedAddress = address
     console.log('Connected to contract multiplayer with address:', address)
     
-    // Start polling for contract updates
-    this.startPolling()
+    await this.loadOpenMatches()
+    await this.startWatching()
+
+    // The history scan can take a while on a long chain; the lobby shows the stake tiers meanwhile
+    this.discoverStakes().then(foundStakes => {
+      if (foundStakes && this.connectedAddress === address) this.loadOpenMatches()
+    })
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline)
+    }
     
     return address
   }
@@ -68,10 +153,18 @@ class ContractMultiplayerService {
   disconnect(): void {
     this.connectedAddress = null
     this.eventListeners.clear()
-    
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval)
-      this.pollingInterval = null
+    this.stopWatching()
+    this.stopPolling()
+    this.openMatches.clear()
+    this.activeMatchIds.clear()
+    this.startedMatchIds.clear()
+    this.ownMatches.clear()
+    this.ownMatchScanBlock = null
+    this.ownMatchScan = null
+    this.mode = 'idle'
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline)
     }
     
     console.log('Disconnected from contract multiplayer')
@@ -121,9 +214,277 @@ class ContractMultiplayerService {
     }
   }
 
-  // Contract polling to simulate real-time updates
+  // Follow joins and results for a match created or joined outside this service
+  trackMatch(matchId: number): void {
+    this.activeMatchIds.add(matchId)
+  }
+
+  getSyncMode(): 'idle' | 'events' | 'polling' {
+    return this.mode
+  }
+
+  // Event subscriptions
+  private async startWatching(): Promise<void> {
+    if (this.unwatchers.length > 0 || !this.connectedAddress) return
+
+    try {
+      // Catch up on anything emitted while we weren't listening
+      if (this.eventCursors.size > 0) {
+        await this.catchUp()
+      } else {
+        const currentBlock = await this.contractService.getBlockNumber()
+        WATCHED_EVENTS.forEach(eventName => this.eventCursors.set(eventName, currentBlock))
+      }
+
+      this.unwatchers = WATCHED_EVENTS.map(eventName =>
+        this.contractService.watchContractEvents(
+          eventName,
+          (logs) => this.handleLogs(eventName, logs),
+          undefined,
+          (error) => this.handleWatchError(eventName, error)
+        )
+      )
+      this.mode = 'events'
+      this.stopPolling()
+    } catch (error) {
+      this.handleWatchError('MatchInitiated', error)
+    }
+  }
+
+  private stopWatching(): void {
+    this.unwatchers.forEach(unwatch => unwatch())
+    this.unwatchers = []
+
+    if (this.resubscribeTimeout) {
+      clearTimeout(this.resubscribeTimeout)
+      this.resubscribeTimeout = null
+    }
+  }
+
+  private handleWatchError(eventName: ArenaEventName, error: any): void {
+    console.error(`Error watching ${eventName} events:`, error)
+    this.stopWatching()
+
+    if (isLogFilteringUnsupported(error)) {
+      console.warn('RPC cannot filter logs, falling back to polling')
+      this.startPolling()
+      return
+    }
+
+    // Treat anything else as a dropped connection: resubscribe and replay what we missed
+    this.resubscribeTimeout = setTimeout(() => {
+      this.resubscribeTimeout = null
+      this.startWatching()
+    }, RESUBSCRIBE_DELAY)
+  }
+
+  private handleOnline = (): void => {
+    if (this.mode === 'polling') return
+    this.stopWatching()
+    this.startWatching()
+  }
+
+  private async catchUp(): Promise<void> {
+    const latestBlock = await this.contractService.getBlockNumber()
+
+    for (const eventName of WATCHED_EVENTS) {
+      const cursor = this.eventCursors.get(eventName)
+      if (cursor === undefined) continue
+
+      // Re-read the cursor block itself: a watcher may have delivered only part of it
+      if (cursor <= latestBlock) {
+        console.log(`Catching up on ${eventName} events from block ${cursor} to ${latestBlock}`)
+        const logs = await this.contractService.getPastEvents(eventName, cursor, latestBlock)
+        await this.handleLogs(eventName, logs)
+        this.eventCursors.set(eventName, latestBlock)
+      }
+    }
+
+    this.pruneProcessedLogs()
+  }
+
+  private async handleLogs(eventName: ArenaEventName, logs: any[]): Promise<void> {
+    for (const log of logs) {
+      const logKey = `${log.transactionHash}_${log.logIndex}`
+      if (this.processedLogs.has(logKey)) continue
+
+      const blockNumber: bigint | null = log.blockNumber ?? null
+      if (blockNumber !== null) {
+        this.processedLogs.set(logKey, blockNumber)
+        const cursor = this.eventCursors.get(eventName)
+        if (cursor === undefined || blockNumber > cursor) {
+          this.eventCursors.set(eventName, blockNumber)
+        }
+      }
+
+      try {
+        switch (eventName) {
+          case 'MatchInitiated':
+            this.knownStakes.add(log.args.stake)
+            await this.onMatchInitiated(Number(log.args.matchId))
+            break
+          case 'MatchJoined':
+            await this.onMatchJoined(Number(log.args.matchId), log.args.opponent)
+            break
+          case 'MatchCompleted':
+            this.onMatchCompleted(Number(log.args.matchId))
+            break
+        }
+      } catch (error) {
+        console.error(`Error handling ${eventName} event:`, error)
+      }
+    }
+
+    this.pruneProcessedLogs()
+  }
+
+  // Catch-up re-reads from the lowest cursor, so only logs below it can never come back
+  private pruneProcessedLogs(): void {
+    const cursors = WATCHED_EVENTS.map(eventName => this.eventCursors.get(eventName))
+    if (cursors.some(cursor => cursor === undefined)) return
+    const lowestCursor = (cursors as bigint[]).reduce((lowest, cursor) => cursor < lowest ? cursor : lowest)
+
+    this.processedLogs.forEach((blockNumber, logKey) => {
+      if (blockNumber < lowestCursor) this.processedLogs.delete(logKey)
+    })
+  }
+
+  private async onMatchInitiated(matchId: number): Promise<void> {
+    const match = await fetchFreshMatch(matchId, 'background')
+    if (match.status !== MatchStatus.FINDING) return
+
+    this.openMatches.set(matchId, match)
+    this.emitAvailableRooms()
+
+    if (this.isOwnAddress(match.player1)) {
+      this.activeMatchIds.add(matchId)
+    }
+  }
+
+  private async onMatchJoined(matchId: number, opponent: Address): Promise<void> {
+    const wasOpen = this.openMatches.delete(matchId)
+    if (wasOpen) {
+      this.emitAvailableRooms()
+    }
+
+    const isOurMatch = this.activeMatchIds.has(matchId) || this.isOwnAddress(opponent)
+    if (!isOurMatch) return
+
+    this.activeMatchIds.add(matchId)
+    const match = await fetchFreshMatch(matchId)
+    this.announceMatchStart(match)
+  }
+
+  // The join receipt and the MatchJoined event can arrive in either order, so announce once
+  private announceMatchStart(match: Match): void {
+    if (this.startedMatchIds.has(match.id)) return
+    this.startedMatchIds.add(match.id)
+
+    // Our own join is reported by joinRoom; only the host needs telling
+    if (!this.isOwnAddress(match.player2)) {
+      this.emit('opponent_joined', { room: this.convertMatchToRoom(match), opponent: match.player2 })
+    }
+  }
+
+  private onMatchCompleted(matchId: number): void {
+    if (this.openMatches.delete(matchId)) {
+      this.emitAvailableRooms()
+    }
+    this.activeMatchIds.delete(matchId)
+  }
+
+  private getCachedRooms(): ContractRoom[] {
+    return Array.from(this.openMatches.values())
+      .sort((a, b) => a.id - b.id)
+      .map(match => this.convertMatchToRoom(match))
+  }
+
+  private emitAvailableRooms(): void {
+    this.emit('available_rooms_updated', { rooms: this.getCachedRooms() })
+  }
+
+  private isOwnAddress(address?: Address | null): boolean {
+    return !!address && !!this.connectedAddress && address.toLowerCase() === this.connectedAddress.toLowerCase()
+  }
+
+  // Stakes currently offered, configured tiers first, then custom stakes in ascending order
+  getKnownStakes(): string[] {
+    const custom = Array.from(this.knownStakes)
+      .map(stake => Web3Utils.formatEth(stake))
+      .filter(stake => !STAKE_TIERS.includes(stake))
+      .sort((a, b) => parseFloat(a) - parseFloat(b))
+    return [...STAKE_TIERS, ...custom]
+  }
+
+  /**
+   * Pick up custom stakes from MatchInitiated history so their open matches reach the lobby.
+   * Resolves true when a stake we didn't know about turned up.
+   */
+  private async discoverStakes(): Promise<boolean> {
+    // Polling mode means the RPC can't serve logs; stick to the stakes we already know
+    if (this.mode === 'polling') return false
+
+    try {
+      const fromBlock = this.stakeDiscoveryBlock === null ? INDEXER_START_BLOCK : this.stakeDiscoveryBlock + 1n
+      const latestBlock = await this.contractService.getBlockNumber()
+      if (fromBlock > latestBlock) return false
+
+      const knownCount = this.knownStakes.size
+      const logs = await this.contractService.getPastEventsInChunks('MatchInitiated', fromBlock, latestBlock)
+      for (const log of logs) {
+        if (log.args.stake !== undefined) this.knownStakes.add(log.args.stake)
+      }
+      this.stakeDiscoveryBlock = latestBlock
+      return this.knownStakes.size > knownCount
+    } catch (error) {
+      console.warn('Could not discover custom stakes from match history:', error)
+      return false
+    }
+  }
+
+  private async getFindingMatchIds(): Promise<number[]> {
+    const results = await Promise.all(Array.from(this.knownStakes).map(async stake => {
+      try {
+        return await this.contractService.getFindingMatches(Web3Utils.formatEth(stake))
+      } catch (error) {
+        console.error('Error getting finding matches for stake:', Web3Utils.formatEth(stake), error)
+        return []
+      }
+    }))
+    return Array.from(new Set(results.flat()))
+  }
+
+  // Batched match read that also refreshes the shared query cache
+  private async readMatches(matchIds: number[], priority?: RpcPriority): Promise<Match[]> {
+    const matches = await this.contractService.getMatches(matchIds, priority)
+    seedMatches(matches)
+    return matches
+  }
+
+  private async loadOpenMatches(): Promise<void> {
+    try {
+      const findingMatchIds = await this.getFindingMatchIds()
+      const matches = await this.readMatches(findingMatchIds)
+
+      this.openMatches.clear()
+      for (const match of matches) {
+        if (match.status === MatchStatus.FINDING) {
+          this.openMatches.set(match.id, match)
+          if (this.isOwnAddress(match.player1)) {
+            this.activeMatchIds.add(match.id)
+          }
+        }
+      }
+      this.emitAvailableRooms()
+    } catch (error) {
+      console.error('Error loading open matches:', error)
+    }
+  }
+
+  // Fallback for RPCs that can't filter logs: re-read the lobby on an interval
   private startPolling(): void {
     if (this.pollingInterval) return
+    this.mode = 'polling'
     
     this.pollingInterval = setInterval(async () => {
       try {
@@ -131,33 +492,33 @@ class ContractMultiplayerService {
       } catch (error) {
         console.error('Error polling contract updates:', error)
       }
-    }, 5000) // Poll every 5 seconds
+    }, POLLING_INTERVAL)
+  }
+
+  private stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval)
+      this.pollingInterval = null
+    }
   }
 
   private async pollContractUpdates(): Promise<void> {
     if (!this.connectedAddress) return
     
+    await this.loadOpenMatches()
+
+    // Without events, watch our own matches for joins and results directly
     try {
-      // Get finding matches (available rooms) - using default stake amount for polling
-      const findingMatchIds = await this.contractService.getFindingMatches('0.001')
-      
-      // Get full match details for each ID
-      const availableRooms: ContractRoom[] = []
-      for (const matchId of findingMatchIds) {
-        try {
-          const match = await this.contractService.getMatch(matchId)
-          if (match) {
-            availableRooms.push(this.convertMatchToRoom(match))
-          }
-        } catch (error) {
-          console.error('Error getting match details for ID:', matchId, error)
+      const matches = await this.readMatches(Array.from(this.activeMatchIds), 'battle')
+      for (const match of matches) {
+        if (match.status === MatchStatus.COMPLETED) {
+          this.activeMatchIds.delete(match.id)
+        } else if (match.status === MatchStatus.ONGOING) {
+          this.announceMatchStart(match)
         }
       }
-      
-      this.emit('available_rooms_updated', { rooms: availableRooms })
-      
     } catch (error) {
-      console.error('Error polling contract updates:', error)
+      console.error('Error polling active matches:', error)
     }
   }
 
@@ -189,6 +550,90 @@ class ContractMultiplayerService {
     }
   }
 
+  /**
+   * Our unfinished matches, found through MatchInitiated/MatchJoined history, newest first.
+   * Used to get back into a match after a page reload.
+   */
+  async findResumableMatches(): Promise<ContractRoom[]> {
+    if (!this.connectedAddress) return []
+
+    await this.scanOwnMatches()
+
+    const rooms = await Promise.all(Array.from(this.ownMatches.keys()).map(async matchId => {
+      try {
+        const match = await fetchFreshMatch(matchId, 'background')
+        if (match.status === MatchStatus.COMPLETED) {
+          this.ownMatches.delete(matchId)
+          return null
+        }
+
+        const room = this.convertMatchToRoom(match)
+
+        if (match.status === MatchStatus.ONGOING) {
+          const characters = await this.contractService.getMatchCharacters(matchId, 'background')
+          room.gameData.hostCharacterId = characters.char1InstanceId
+          room.gameData.guestCharacterId = characters.char2InstanceId
+          this.startedMatchIds.add(matchId)
+        } else {
+          const txHash = this.ownMatches.get(matchId)
+          if (txHash) {
+            try {
+              room.gameData.hostCharacterId = await this.contractService.getInitiatedCharacterInstanceId(txHash)
+            } catch (error) {
+              console.warn('Could not read host character for match:', matchId, error)
+            }
+          }
+        }
+
+        this.activeMatchIds.add(matchId)
+        return room
+      } catch (error) {
+        console.error('Error checking match for resume:', matchId, error)
+        return null
+      }
+    }))
+
+    return rooms
+      .filter((room): room is ContractRoom => room !== null)
+      .sort((a, b) => b.matchId - a.matchId)
+  }
+
+  // Concurrent callers share one scan
+  private scanOwnMatches(): Promise<void> {
+    if (!this.ownMatchScan) {
+      const scan: Promise<void> = this.readOwnMatchHistory().finally(() => {
+        if (this.ownMatchScan === scan) this.ownMatchScan = null
+      })
+      this.ownMatchScan = scan
+    }
+    return this.ownMatchScan
+  }
+
+  private async readOwnMatchHistory(): Promise<void> {
+    const address = this.connectedAddress
+    if (!address) return
+
+    const fromBlock = this.ownMatchScanBlock === null ? INDEXER_START_BLOCK : this.ownMatchScanBlock + 1n
+    const latestBlock = await this.contractService.getBlockNumber()
+    if (fromBlock > latestBlock) return
+
+    const [initiatedLogs, joinedLogs] = await Promise.all([
+      this.contractService.getPastEventsInChunks('MatchInitiated', fromBlock, latestBlock, { initiator: address }),
+      this.contractService.getPastEventsInChunks('MatchJoined', fromBlock, latestBlock, { opponent: address })
+    ])
+    // Disconnected or switched account while scanning
+    if (this.connectedAddress !== address) return
+
+    for (const log of initiatedLogs) {
+      this.ownMatches.set(Number(log.args.matchId), log.transactionHash)
+    }
+    for (const log of joinedLogs) {
+      const matchId = Number(log.args.matchId)
+      if (!this.ownMatches.has(matchId)) this.ownMatches.set(matchId, null)
+    }
+    this.ownMatchScanBlock = latestBlock
+  }
+
   // Room management
   async createRoom(name: string, characterInstanceId: number, stake: string, isPrivate: boolean = false): Promise<string> {
     if (!this.connectedAddress) {
@@ -199,7 +644,7 @@ class ContractMultiplayerService {
       console.log('Creating contract match with character ID:', characterInstanceId, 'stake:', stake)
       
       // Ensure player owns the character
-      const playerProfile = await this.contractService.getPlayerProfile(this.connectedAddress)
+      const playerProfile = await arenaQueryClient.fetchQuery(playerProfileQuery(this.connectedAddress))
       
       if (!playerProfile.ownedCharacterInstances.includes(characterInstanceId)) {
         throw new Error(`You don't own character instance ${characterInstanceId}`)
@@ -209,12 +654,9 @@ class ContractMultiplayerService {
       const txHash = await this.contractService.initiateMatch(characterInstanceId, stake)
       console.log('Contract match creation transaction:', txHash)
       
-      // Wait for transaction to be mined and get the match ID
-      // In a real implementation, we would listen to contract events to get the actual match ID
-      // For now, we'll poll to find the new match
-      await this.waitForNewMatch()
-      
-      return 'match_creating' // Return placeholder while waiting for contract confirmation
+      // Read the new match ID from the MatchInitiated event in the mined block
+      const room = await this.waitForNewMatch(txHash)
+      return room.id
       
     } catch (error: any) {
       console.error('Error creating contract room:', error)
@@ -223,40 +665,34 @@ class ContractMultiplayerService {
     }
   }
 
-  private async waitForNewMatch(): Promise<void> {
-    // Wait for the transaction to be processed and find the new match
-    let attempts = 0
-    const maxAttempts = 10
-    
-    while (attempts < maxAttempts) {
-      try {
-        await new Promise(resolve => setTimeout(resolve, 2000)) // Wait 2 seconds
-        
-        const findingMatchIds = await this.contractService.getFindingMatches('0.001')
-        
-        // Check each match ID to see if player1 is the connected address
-        for (const matchId of findingMatchIds) {
-          try {
-            const match = await this.contractService.getMatch(matchId)
-            if (match && match.player1 === this.connectedAddress) {
-              // Found the new match
-              const room = this.convertMatchToRoom(match)
-              this.emit('room_created', { room })
-              return
-            }
-          } catch (matchError: any) {
-            console.error('Error checking match:', matchId, matchError.message)
-          }
-        }
-        
-        attempts++
-      } catch (error: any) {
-        console.error('Error waiting for new match:', error.message)
-        attempts++
-      }
+  /**
+   * Match id created by a mined initiateMatch transaction, read from its MatchInitiated event
+   */
+  async getInitiatedMatchId(txHash: Hash, blockNumber: bigint): Promise<number> {
+    const events = await this.contractService.getPastEvents(
+      'MatchInitiated',
+      blockNumber,
+      blockNumber,
+      { initiator: this.connectedAddress }
+    )
+
+    const matchEvent = events.find(event => event.transactionHash === txHash)
+    if (!matchEvent) {
+      throw new Error('Could not find MatchInitiated event in transaction')
     }
-    
-    throw new Error('Timeout waiting for match creation confirmation')
+
+    return Number(matchEvent.args.matchId)
+  }
+
+  private async waitForNewMatch(txHash: Hash): Promise<ContractRoom> {
+    const receipt = await this.pendingTransactions.track(txHash, 'initiate', { account: this.connectedAddress ?? undefined })
+    const matchId = await this.getInitiatedMatchId(txHash, receipt.blockNumber)
+    const match = await fetchFreshMatch(matchId)
+    const room = this.convertMatchToRoom(match)
+
+    this.activeMatchIds.add(matchId)
+    this.emit('room_created', { room })
+    return room
   }
 
   async joinRoom(roomId: string, characterInstanceId: number): Promise<void> {
@@ -273,21 +709,21 @@ class ContractMultiplayerService {
       console.log('Joining contract match:', matchId, 'with character:', characterInstanceId)
       
       // Ensure player owns the character
-      const playerProfile = await this.contractService.getPlayerProfile(this.connectedAddress)
+      const playerProfile = await arenaQueryClient.fetchQuery(playerProfileQuery(this.connectedAddress))
       
       if (!playerProfile.ownedCharacterInstances.includes(characterInstanceId)) {
         throw new Error(`You don't own character instance ${characterInstanceId}`)
       }
       
       // Get match details first
-      const match = await this.contractService.getMatch(matchId)
+      const match = await fetchFreshMatch(matchId)
       
       if (!match) {
         throw new Error('Match not found')
       }
       
       if (match.status !== 0) { // Not in FINDING status
-        throw new Error('Match is not available for joining')
+        throw new ArenaError('MATCH_NOT_AVAILABLE')
       }
       
       if (match.player1 === this.connectedAddress) {
@@ -300,7 +736,7 @@ class ContractMultiplayerService {
       console.log('Contract match join transaction:', txHash)
       
       // Wait for transaction confirmation
-      await this.waitForMatchJoin(matchId)
+      await this.waitForMatchJoin(matchId, txHash)
       
       // Emit success event after transaction confirmation
       console.log('Contract match join confirmed for match:', matchId)
@@ -313,37 +749,79 @@ class ContractMultiplayerService {
     }
   }
 
-  private async waitForMatchJoin(matchId: number): Promise<void> {
-    let attempts = 0
-    const maxAttempts = 10
-    
-    while (attempts < maxAttempts) {
+  private async waitForMatchJoin(matchId: number, txHash: Hash): Promise<void> {
+    const receipt = await this.pendingTransactions.track(txHash, 'join', { account: this.connectedAddress ?? undefined, matchId })
+    if (receipt.status !== 'success') {
+      throw new ArenaError('STATE_CHANGED', { message: 'Join transaction reverted' })
+    }
+
+    this.activeMatchIds.add(matchId)
+    const match = await fetchFreshMatch(matchId)
+
+    if (!this.isOwnAddress(match.player2)) {
+      throw new ArenaError('MATCH_NOT_AVAILABLE', { message: 'Match was joined by another player' })
+    }
+
+    this.announceMatchStart(match)
+  }
+
+  /**
+   * Join the oldest open match at the given stake, or create one if none can be joined
+   */
+  async quickMatch(
+    characterInstanceId: number,
+    stake: string,
+    onStatus?: (message: string) => void,
+    options: QuickMatchOptions = {}
+  ): Promise<QuickMatchResult> {
+    if (!this.connectedAddress) {
+      throw new Error('Not connected to contract service')
+    }
+
+    onStatus?.(`Looking for open matches at ${stake} ETH...`)
+    const candidates = await this.getQuickMatchCandidates(stake, options)
+
+    for (const match of candidates) {
+      const roomId = `CONTRACT_${match.id}`
       try {
-        await new Promise(resolve => setTimeout(resolve, 2000)) // Wait 2 seconds
-        
-        const match = await this.contractService.getMatch(matchId)
-        
-        if (match && match.player2 === this.connectedAddress) {
-          // Successfully joined
-          const room = this.convertMatchToRoom(match)
-          
-          this.emit('room_joined', { room })
-          
-          if (match.status === 1) { // ONGOING
-            this.emit('game_started', { room })
-          }
-          
-          return
-        }
-        
-        attempts++
-      } catch (error: any) {
-        console.error('Error waiting for match join:', error.message)
-        attempts++
+        onStatus?.(`Joining match #${match.id}...`)
+        await this.joinRoom(roomId, characterInstanceId)
+        return { roomId, joined: true }
+      } catch (error) {
+        if (!isLostJoinRace(error)) throw error
+        console.warn(`Lost the race for match ${match.id}, trying the next one`)
+        this.openMatches.delete(match.id)
       }
     }
-    
-    throw new Error('Timeout waiting for match join confirmation')
+
+    onStatus?.(options.closeRating
+      ? `No open matches near your rating at ${stake} ETH, creating one...`
+      : `No open matches at ${stake} ETH, creating one...`)
+    const roomId = await this.createRoom('Quick Match', characterInstanceId, stake)
+    return { roomId, joined: false }
+  }
+
+  // Open matches at exactly this stake that we could join, oldest first (or closest rating first)
+  private async getQuickMatchCandidates(stake: string, options: QuickMatchOptions = {}): Promise<Match[]> {
+    const stakeWei = Web3Utils.parseEth(stake)
+    const matchIds = await this.contractService.getFindingMatches(stake)
+    const matches = await this.readMatches(matchIds)
+
+    const candidates = matches
+      .filter(match =>
+        match.status === MatchStatus.FINDING &&
+        match.stake === stakeWei &&
+        !this.isOwnAddress(match.player1)
+      )
+      .sort((a, b) => a.id - b.id)
+
+    const { closeRating } = options
+    if (!closeRating) return candidates
+
+    const ratingGap = (match: Match) => Math.abs(closeRating.getRating(match.player1) - closeRating.playerRating)
+    return candidates
+      .filter(match => ratingGap(match) <= closeRating.maxGap)
+      .sort((a, b) => ratingGap(a) - ratingGap(b) || a.id - b.id)
   }
 
   async leaveRoom(roomId: string): Promise<void> {
@@ -390,26 +868,11 @@ class ContractMultiplayerService {
   }
 
   async getAvailableRooms(): Promise<ContractRoom[]> {
-    try {
-      const findingMatchIds = await this.contractService.getFindingMatches('0.001')
-      const availableRooms: ContractRoom[] = []
-      
-      for (const matchId of findingMatchIds) {
-        try {
-          const match = await this.contractService.getMatch(matchId)
-          if (match) {
-            availableRooms.push(this.convertMatchToRoom(match))
-          }
-        } catch (matchError: any) {
-          console.error('Error getting match details:', matchId, matchError.message)
-        }
-      }
-      
-      return availableRooms
-    } catch (error: any) {
-      console.error('Error getting available rooms:', error.message)
-      return []
+    // The event watchers keep the lobby cache current
+    if (this.mode !== 'events') {
+      await this.loadOpenMatches()
     }
+    return this.getCachedRooms()
   }
 
   async getRoom(roomId: string): Promise<ContractRoom | null> {
@@ -419,7 +882,7 @@ class ContractMultiplayerService {
     }
 
     try {
-      const match = await this.contractService.getMatch(matchId)
+      const match = await fetchFreshMatch(matchId)
       return match ? this.convertMatchToRoom(match) : null
     } catch (error) {
       console.error('Error getting room:', error)
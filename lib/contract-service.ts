@@ -1,20 +1,33 @@
 // lib/contract-service.ts
 import { 
-  createPublicClient, 
+  createPublicClient,
   createWalletClient, 
   custom, 
-  http, 
+  type Account,
   type Address, 
   type Hash,
-  parseEther
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type GetContractEventsReturnType,
+  type PublicClient,
+  type ReplacementReturnType,
+  type WalletClient,
+  parseEther,
+  decodeFunctionData,
+  BaseError,
+  ChainDoesNotSupportContract,
+  ContractFunctionZeroDataError,
+  TransactionNotFoundError
 } from 'viem'
-import { etherlink } from './web3-config'
+import { publicClient } from './web3-config'
 import { 
   CONTRACT_ADDRESS, 
   BATTLE_ARENA_ABI, 
   CHARACTER_TYPES,
   CHARACTER_TYPE_NAMES,
-  MATCH_STATUS 
+  MATCH_STATUS,
+  INDEXER_START_BLOCK,
+  INDEXER_BLOCK_RANGE
 } from './contract-config'
 import { 
   Web3Utils, 
@@ -23,137 +36,261 @@ import {
   type PlayerProfile, 
   type Match, 
   type MatchCharacters,
+  type TransactionCost,
+  type FeeData,
   MatchStatus as MatchStatusEnum
 } from './Web3-Utils'
+import { decodeArenaError } from './arena-errors'
+import { rpcScheduler, type RpcPriority } from './rpc-scheduler'
+
+export type ArenaEventName = 'CharacterAcquired' | 'CharacterLeveledUp' | 'MatchInitiated' | 'MatchJoined' | 'MatchCompleted' | 'MoveMade'
+
+// A decoded log of one arena event, with typed args
+export type ArenaEventLog<TEventName extends ArenaEventName> = GetContractEventsReturnType<typeof BATTLE_ARENA_ABI, TEventName>[number]
+
+type ArenaViewFunctionName = ContractFunctionName<typeof BATTLE_ARENA_ABI, 'pure' | 'view'>
+
+// One contract read inside a batch, with the args the ABI declares for it
+type ArenaRead = {
+  [TFunctionName in ArenaViewFunctionName]: {
+    functionName: TFunctionName
+    args: ContractFunctionArgs<typeof BATTLE_ARENA_ABI, 'pure' | 'view', TFunctionName>
+  }
+}[ArenaViewFunctionName]
+
+type ArenaReadResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error }
+
+// onlyOwner administration calls, each with the args the ABI declares for it
+type OwnerFunctionName = Extract<
+  ContractFunctionName<typeof BATTLE_ARENA_ABI, 'nonpayable'>,
+  'setPlatformFee' | 'withdrawPlatformFees' | 'pause' | 'unpause' | 'emergencyCancelMatch' | 'transferOwnership'
+>
+
+type OwnerCall = {
+  [TFunctionName in OwnerFunctionName]: {
+    functionName: TFunctionName
+    args: ContractFunctionArgs<typeof BATTLE_ARENA_ABI, 'nonpayable', TFunctionName>
+  }
+}[OwnerFunctionName]
+
+// Anything that can sign arena transactions: a connected wallet's client, or a local (e.g. private-key) account
+export type ArenaSigner = WalletClient | Account
+
+export interface ContractServiceOptions {
+  // Defaults to the shared Etherlink client; scripts can point at another chain, e.g. a local node
+  publicClient?: PublicClient
+  // Defaults to NEXT_PUBLIC_CONTRACT_ADDRESS
+  address?: Address
+  signer?: ArenaSigner
+}
+
+interface AllEventsListener {
+  onLogs: (logs: any[]) => void
+  onError?: (error: Error) => void
+}
+
+// Identifies a read for coalescing: same call, same arguments
+const callKey = (name: string, ...parts: unknown[]): string =>
+  `${name}:${JSON.stringify(parts, (_, value) => typeof value === 'bigint' ? value.toString() : value)}`
 
 // Contract Service Class
 export class ContractService {
-  private publicClient
-  private walletClient: any = null
-
-  constructor() {
-    // Initialize public client for read operations
-    this.publicClient = createPublicClient({
-      chain: etherlink,
-      transport: http()
-    })
+  private publicClient: PublicClient
+  private address: Address
+  private scheduler = rpcScheduler
+  private walletClient: WalletClient | null = null
+  // Clients for viem actions that poll on their own timer, one per scheduler priority
+  private pollingClients: Map<RpcPriority, PublicClient> = new Map()
+  // Subscribers sharing the one contract-wide event watcher
+  private allEventsListeners: Set<AllEventsListener> = new Set()
+  private unwatchAllEvents: (() => void) | null = null
+  // null until the first multicall tells us whether Multicall3 is deployed
+  private multicallSupported: boolean | null = null
+
+  constructor(options: ContractServiceOptions = {}) {
+    this.publicClient = options.publicClient ?? (publicClient as PublicClient)
+    this.address = options.address ?? CONTRACT_ADDRESS
+    if (options.signer) this.setSigner(options.signer)
+  }
+
+  /**
+   * Sign writes with a wallet client or an account, or clear the signer with null.
+   * A bare account sends through the service's public client: local accounts sign in-process,
+   * JSON-RPC accounts need a node that holds their key (e.g. a local dev chain).
+   */
+  setSigner(signer: ArenaSigner | null) {
+    if (!signer) {
+      this.walletClient = null
+    } else if (signer.type === 'walletClient') {
+      this.walletClient = signer
+    } else {
+      this.walletClient = createWalletClient({
+        account: signer as Account,
+        chain: this.publicClient.chain,
+        transport: custom(this.publicClient)
+      })
+    }
   }
 
   /**
-   * Initialize wallet client for write operations
+   * Fall back to the injected browser wallet when no signer has been set
    */
   async initializeWalletClient() {
     if (typeof window !== 'undefined' && window.ethereum) {
       this.walletClient = createWalletClient({
-        chain: etherlink,
+        chain: this.publicClient.chain,
         transport: custom(window.ethereum)
       })
     }
   }
 
+  /**
+   * A client on the same RPC whose every request waits its turn in the scheduler.
+   * For viem actions that poll by themselves: event watchers and receipt waits.
+   */
+  private getPollingClient(priority: RpcPriority): PublicClient {
+    let client = this.pollingClients.get(priority)
+    if (!client) {
+      client = createPublicClient({
+        chain: this.publicClient.chain,
+        pollingInterval: this.publicClient.pollingInterval,
+        // The underlying transport already retries
+        transport: custom({
+          request: (args) => this.scheduler.schedule(priority, () => this.publicClient.request(args))
+        }, { retryCount: 0 })
+      }) as PublicClient
+      this.pollingClients.set(priority, client)
+    }
+    return client
+  }
+
+  /**
+   * The wallet client and account that sign the next write
+   */
+  private async getSigner(): Promise<{ walletClient: WalletClient; account: Account | Address }> {
+    if (!this.walletClient) {
+      await this.initializeWalletClient()
+    }
+    if (!this.walletClient) {
+      throw new Error('No wallet connected')
+    }
+
+    const account = this.walletClient.account ?? (await this.walletClient.getAddresses())[0]
+    if (!account) {
+      throw new Error('No wallet account available')
+    }
+    return { walletClient: this.walletClient, account }
+  }
+
   /**
    * Get all available character types
    */
-  async getAllCharacterTypes(): Promise<CharacterType[]> {
+  async getAllCharacterTypes(priority: RpcPriority = 'background'): Promise<CharacterType[]> {
     try {
-      const characterTypeIds = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: BATTLE_ARENA_ABI,
-        functionName: 'getAllCharacterTypes'
-      }) as readonly bigint[]
+      const characterTypeIds = await this.readContract<readonly bigint[]>({ functionName: 'getAllCharacterTypes', args: [] }, priority)
 
-      const characterTypes: CharacterType[] = []
+      // Details and abilities for every type in a single batch instead of 2N sequential reads
+      const results = await this.readBatch(characterTypeIds.flatMap(typeId => [
+        { functionName: 'getCharacterType', args: [typeId] },
+        { functionName: 'getCharacterTypeAbilities', args: [typeId] }
+      ]), priority)
 
-      for (const typeId of characterTypeIds) {
-        const typeIdNum = Number(typeId)
-        const [name, description, baseHealth, baseMana, baseDefense] = await this.publicClient.readContract({
-          address: CONTRACT_ADDRESS,
-          abi: BATTLE_ARENA_ABI,
-          functionName: 'getCharacterType',
-          args: [typeId]
-        }) as readonly [string, string, bigint, bigint, bigint]
+      const characterTypes: CharacterType[] = characterTypeIds.map((typeId, index) => {
+        const [name, description, baseHealth, baseMana, baseDefense] =
+          this.unwrapRead(results[index * 2]) as readonly [string, string, bigint, bigint, bigint]
+        const [abilityNames, baseDamages, manaCosts, cooldowns] =
+          this.unwrapRead(results[index * 2 + 1]) as readonly [readonly [string, string, string, string], readonly [bigint, bigint, bigint, bigint], readonly [bigint, bigint, bigint, bigint], readonly [bigint, bigint, bigint, bigint]]
 
-        const [abilityNames, baseDamages, manaCosts, cooldowns] = await this.publicClient.readContract({
-          address: CONTRACT_ADDRESS,
-          abi: BATTLE_ARENA_ABI,
-          functionName: 'getCharacterTypeAbilities',
-          args: [typeId]
-        }) as readonly [readonly [string, string, string, string], readonly [bigint, bigint, bigint, bigint], readonly [bigint, bigint, bigint, bigint], readonly [bigint, bigint, bigint, bigint]]
-
-        const abilities = Array.from(abilityNames).map((name, index) => ({
+        const abilities = Array.from(abilityNames).map((name, abilityIndex) => ({
           name,
-          baseDamage: Number(baseDamages[index]),
-          manaCost: Number(manaCosts[index]),
-          cooldown: Number(cooldowns[index])
+          baseDamage: Number(baseDamages[abilityIndex]),
+          manaCost: Number(manaCosts[abilityIndex]),
+          cooldown: Number(cooldowns[abilityIndex])
         }))
 
-        characterTypes.push({
-          id: typeIdNum,
+        return {
+          id: Number(typeId),
           name,
           description,
           baseHealth: Number(baseHealth),
           baseMana: Number(baseMana),
           baseDefense: Number(baseDefense),
           abilities
-        })
-      }
+        }
+      })
 
       return characterTypes
     } catch (error) {
       console.error('Error fetching character types:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
   /**
    * Get character instance by ID
    */
-  async getCharacterInstance(characterInstanceId: number): Promise<CharacterInstance> {
+  async getCharacterInstance(characterInstanceId: number, priority: RpcPriority = 'background'): Promise<CharacterInstance> {
     try {
-      const [
-        characterTypeId,
-        characterTypeName,
-        level,
-        health,
-        mana,
-        defense,
-        experience,
-        owner
-      ] = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: BATTLE_ARENA_ABI,
-        functionName: 'getCharacterInstance',
-        args: [BigInt(characterInstanceId)]
-      }) as [bigint, string, bigint, bigint, bigint, bigint, bigint, Address]
+      const result = await this.readContract({ functionName: 'getCharacterInstance', args: [BigInt(characterInstanceId)] }, priority)
 
-      return {
-        id: characterInstanceId,
-        characterTypeId: Number(characterTypeId),
-        characterTypeName,
-        level: Number(level),
-        health: Number(health),
-        mana: Number(mana),
-        defense: Number(defense),
-        experience: Number(experience),
-        owner
-      }
+      return this.toCharacterInstance(characterInstanceId, result)
     } catch (error) {
       console.error('Error fetching character instance:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get several character instances in one batched read
+   */
+  async getCharacterInstances(characterInstanceIds: number[], priority: RpcPriority = 'background'): Promise<CharacterInstance[]> {
+    try {
+      const results = await this.readBatch(characterInstanceIds.map(id => ({
+        functionName: 'getCharacterInstance',
+        args: [BigInt(id)]
+      })), priority)
+
+      return characterInstanceIds.map((id, index) => this.toCharacterInstance(id, this.unwrapRead(results[index])))
+    } catch (error) {
+      console.error('Error fetching character instances:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  private toCharacterInstance(characterInstanceId: number, result: unknown): CharacterInstance {
+    const [
+      characterTypeId,
+      characterTypeName,
+      level,
+      health,
+      mana,
+      defense,
+      experience,
+      owner
+    ] = result as [bigint, string, bigint, bigint, bigint, bigint, bigint, Address]
+
+    return {
+      id: characterInstanceId,
+      characterTypeId: Number(characterTypeId),
+      characterTypeName,
+      level: Number(level),
+      health: Number(health),
+      mana: Number(mana),
+      defense: Number(defense),
+      experience: Number(experience),
+      owner
     }
   }
 
   /**
    * Get player profile
    */
-  async getPlayerProfile(playerAddress: Address): Promise<PlayerProfile> {
+  async getPlayerProfile(playerAddress: Address, priority: RpcPriority = 'background'): Promise<PlayerProfile> {
     try {
-      const [ownedCharacterInstances, totalMatches, wins, losses] = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: BATTLE_ARENA_ABI,
-        functionName: 'getPlayerProfile',
-        args: [playerAddress]
-      }) as readonly [readonly bigint[], bigint, bigint, bigint]
+      const [ownedCharacterInstances, totalMatches, wins, losses] =
+        await this.readContract<readonly [readonly bigint[], bigint, bigint, bigint]>({ functionName: 'getPlayerProfile', args: [playerAddress] }, priority)
 
       return {
         address: playerAddress,
@@ -164,52 +301,77 @@ export class ContractService {
       }
     } catch (error) {
       console.error('Error fetching player profile:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
   /**
-   * Get match details
+   * Get match details. Battle-critical unless the caller says otherwise.
    */
-  async getMatch(matchId: number): Promise<Match> {
+  async getMatch(matchId: number, priority: RpcPriority = 'battle'): Promise<Match> {
     try {
-      const [
-        player1,
-        player2,
-        stake,
-        currentTurn,
-        winner,
-        status,
-        turnCount,
-        lastMoveTimestamp
-      ] = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: BATTLE_ARENA_ABI,
-        functionName: 'getMatch',
-        args: [BigInt(matchId)]
-      }) as [Address, Address, bigint, Address, Address, number, bigint, bigint]
+      const result = await this.readContract({ functionName: 'getMatch', args: [BigInt(matchId)] }, priority)
 
-      return {
-        id: matchId,
-        player1,
-        player2,
-        stake,
-        currentTurn,
-        winner,
-        status: status as MatchStatusEnum,
-        turnCount: Number(turnCount),
-        lastMoveTimestamp: Number(lastMoveTimestamp)
-      }
+      return this.toMatch(matchId, result)
     } catch (error) {
       console.error('Error fetching match:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get several matches in one batched read. Matches that fail to load are logged and left out.
+   */
+  async getMatches(matchIds: number[], priority: RpcPriority = 'background'): Promise<Match[]> {
+    try {
+      const results = await this.readBatch(matchIds.map(id => ({
+        functionName: 'getMatch',
+        args: [BigInt(id)]
+      })), priority)
+
+      return matchIds.flatMap((matchId, index) => {
+        const read = results[index]
+        if (read.status === 'failure') {
+          console.error('Error getting match details for ID:', matchId, read.error)
+          return []
+        }
+        return [this.toMatch(matchId, read.result)]
+      })
+    } catch (error) {
+      console.error('Error fetching matches:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  private toMatch(matchId: number, result: unknown): Match {
+    const [
+      player1,
+      player2,
+      stake,
+      currentTurn,
+      winner,
+      status,
+      turnCount,
+      lastMoveTimestamp
+    ] = result as [Address, Address, bigint, Address, Address, number, bigint, bigint]
+
+    return {
+      id: matchId,
+      player1,
+      player2,
+      stake,
+      currentTurn,
+      winner,
+      status: status as MatchStatusEnum,
+      turnCount: Number(turnCount),
+      lastMoveTimestamp: Number(lastMoveTimestamp)
     }
   }
 
   /**
    * Get match character states
    */
-  async getMatchCharacters(matchId: number): Promise<MatchCharacters> {
+  async getMatchCharacters(matchId: number, priority: RpcPriority = 'battle'): Promise<MatchCharacters> {
     try {
       const [
         char1InstanceId,
@@ -218,12 +380,7 @@ export class ContractService {
         char2InstanceId,
         char2Health,
         char2Mana
-      ] = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: BATTLE_ARENA_ABI,
-        functionName: 'getMatchCharacters',
-        args: [BigInt(matchId)]
-      }) as [bigint, bigint, bigint, bigint, bigint, bigint]
+      ] = await this.readContract<[bigint, bigint, bigint, bigint, bigint, bigint]>({ functionName: 'getMatchCharacters', args: [BigInt(matchId)] }, priority)
 
       return {
         char1InstanceId: Number(char1InstanceId),
@@ -235,55 +392,144 @@ export class ContractService {
       }
     } catch (error) {
       console.error('Error fetching match characters:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get seconds left before the current player can be timed out (0 once expired or not ongoing)
+   */
+  async getTimeLeftForCurrentTurn(matchId: number): Promise<number> {
+    try {
+      const timeLeft = await this.readContract<bigint>({ functionName: 'getTimeLeftForCurrentTurn', args: [BigInt(matchId)] }, 'battle')
+
+      return Number(timeLeft)
+    } catch (error) {
+      console.error('Error fetching turn time left:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get the character instance a match was opened with, from the initiateMatch calldata.
+   * getMatchCharacters reverts while the match is FINDING, so this is the only way to read it.
+   */
+  async getInitiatedCharacterInstanceId(txHash: Hash): Promise<number> {
+    try {
+      const transaction = await this.getTransaction(txHash, 'background')
+      const { functionName, args } = decodeFunctionData({
+        abi: BATTLE_ARENA_ABI,
+        data: transaction.input
+      })
+
+      if (functionName !== 'initiateMatch' || !args) {
+        throw new Error('Transaction is not an initiateMatch call')
+      }
+
+      return Number(args[0])
+    } catch (error) {
+      console.error('Error reading initiated character instance:', error)
+      throw decodeArenaError(error)
     }
   }
 
   /**
    * Get available matches for a stake amount
    */
-  async getFindingMatches(stakeAmount: string): Promise<number[]> {
+  async getFindingMatches(stakeAmount: string, priority: RpcPriority = 'background'): Promise<number[]> {
     try {
       const stake = parseEther(stakeAmount)
-      const matchIds = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: BATTLE_ARENA_ABI,
-        functionName: 'getFindingMatches',
-        args: [stake]
-      }) as readonly bigint[]
+      const matchIds = await this.readContract<readonly bigint[]>({ functionName: 'getFindingMatches', args: [stake] }, priority)
 
       return Array.from(matchIds).map(id => Number(id))
     } catch (error) {
       console.error('Error fetching finding matches:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
+  /**
+   * One view call through the scheduler, shared with an identical read already in flight
+   */
+  private readContract<T = unknown>(read: ArenaRead, priority: RpcPriority): Promise<T> {
+    return this.scheduler.schedule(priority, () => this.publicClient.readContract({
+      address: this.address,
+      abi: BATTLE_ARENA_ABI,
+      ...read
+    }) as Promise<T>, callKey(read.functionName, ...read.args))
+  }
+
+  /**
+   * Run several view calls as one Multicall3 eth_call. Where Multicall3 isn't deployed the
+   * calls are sent concurrently instead, which the transport packs into one JSON-RPC batch.
+   * Either way the batch takes a single slot in the scheduler.
+   */
+  private readBatch(reads: ArenaRead[], priority: RpcPriority): Promise<ArenaReadResult[]> {
+    if (reads.length === 0) return Promise.resolve([])
+    return this.scheduler.schedule(priority, () => this.sendBatch(reads),
+      callKey('batch', ...reads.map(read => [read.functionName, read.args])))
+  }
+
+  private async sendBatch(reads: ArenaRead[]): Promise<ArenaReadResult[]> {
+
+    const contracts = reads.map(read => ({
+      address: this.address,
+      abi: BATTLE_ARENA_ABI,
+      ...read
+    }))
+
+    if (this.multicallSupported !== false) {
+      try {
+        const results = await this.publicClient.multicall({
+          contracts,
+          allowFailure: true
+        })
+        this.multicallSupported = true
+        return results as ArenaReadResult[]
+      } catch (error) {
+        // No Multicall3 on this chain: stop trying. Anything else may be transient.
+        if (error instanceof BaseError && error.walk(err =>
+          err instanceof ContractFunctionZeroDataError || err instanceof ChainDoesNotSupportContract)) {
+          this.multicallSupported = false
+        }
+        console.warn('Multicall read failed, falling back to batched JSON-RPC reads:', error)
+      }
+    }
+
+    return Promise.all(contracts.map(contract =>
+      this.publicClient.readContract(contract).then(
+        (result): ArenaReadResult => ({ status: 'success', result }),
+        (error): ArenaReadResult => ({ status: 'failure', error })
+      )
+    ))
+  }
+
+  private unwrapRead(read: ArenaReadResult): unknown {
+    if (read.status === 'failure') throw read.error
+    return read.result
+  }
+
   /**
    * Acquire a new character
    */
   async acquireCharacter(characterTypeId: number): Promise<Hash> {
     try {
-      if (!this.walletClient) {
-        await this.initializeWalletClient()
-      }
-
-      const [account] = await this.walletClient.getAddresses()
+      const { walletClient, account } = await this.getSigner()
       
-      const { request } = await this.publicClient.simulateContract({
-        address: CONTRACT_ADDRESS,
+      const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+        address: this.address,
         abi: BATTLE_ARENA_ABI,
         functionName: 'acquireCharacter',
         args: [BigInt(characterTypeId)],
         account,
         value: 0n as const // Characters are currently free
-      })
+      }))
 
-      const hash = await this.walletClient.writeContract(request)
+      const hash = await walletClient.writeContract(request)
       return hash
     } catch (error) {
       console.error('Error acquiring character:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
@@ -292,25 +538,21 @@ export class ContractService {
    */
   async levelUpCharacter(characterInstanceId: number): Promise<Hash> {
     try {
-      if (!this.walletClient) {
-        await this.initializeWalletClient()
-      }
-
-      const [account] = await this.walletClient.getAddresses()
+      const { walletClient, account } = await this.getSigner()
       
-      const { request } = await this.publicClient.simulateContract({
-        address: CONTRACT_ADDRESS,
+      const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+        address: this.address,
         abi: BATTLE_ARENA_ABI,
         functionName: 'levelUpCharacter',
         args: [BigInt(characterInstanceId)],
         account
-      })
+      }))
 
-      const hash = await this.walletClient.writeContract(request)
+      const hash = await walletClient.writeContract(request)
       return hash
     } catch (error) {
       console.error('Error leveling up character:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
@@ -319,27 +561,23 @@ export class ContractService {
    */
   async initiateMatch(characterInstanceId: number, stakeAmount: string): Promise<Hash> {
     try {
-      if (!this.walletClient) {
-        await this.initializeWalletClient()
-      }
-
-      const [account] = await this.walletClient.getAddresses()
+      const { walletClient, account } = await this.getSigner()
       const stake = parseEther(stakeAmount)
       
-      const { request } = await this.publicClient.simulateContract({
-        address: CONTRACT_ADDRESS,
+      const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+        address: this.address,
         abi: BATTLE_ARENA_ABI,
         functionName: 'initiateMatch',
         args: [BigInt(characterInstanceId)],
         account,
         value: stake
-      })
+      }))
 
-      const hash = await this.walletClient.writeContract(request)
+      const hash = await walletClient.writeContract(request)
       return hash
     } catch (error) {
       console.error('Error initiating match:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
@@ -348,25 +586,21 @@ export class ContractService {
    */
   async joinMatch(matchId: number, characterInstanceId: number, stakeAmount: string): Promise<Hash> {
     try {
-      if (!this.walletClient) {
-        await this.initializeWalletClient()
-      }
-
-      const [account] = await this.walletClient.getAddresses()
+      const { walletClient, account } = await this.getSigner()
       const stake = parseEther(stakeAmount)
       
       try {
         // Try simulation first (preferred method)
-        const { request } = await this.publicClient.simulateContract({
-          address: CONTRACT_ADDRESS,
+        const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+          address: this.address,
           abi: BATTLE_ARENA_ABI,
           functionName: 'joinMatch',
           args: [BigInt(matchId), BigInt(characterInstanceId)],
           account,
           value: stake
-        })
+        }))
 
-        const hash = await this.walletClient.writeContract(request)
+        const hash = await walletClient.writeContract(request)
         return hash
       } catch (simulationError: any) {
         console.warn('Contract simulation failed, attempting direct transaction:', simulationError.message)
@@ -379,12 +613,13 @@ export class ContractService {
           console.log('Attempting direct transaction without simulation due to potential race condition')
           
           // Attempt direct transaction without simulation
-          const hash = await this.walletClient.writeContract({
-            address: CONTRACT_ADDRESS,
+          const hash = await walletClient.writeContract({
+            address: this.address,
             abi: BATTLE_ARENA_ABI,
             functionName: 'joinMatch',
             args: [BigInt(matchId), BigInt(characterInstanceId)],
             account,
+            chain: walletClient.chain,
             value: stake
           })
           
@@ -397,7 +632,7 @@ export class ContractService {
       }
     } catch (error) {
       console.error('Error joining match:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
@@ -406,25 +641,21 @@ export class ContractService {
    */
   async makeMove(matchId: number, abilityIndex: number): Promise<Hash> {
     try {
-      if (!this.walletClient) {
-        await this.initializeWalletClient()
-      }
-
-      const [account] = await this.walletClient.getAddresses()
+      const { walletClient, account } = await this.getSigner()
       
-      const { request } = await this.publicClient.simulateContract({
-        address: CONTRACT_ADDRESS,
+      const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+        address: this.address,
         abi: BATTLE_ARENA_ABI,
         functionName: 'makeMove',
         args: [BigInt(matchId), BigInt(abilityIndex)],
         account
-      })
+      }))
 
-      const hash = await this.walletClient.writeContract(request)
+      const hash = await walletClient.writeContract(request)
       return hash
     } catch (error) {
       console.error('Error making move:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
@@ -433,38 +664,91 @@ export class ContractService {
    */
   async claimTimeoutVictory(matchId: number): Promise<Hash> {
     try {
-      if (!this.walletClient) {
-        await this.initializeWalletClient()
-      }
-
-      const [account] = await this.walletClient.getAddresses()
+      const { walletClient, account } = await this.getSigner()
       
-      const { request } = await this.publicClient.simulateContract({
-        address: CONTRACT_ADDRESS,
+      const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+        address: this.address,
         abi: BATTLE_ARENA_ABI,
         functionName: 'claimTimeoutVictory',
         args: [BigInt(matchId)],
         account
-      })
+      }))
 
-      const hash = await this.walletClient.writeContract(request)
+      const hash = await walletClient.writeContract(request)
       return hash
     } catch (error) {
       console.error('Error claiming timeout victory:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
     }
   }
 
   /**
-   * Wait for transaction confirmation
+   * Wait for transaction confirmation. Each receipt poll is scheduled on its own;
+   * viem shares one poll between callers waiting on the same hash.
    */
-  async waitForTransaction(hash: Hash): Promise<any> {
+  async waitForTransaction(hash: Hash, onReplaced?: (replacement: ReplacementReturnType) => void): Promise<any> {
     try {
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
+      const receipt = await this.getPollingClient('battle').waitForTransactionReceipt({ hash, onReplaced })
       return receipt
     } catch (error) {
       console.error('Error waiting for transaction:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
+    }
+  }
+
+  private getTransaction(hash: Hash, priority: RpcPriority) {
+    return this.scheduler.schedule(priority, () => this.publicClient.getTransaction({ hash }), callKey('transaction', hash))
+  }
+
+  /**
+   * Whether the node still knows a transaction, mined or waiting in its mempool
+   */
+  async isTransactionKnown(hash: Hash): Promise<boolean> {
+    try {
+      await this.getTransaction(hash, 'background')
+      return true
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) return false
+      console.error('Error fetching transaction:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Value sent and gas actually paid by a mined transaction, with its decoded arena call when it is one
+   */
+  async getTransactionCost(hash: Hash): Promise<TransactionCost> {
+    try {
+      const [transaction, receipt] = await Promise.all([
+        this.getTransaction(hash, 'background'),
+        this.waitForTransaction(hash)
+      ])
+
+      let call: { functionName?: string; args?: readonly unknown[] } = {}
+      try {
+        call = decodeFunctionData({ abi: BATTLE_ARENA_ABI, data: transaction.input })
+      } catch {
+        // Not a call to the arena contract
+      }
+
+      const gasUsed = BigInt(receipt.gasUsed)
+      const effectiveGasPrice = BigInt(receipt.effectiveGasPrice ?? transaction.gasPrice ?? 0n)
+
+      return {
+        hash,
+        from: transaction.from,
+        value: transaction.value,
+        gasUsed,
+        effectiveGasPrice,
+        gasCost: gasUsed * effectiveGasPrice,
+        blockNumber: BigInt(receipt.blockNumber),
+        succeeded: receipt.status === 'success',
+        functionName: call.functionName,
+        args: call.args
+      }
+    } catch (error) {
+      console.error('Error reading transaction cost:', error)
+      throw decodeArenaError(error)
     }
   }
 
@@ -494,44 +778,40 @@ export class ContractService {
       account 
     })
     
-    // Add rate limiting delay to avoid 429 errors
-    await new Promise(resolve => setTimeout(resolve, 2000))
-    
     const maxRetries = 3; // Increased retries
     let lastError: any;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         if (!account && this.walletClient) {
-          const [walletAccount] = await this.walletClient.getAddresses()
-          account = walletAccount
+          const { account: signerAccount } = await this.getSigner()
+          account = typeof signerAccount === 'string' ? signerAccount : signerAccount.address
         }
 
         if (!account) {
           throw new Error('No account available for gas estimation')
         }
 
-        const gasEstimate = await this.publicClient.estimateContractGas({
-          address: CONTRACT_ADDRESS,
+        // The user is waiting on this, so it goes ahead of any queued reads
+        const gasEstimate = await this.scheduler.schedule('write', () => this.publicClient.estimateContractGas({
+          address: this.address,
           abi: BATTLE_ARENA_ABI,
           functionName: functionName as any,
           args: args as any,
-          account,
+          account: account!,
           value: value as any
-        })
+        }))
 
         return Web3Utils.addGasBuffer(gasEstimate)
       } catch (error) {
         lastError = error
         console.error(`Gas estimation attempt ${attempt + 1} failed:`, error)
         
-        // Don't retry on OutOfFund errors - these are definitive
-        if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
-          if (error.message.includes('OutOfFund') || 
-              error.message.includes('insufficient funds') ||
-              error.message.includes('Request exceeds defined limit')) {
-            break; // Don't retry these errors
-          }
+        // Don't retry on insufficient funds or contract reverts - these are definitive.
+        // Rate limits (RATE_LIMITED) and other node trouble fall through to the backoff below.
+        const decoded = decodeArenaError(error)
+        if (decoded.code === 'INSUFFICIENT_FUNDS' || decoded.code === 'UNKNOWN_REVERT' || decoded.revertReason) {
+          break
         }
         
         // Wait before retrying with exponential backoff for rate limiting
@@ -544,46 +824,364 @@ export class ContractService {
     }
 
     console.error('All gas estimation attempts failed:', lastError)
-    throw new Error(Web3Utils.parseContractError(lastError))
+    throw decodeArenaError(lastError)
   }
 
   /**
-   * Listen to contract events
+   * Listen to contract events. Each filter poll goes through the scheduler at the given priority.
    */
   watchContractEvents(
-    eventName: 'CharacterAcquired' | 'CharacterLeveledUp' | 'MatchInitiated' | 'MatchJoined' | 'MatchCompleted' | 'MoveMade', 
-    callback: (logs: any[]) => void
+    eventName: ArenaEventName, 
+    callback: (logs: any[]) => void,
+    args?: any,
+    onError?: (error: Error) => void,
+    priority: RpcPriority = 'background'
   ) {
-    return this.publicClient.watchContractEvent({
-      address: CONTRACT_ADDRESS,
+    return this.getPollingClient(priority).watchContractEvent({
+      address: this.address,
       abi: BATTLE_ARENA_ABI,
       eventName,
-      onLogs: callback
+      args,
+      onLogs: callback,
+      onError
+    })
+  }
+
+  /**
+   * Listen to every event the contract emits. All subscribers share one filter,
+   * opened with the first subscription and closed with the last.
+   */
+  watchAllContractEvents(
+    callback: (logs: any[]) => void,
+    onError?: (error: Error) => void
+  ) {
+    const listener: AllEventsListener = { onLogs: callback, onError }
+    this.allEventsListeners.add(listener)
+
+    if (!this.unwatchAllEvents) {
+      this.unwatchAllEvents = this.getPollingClient('background').watchContractEvent({
+        address: this.address,
+        abi: BATTLE_ARENA_ABI,
+        onLogs: (logs) => this.notifyAllEventsListeners(listener => listener.onLogs(logs)),
+        onError: (error) => this.notifyAllEventsListeners(listener => listener.onError?.(error))
+      })
+    }
+
+    return () => {
+      this.allEventsListeners.delete(listener)
+      if (this.allEventsListeners.size === 0 && this.unwatchAllEvents) {
+        this.unwatchAllEvents()
+        this.unwatchAllEvents = null
+      }
+    }
+  }
+
+  private notifyAllEventsListeners(notify: (listener: AllEventsListener) => void) {
+    // Copy first: a listener may unsubscribe (or resubscribe) while being notified
+    Array.from(this.allEventsListeners).forEach(listener => {
+      try {
+        notify(listener)
+      } catch (error) {
+        console.error('Error in contract event listener:', error)
+      }
     })
   }
 
+  /**
+   * Current gas price in wei
+   */
+  async getGasPrice(priority: RpcPriority = 'background'): Promise<bigint> {
+    try {
+      return await this.scheduler.schedule(priority, () => this.publicClient.getGasPrice(), callKey('gasPrice'))
+    } catch (error) {
+      console.error('Error fetching gas price:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Current fees per gas. EIP-1559 fees when the latest block carries a base fee, the legacy gas price otherwise.
+   */
+  async getFeeData(priority: RpcPriority = 'background'): Promise<FeeData> {
+    try {
+      const block = await this.scheduler.schedule(priority, () => this.publicClient.getBlock(), callKey('block', 'latest'))
+
+      if (block.baseFeePerGas === null || block.baseFeePerGas === undefined) {
+        const gasPrice = await this.getGasPrice(priority)
+        return { type: 'legacy', baseFeePerGas: gasPrice, maxPriorityFeePerGas: 0n, maxFeePerGas: gasPrice }
+      }
+
+      const fees = await this.scheduler.schedule(priority, () => this.publicClient.estimateFeesPerGas(), callKey('feesPerGas'))
+      return {
+        type: 'eip1559',
+        baseFeePerGas: block.baseFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        maxFeePerGas: fees.maxFeePerGas
+      }
+    } catch (error) {
+      console.error('Error fetching fee data:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get the latest block number
+   */
+  async getBlockNumber(priority: RpcPriority = 'background'): Promise<bigint> {
+    try {
+      return await this.scheduler.schedule(priority, () => this.publicClient.getBlockNumber(), callKey('blockNumber'))
+    } catch (error) {
+      console.error('Error fetching block number:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get a block's timestamp in seconds, or the latest block's when no number is given
+   */
+  async getBlockTimestamp(blockNumber?: bigint, priority: RpcPriority = 'background'): Promise<number> {
+    try {
+      const block = await this.scheduler.schedule(priority,
+        () => this.publicClient.getBlock(blockNumber !== undefined ? { blockNumber } : {}),
+        callKey('block', blockNumber ?? 'latest'))
+      return Number(block.timestamp)
+    } catch (error) {
+      console.error('Error fetching block:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Binary search for the first block mined at or after a unix timestamp (seconds)
+   */
+  async findBlockByTimestamp(timestamp: number, fromBlock: bigint = 0n): Promise<bigint> {
+    let low = fromBlock
+    let high = await this.getBlockNumber()
+
+    if (await this.getBlockTimestamp(high) < timestamp) return high + 1n
+
+    while (low < high) {
+      const mid = (low + high) / 2n
+      if (await this.getBlockTimestamp(mid) < timestamp) {
+        low = mid + 1n
+      } else {
+        high = mid
+      }
+    }
+    return low
+  }
+
   /**
    * Get past contract events
    */
-  async getPastEvents(
-    eventName: 'CharacterAcquired' | 'CharacterLeveledUp' | 'MatchInitiated' | 'MatchJoined' | 'MatchCompleted' | 'MoveMade', 
+  async getPastEvents<TEventName extends ArenaEventName>(
+    eventName: TEventName, 
     fromBlock?: bigint, 
     toBlock?: bigint,
-    args?: any
-  ) {
+    args?: any,
+    priority: RpcPriority = 'background'
+  ): Promise<ArenaEventLog<TEventName>[]> {
     try {
-      const logs = await this.publicClient.getContractEvents({
-        address: CONTRACT_ADDRESS,
+      const logs = await this.scheduler.schedule(priority, () => this.publicClient.getContractEvents({
+        address: this.address,
         abi: BATTLE_ARENA_ABI,
         eventName,
         fromBlock,
         toBlock,
         args
-      })
-      return logs
+      }), callKey('events', eventName, fromBlock, toBlock, args))
+      return logs as ArenaEventLog<TEventName>[]
     } catch (error) {
       console.error('Error fetching past events:', error)
-      throw new Error(Web3Utils.parseContractError(error))
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Get an event's history over a long block range (by default since deployment),
+   * INDEXER_BLOCK_RANGE blocks per call, as Etherlink nodes reject wide getLogs windows.
+   */
+  async getPastEventsInChunks<TEventName extends ArenaEventName>(
+    eventName: TEventName,
+    fromBlock: bigint = INDEXER_START_BLOCK,
+    toBlock?: bigint,
+    args?: any,
+    priority: RpcPriority = 'background'
+  ): Promise<ArenaEventLog<TEventName>[]> {
+    const lastBlock = toBlock ?? await this.getBlockNumber(priority)
+    const logs: ArenaEventLog<TEventName>[] = []
+
+    for (let start = fromBlock; start <= lastBlock; start += INDEXER_BLOCK_RANGE) {
+      const end = start + INDEXER_BLOCK_RANGE - 1n < lastBlock ? start + INDEXER_BLOCK_RANGE - 1n : lastBlock
+      logs.push(...await this.getPastEvents(eventName, start, end, args, priority))
+    }
+    return logs
+  }
+
+  /**
+   * Get every contract event in a block range with a single getLogs call.
+   * Errors are rethrown untouched so callers can tell a too-wide range apart.
+   */
+  async getAllPastEvents(fromBlock: bigint, toBlock: bigint) {
+    return this.scheduler.schedule('background', () => this.publicClient.getContractEvents({
+      address: this.address,
+      abi: BATTLE_ARENA_ABI,
+      fromBlock,
+      toBlock
+    }), callKey('events', 'all', fromBlock, toBlock))
+  }
+
+  // ---- Owner administration ----
+
+  /**
+   * Get the contract owner
+   */
+  async getOwner(): Promise<Address> {
+    try {
+      return await this.readContract<Address>({ functionName: 'owner', args: [] }, 'background')
+    } catch (error) {
+      console.error('Error fetching owner:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Whether the contract is paused
+   */
+  async isPaused(): Promise<boolean> {
+    try {
+      return await this.readContract<boolean>({ functionName: 'paused', args: [] }, 'background')
+    } catch (error) {
+      console.error('Error fetching paused state:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Platform fee in basis points (250 = 2.5%)
+   */
+  async getPlatformFeePercentage(): Promise<number> {
+    try {
+      const fee = await this.readContract<bigint>({ functionName: 'platformFeePercentage', args: [] }, 'background')
+      return Number(fee)
+    } catch (error) {
+      console.error('Error fetching platform fee:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * ETH held by the contract: accumulated fees plus the stakes of unfinished matches
+   */
+  async getContractBalance(): Promise<bigint> {
+    try {
+      return await this.scheduler.schedule('background', () => this.publicClient.getBalance({ address: this.address }))
+    } catch (error) {
+      console.error('Error fetching contract balance:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * When a match was created (unix seconds). getMatch leaves this out, so it is read from the public matches mapping.
+   */
+  async getMatchCreatedAt(matchId: number): Promise<number> {
+    try {
+      const match = await this.readContract<readonly unknown[]>({ functionName: 'matches', args: [BigInt(matchId)] }, 'background')
+      // matchId, player1, player2, character1, character2, stake, currentTurn, winner, status, turnCount, createdAt, lastMoveTimestamp
+      return Number(match[10] as bigint)
+    } catch (error) {
+      console.error('Error fetching match creation time:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Simulate and send an onlyOwner call from the connected wallet
+   */
+  private async writeOwnerFunction(call: OwnerCall): Promise<Hash> {
+    const { walletClient, account } = await this.getSigner()
+
+    const { request } = await this.scheduler.schedule('write', () => this.publicClient.simulateContract({
+      address: this.address,
+      abi: BATTLE_ARENA_ABI,
+      ...call,
+      account,
+      chain: walletClient.chain
+    }))
+
+    return await walletClient.writeContract(request)
+  }
+
+  /**
+   * Set the platform fee in basis points; the contract caps it at 1000 (10%)
+   */
+  async setPlatformFee(basisPoints: number): Promise<Hash> {
+    try {
+      return await this.writeOwnerFunction({ functionName: 'setPlatformFee', args: [BigInt(basisPoints)] })
+    } catch (error) {
+      console.error('Error setting platform fee:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Send the contract's whole balance to the owner
+   */
+  async withdrawPlatformFees(): Promise<Hash> {
+    try {
+      return await this.writeOwnerFunction({ functionName: 'withdrawPlatformFees', args: [] })
+    } catch (error) {
+      console.error('Error withdrawing platform fees:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Pause character purchases, matchmaking and moves
+   */
+  async pause(): Promise<Hash> {
+    try {
+      return await this.writeOwnerFunction({ functionName: 'pause', args: [] })
+    } catch (error) {
+      console.error('Error pausing contract:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Resume a paused contract
+   */
+  async unpause(): Promise<Hash> {
+    try {
+      return await this.writeOwnerFunction({ functionName: 'unpause', args: [] })
+    } catch (error) {
+      console.error('Error unpausing contract:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Cancel a stuck ongoing match and refund both stakes
+   */
+  async emergencyCancelMatch(matchId: number): Promise<Hash> {
+    try {
+      return await this.writeOwnerFunction({ functionName: 'emergencyCancelMatch', args: [BigInt(matchId)] })
+    } catch (error) {
+      console.error('Error cancelling match:', error)
+      throw decodeArenaError(error)
+    }
+  }
+
+  /**
+   * Hand contract ownership to another address
+   */
+  async transferOwnership(newOwner: Address): Promise<Hash> {
+    try {
+      return await this.writeOwnerFunction({ functionName: 'transferOwnership', args: [newOwner] })
+    } catch (error) {
+      console.error('Error transferring ownership:', error)
+      throw decodeArenaError(error)
     }
   }
 }
@@ -0,0 +1,481 @@
+// lib/event-indexer.ts - Client-side index of BattleArena events persisted in IndexedDB
+import type { Address, Hash } from 'viem'
+import { CHAIN_ID, CONTRACT_ADDRESS, INDEXER_START_BLOCK, INDEXER_BLOCK_RANGE } from './contract-config'
+import type { ContractService, ArenaEventName } from './contract-service'
+
+// One stored log. uint256 args are kept as decimal strings so records survive structured cloning
+export interface IndexedArenaEvent {
+  id: string
+  eventName: string
+  blockNumber: number
+  logIndex: number
+  transactionHash: Hash
+  matchId?: number
+  characterInstanceId?: number
+  // Lower-cased addresses named in the event, for lookups by player
+  addresses: string[]
+  args: Record<string, string>
+}
+
+export interface IndexedMatch {
+  matchId: number
+  player1: Address
+  player2: Address | null
+  stake: bigint
+  // null until MatchCompleted; emergency cancels emit nothing and stay null
+  winner: Address | null
+  reward: bigint | null
+  // Won through claimTimeoutVictory: the MatchCompleted came without a MoveMade in the same transaction
+  timedOut: boolean
+  moveCount: number
+  initiatedBlock: bigint
+  joinedBlock: bigint | null
+  completedBlock: bigint | null
+  initiatedTx: Hash
+  joinedTx: Hash | null
+  completedTx: Hash | null
+}
+
+export interface IndexedMove {
+  matchId: number
+  player: Address
+  abilityIndex: number
+  damage: number
+  blockNumber: bigint
+  transactionHash: Hash
+}
+
+export interface IndexedCharacter {
+  instanceId: number
+  owner: Address
+  characterTypeId: number
+  level: number
+  acquiredBlock: bigint
+  transactionHash: Hash
+}
+
+export type IndexerState = 'idle' | 'backfilling' | 'live' | 'error'
+
+export interface IndexerStatus {
+  state: IndexerState
+  lastIndexedBlock: bigint | null
+  latestBlock: bigint | null
+  error: string | null
+}
+
+const DB_NAME = `battle-arena-events-${CHAIN_ID}-${CONTRACT_ADDRESS.toLowerCase()}`
+const DB_VERSION = 1
+const EVENTS_STORE = 'events'
+const META_STORE = 'meta'
+const LAST_INDEXED_BLOCK_KEY = 'lastIndexedBlock'
+
+const MIN_BLOCK_RANGE = 100n // stop halving the getLogs window below this and report the error
+const RETRY_DELAY = 5000 // ms before resubscribing and catching up after an RPC error
+
+// Event args that hold an address, indexed so every participant can find the event
+const ADDRESS_ARGS = ['owner', 'initiator', 'opponent', 'winner', 'player']
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' })
+      events.createIndex('eventName', 'eventName')
+      events.createIndex('matchId', 'matchId')
+      events.createIndex('characterInstanceId', 'characterInstanceId')
+      events.createIndex('addresses', 'addresses', { multiEntry: true })
+      db.createObjectStore(META_STORE, { keyPath: 'key' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const toIndexedEvent = (log: any): IndexedArenaEvent | null => {
+  // Pending logs have no position yet; the watcher delivers them again once mined
+  if (!log.eventName || log.blockNumber === null || log.blockNumber === undefined || log.logIndex === null) {
+    return null
+  }
+
+  const args: Record<string, any> = log.args || {}
+  return {
+    id: `${log.transactionHash}_${log.logIndex}`,
+    eventName: log.eventName,
+    blockNumber: Number(log.blockNumber),
+    logIndex: Number(log.logIndex),
+    transactionHash: log.transactionHash,
+    matchId: args.matchId !== undefined ? Number(args.matchId) : undefined,
+    characterInstanceId: args.characterInstanceId !== undefined ? Number(args.characterInstanceId) : undefined,
+    addresses: ADDRESS_ARGS.filter(key => typeof args[key] === 'string').map(key => args[key].toLowerCase()),
+    args: Object.fromEntries(Object.entries(args).map(([key, value]) => [key, String(value)]))
+  }
+}
+
+const byChainOrder = (a: IndexedArenaEvent, b: IndexedArenaEvent): number =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+
+const buildMatch = (matchId: number, events: IndexedArenaEvent[]): IndexedMatch | null => {
+  const initiated = events.find(event => event.eventName === 'MatchInitiated')
+  if (!initiated) return null
+
+  const joined = events.find(event => event.eventName === 'MatchJoined')
+  const completed = events.find(event => event.eventName === 'MatchCompleted')
+  const moves = events.filter(event => event.eventName === 'MoveMade')
+
+  return {
+    matchId,
+    player1: initiated.args.initiator as Address,
+    player2: joined ? joined.args.opponent as Address : null,
+    stake: BigInt(initiated.args.stake),
+    winner: completed ? completed.args.winner as Address : null,
+    reward: completed ? BigInt(completed.args.reward) : null,
+    timedOut: !!completed && !moves.some(move => move.transactionHash === completed.transactionHash),
+    moveCount: moves.length,
+    initiatedBlock: BigInt(initiated.blockNumber),
+    joinedBlock: joined ? BigInt(joined.blockNumber) : null,
+    completedBlock: completed ? BigInt(completed.blockNumber) : null,
+    initiatedTx: initiated.transactionHash,
+    joinedTx: joined?.transactionHash ?? null,
+    completedTx: completed?.transactionHash ?? null
+  }
+}
+
+class EventIndexer {
+  private contractService: ContractService
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private startPromise: Promise<void> | null = null
+  private syncPromise: Promise<void> | null = null
+  private unwatch: (() => void) | null = null
+  private retryTimeout: NodeJS.Timeout | null = null
+  private eventListeners: Map<string, Function[]> = new Map()
+  private status: IndexerStatus = { state: 'idle', lastIndexedBlock: null, latestBlock: null, error: null }
+
+  constructor(contractService: ContractService) {
+    this.contractService = contractService
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof indexedDB !== 'undefined'
+  }
+
+  /**
+   * Backfill from the last indexed block, then follow new blocks. Safe to call repeatedly.
+   */
+  start(): Promise<void> {
+    if (!this.isSupported()) return Promise.resolve()
+
+    if (!this.startPromise) {
+      this.startPromise = (async () => {
+        try {
+          const lastIndexedBlock = await this.readLastIndexedBlock()
+          this.setStatus({ lastIndexedBlock })
+
+          // Watch before backfilling so nothing mined in between is missed; writes are idempotent
+          this.startWatching()
+          await this.sync()
+        } catch (error) {
+          this.handleError(error)
+        }
+      })()
+    }
+
+    return this.startPromise
+  }
+
+  stop(): void {
+    this.stopWatching()
+
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout)
+      this.retryTimeout = null
+    }
+
+    this.startPromise = null
+    this.setStatus({ state: 'idle' })
+  }
+
+  getStatus(): IndexerStatus {
+    return this.status
+  }
+
+  // Event handling: 'status' with IndexerStatus, 'events' with newly stored IndexedArenaEvent[]
+  on(eventName: string, callback: Function): void {
+    if (!this.eventListeners.has(eventName)) {
+      this.eventListeners.set(eventName, [])
+    }
+    this.eventListeners.get(eventName)?.push(callback)
+  }
+
+  off(eventName: string, callback?: Function): void {
+    if (!callback) {
+      this.eventListeners.delete(eventName)
+      return
+    }
+
+    const listeners = this.eventListeners.get(eventName)
+    if (listeners) {
+      const index = listeners.indexOf(callback)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }
+
+  private emit(eventName: string, data: any): void {
+    const listeners = this.eventListeners.get(eventName)
+    if (listeners) {
+      listeners.forEach(listener => {
+        try {
+          listener(data)
+        } catch (error) {
+          console.error('Error in indexer event listener:', error)
+        }
+      })
+    }
+  }
+
+  private setStatus(update: Partial<IndexerStatus>): void {
+    this.status = { ...this.status, ...update }
+    this.emit('status', this.status)
+  }
+
+  // Storage
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'))
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().catch(error => {
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async readLastIndexedBlock(): Promise<bigint | null> {
+    const db = await this.getDatabase()
+    const record = await requestToPromise(
+      db.transaction(META_STORE).objectStore(META_STORE).get(LAST_INDEXED_BLOCK_KEY)
+    )
+    return record ? BigInt(record.value) : null
+  }
+
+  /**
+   * Store logs and, in the same transaction, move the indexed-through marker
+   */
+  private async storeLogs(logs: any[], indexedThrough: bigint | null): Promise<void> {
+    const events = logs.map(toIndexedEvent).filter((event): event is IndexedArenaEvent => event !== null)
+    if (events.length === 0 && indexedThrough === null) return
+
+    const db = await this.getDatabase()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([EVENTS_STORE, META_STORE], 'readwrite')
+      const store = transaction.objectStore(EVENTS_STORE)
+      events.forEach(event => store.put(event))
+
+      if (indexedThrough !== null) {
+        transaction.objectStore(META_STORE).put({ key: LAST_INDEXED_BLOCK_KEY, value: indexedThrough.toString() })
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+
+    if (indexedThrough !== null) {
+      this.setStatus({ lastIndexedBlock: indexedThrough })
+    }
+    if (events.length > 0) {
+      this.emit('events', events.sort(byChainOrder))
+    }
+  }
+
+  // Backfill
+  private sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.backfill().finally(() => {
+        this.syncPromise = null
+      })
+    }
+    return this.syncPromise
+  }
+
+  private async backfill(): Promise<void> {
+    const latestBlock = await this.contractService.getBlockNumber()
+    let fromBlock = this.status.lastIndexedBlock !== null ? this.status.lastIndexedBlock + 1n : INDEXER_START_BLOCK
+    let range = INDEXER_BLOCK_RANGE
+
+    this.setStatus({ state: 'backfilling', latestBlock, error: null })
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = fromBlock + range - 1n < latestBlock ? fromBlock + range - 1n : latestBlock
+
+      let logs: any[]
+      try {
+        logs = await this.contractService.getAllPastEvents(fromBlock, toBlock)
+      } catch (error) {
+        // Most RPCs cap the getLogs window or result size; retry the same start with a narrower range
+        if (range > MIN_BLOCK_RANGE) {
+          range = range / 2n
+          continue
+        }
+        throw error
+      }
+
+      await this.storeLogs(logs, toBlock)
+      fromBlock = toBlock + 1n
+    }
+
+    this.setStatus({ state: 'live' })
+  }
+
+  // Live updates
+  private startWatching(): void {
+    if (this.unwatch) return
+
+    this.unwatch = this.contractService.watchAllContractEvents(
+      (logs) => this.handleLiveLogs(logs),
+      (error) => this.handleError(error)
+    )
+  }
+
+  private stopWatching(): void {
+    if (this.unwatch) {
+      this.unwatch()
+      this.unwatch = null
+    }
+  }
+
+  private async handleLiveLogs(logs: any[]): Promise<void> {
+    try {
+      // Only advance the marker once the backfill has covered everything before these logs
+      let indexedThrough: bigint | null = null
+      if (this.status.state === 'live') {
+        indexedThrough = logs.reduce<bigint | null>((highest, log) =>
+          log.blockNumber !== null && log.blockNumber !== undefined && (highest === null || log.blockNumber > highest)
+            ? log.blockNumber
+            : highest,
+        this.status.lastIndexedBlock)
+      }
+
+      await this.storeLogs(logs, indexedThrough)
+    } catch (error) {
+      console.error('Error storing arena events:', error)
+    }
+  }
+
+  private handleError(error: any): void {
+    console.error('Event indexer error:', error)
+    this.stopWatching()
+    this.setStatus({ state: 'error', error: error?.message || 'Indexing failed' })
+
+    if (this.retryTimeout) return
+
+    // Treat it as a dropped connection: resubscribe and catch up from the last indexed block
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null
+      this.startPromise = null
+      this.start()
+    }, RETRY_DELAY)
+  }
+
+  // Queries
+  private async getAllFromIndex(indexName: string, key: IDBValidKey): Promise<IndexedArenaEvent[]> {
+    const db = await this.getDatabase()
+    const events = await requestToPromise<IndexedArenaEvent[]>(
+      db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index(indexName).getAll(IDBKeyRange.only(key))
+    )
+    return events.sort(byChainOrder)
+  }
+
+  async getLastIndexedBlock(): Promise<bigint | null> {
+    return this.readLastIndexedBlock()
+  }
+
+  /**
+   * All stored events of one kind in chain order, optionally from a given block onward
+   */
+  async getEvents(eventName: ArenaEventName, fromBlock?: bigint): Promise<IndexedArenaEvent[]> {
+    const events = await this.getAllFromIndex('eventName', eventName)
+    return fromBlock === undefined ? events : events.filter(event => BigInt(event.blockNumber) >= fromBlock)
+  }
+
+  async getMatch(matchId: number): Promise<IndexedMatch | null> {
+    return buildMatch(matchId, await this.getAllFromIndex('matchId', matchId))
+  }
+
+  /**
+   * Matches the address created or joined, newest first
+   */
+  async getMatchesByPlayer(address: Address): Promise<IndexedMatch[]> {
+    const events = await this.getAllFromIndex('addresses', address.toLowerCase())
+    const matchIds = new Set(
+      events
+        .filter(event => event.eventName === 'MatchInitiated' || event.eventName === 'MatchJoined')
+        .map(event => event.matchId!)
+    )
+
+    const matches = await Promise.all(Array.from(matchIds).map(matchId => this.getMatch(matchId)))
+    return matches
+      .filter((match): match is IndexedMatch => match !== null)
+      .sort((a, b) => b.matchId - a.matchId)
+  }
+
+  async getMovesByMatch(matchId: number): Promise<IndexedMove[]> {
+    const events = await this.getAllFromIndex('matchId', matchId)
+    return events
+      .filter(event => event.eventName === 'MoveMade')
+      .map(event => ({
+        matchId,
+        player: event.args.player as Address,
+        abilityIndex: Number(event.args.abilityIndex),
+        damage: Number(event.args.damage),
+        blockNumber: BigInt(event.blockNumber),
+        transactionHash: event.transactionHash
+      }))
+  }
+
+  /**
+   * Characters acquired by the address, with their level replayed from CharacterLeveledUp
+   */
+  async getCharactersByOwner(owner: Address): Promise<IndexedCharacter[]> {
+    const events = await this.getAllFromIndex('addresses', owner.toLowerCase())
+    const acquired = events.filter(event => event.eventName === 'CharacterAcquired')
+
+    return Promise.all(acquired.map(async event => {
+      const instanceId = event.characterInstanceId!
+      const levelUps = (await this.getAllFromIndex('characterInstanceId', instanceId))
+        .filter(levelUp => levelUp.eventName === 'CharacterLeveledUp')
+
+      return {
+        instanceId,
+        owner: event.args.owner as Address,
+        characterTypeId: Number(event.args.characterTypeId),
+        level: levelUps.length > 0 ? Number(levelUps[levelUps.length - 1].args.newLevel) : 1,
+        acquiredBlock: BigInt(event.blockNumber),
+        transactionHash: event.transactionHash
+      }
+    }))
+  }
+}
+
+// Export singleton instance
+let eventIndexer: EventIndexer | null = null
+
+export function getEventIndexer(contractService: ContractService): EventIndexer {
+  if (!eventIndexer) {
+    eventIndexer = new EventIndexer(contractService)
+  }
+  return eventIndexer
+}
+
+export { EventIndexer }
@@ -0,0 +1,124 @@
+// lib/leaderboard.ts - Rank arena players from completed match history
+import type { Address } from 'viem'
+import type { PlayerRating } from './ratings'
+
+export type LeaderboardWindow = 'weekly' | 'all-time'
+export type LeaderboardMode = 'wins' | 'winRate' | 'ethWon' | 'streak' | 'rating'
+
+// A finished match reduced to what ranking needs
+export interface CompletedMatchResult {
+  matchId: number
+  player1: Address
+  player2: Address
+  winner: Address
+  reward: bigint
+  blockNumber: number
+  logIndex: number
+}
+
+export interface LeaderboardEntry {
+  address: Address
+  wins: number
+  losses: number
+  matches: number
+  winRate: number // 0-100
+  ethWon: bigint
+  currentStreak: number
+  bestStreak: number
+  // Matches getPlayerProfile counts that the event index doesn't have; none of the fields above include them
+  unindexedMatches?: number
+  // All-time Glicko-2 rating, whatever the window
+  rating?: PlayerRating
+}
+
+// Fewer matches than this and a player isn't ranked by win rate
+export const MIN_MATCHES_FOR_WIN_RATE = 5
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Start of the current leaderboard week: Monday 00:00 UTC
+ */
+export function getWeekStart(now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+  return start
+}
+
+/**
+ * Seconds until the weekly leaderboard resets
+ */
+export function getSecondsUntilWeekReset(now: Date = new Date()): number {
+  return Math.max(0, Math.floor((getWeekStart(now).getTime() + WEEK_MS - now.getTime()) / 1000))
+}
+
+/**
+ * Tally wins, losses, ETH won and streaks per address, replaying results in chain order
+ */
+export function buildLeaderboard(results: CompletedMatchResult[]): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>()
+
+  const getEntry = (address: Address): LeaderboardEntry => {
+    const key = address.toLowerCase()
+    let entry = entries.get(key)
+    if (!entry) {
+      entry = { address, wins: 0, losses: 0, matches: 0, winRate: 0, ethWon: 0n, currentStreak: 0, bestStreak: 0 }
+      entries.set(key, entry)
+    }
+    return entry
+  }
+
+  const ordered = [...results].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  for (const result of ordered) {
+    const loser = result.winner.toLowerCase() === result.player1.toLowerCase() ? result.player2 : result.player1
+    const winnerEntry = getEntry(result.winner)
+    const loserEntry = getEntry(loser)
+
+    winnerEntry.wins++
+    winnerEntry.matches++
+    winnerEntry.ethWon += result.reward
+    winnerEntry.currentStreak++
+    winnerEntry.bestStreak = Math.max(winnerEntry.bestStreak, winnerEntry.currentStreak)
+
+    loserEntry.losses++
+    loserEntry.matches++
+    loserEntry.currentStreak = 0
+  }
+
+  return Array.from(entries.values()).map(entry => ({
+    ...entry,
+    winRate: entry.matches > 0 ? (entry.wins / entry.matches) * 100 : 0
+  }))
+}
+
+/**
+ * Sort entries for a ranking mode. Win rate only ranks players with enough matches.
+ */
+export function rankLeaderboard(entries: LeaderboardEntry[], mode: LeaderboardMode): LeaderboardEntry[] {
+  const compareEth = (a: LeaderboardEntry, b: LeaderboardEntry) => (b.ethWon > a.ethWon ? 1 : b.ethWon < a.ethWon ? -1 : 0)
+
+  switch (mode) {
+    case 'wins':
+      return [...entries]
+        .filter(entry => entry.wins > 0)
+        .sort((a, b) => b.wins - a.wins || b.winRate - a.winRate || compareEth(a, b))
+    case 'winRate':
+      return entries
+        .filter(entry => entry.matches >= MIN_MATCHES_FOR_WIN_RATE)
+        .sort((a, b) => b.winRate - a.winRate || b.matches - a.matches)
+    case 'ethWon':
+      return entries
+        .filter(entry => entry.ethWon > 0n)
+        .sort((a, b) => compareEth(a, b) || b.wins - a.wins)
+    case 'streak':
+      return entries
+        .filter(entry => entry.currentStreak > 0)
+        .sort((a, b) => b.currentStreak - a.currentStreak || b.bestStreak - a.bestStreak || b.wins - a.wins)
+    case 'rating':
+      return entries
+        .filter(entry => entry.rating !== undefined)
+        .sort((a, b) => b.rating!.rating - a.rating!.rating || a.rating!.deviation - b.rating!.deviation)
+  }
+}
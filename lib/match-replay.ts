@@ -0,0 +1,142 @@
+// lib/match-replay.ts - Rebuild a finished arena match turn by turn from its MoveMade history
+import type { Address, Hash } from 'viem'
+import { GAME_CONSTANTS } from './contract-config'
+import {
+  applyMove,
+  getFighterIndex,
+  getMaxHealth,
+  getMaxMana,
+  isHealingAbility,
+  type BattleFighter,
+  type BattleState
+} from './battle-engine'
+
+export interface RecordedMove {
+  player: Address
+  abilityIndex: number
+  damage: number
+  transactionHash?: Hash
+  blockNumber?: bigint
+}
+
+// How the match ended, as far as the event history can tell
+export type MatchEndReason = 'knockout' | 'exhaustion' | 'timeout' | 'cancelled'
+
+export interface ReplayStep {
+  // 1-based move number
+  index: number
+  move: RecordedMove
+  abilityName: string
+  isHealing: boolean
+  damage: number
+  healed: number
+  // Battle state right after the move
+  state: BattleState
+  // True when the engine disagreed with the emitted damage and the recorded value was used instead
+  diverged: boolean
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+/**
+ * Apply a move using the damage the contract emitted, skipping validation.
+ * Used when the engine can't reproduce a recorded move (e.g. the character
+ * types changed since the match was played).
+ */
+function applyRecordedMove(state: BattleState, move: RecordedMove): Omit<ReplayStep, 'index' | 'move' | 'diverged'> {
+  const attackerIndex = getFighterIndex(state, move.player)
+  const defenderIndex = attackerIndex === 0 ? 1 : 0
+  const attacker: BattleFighter = { ...state.fighters[attackerIndex], abilityCooldowns: [...state.fighters[attackerIndex].abilityCooldowns] }
+  const defender: BattleFighter = { ...state.fighters[defenderIndex] }
+  const ability = attacker.characterType.abilities[move.abilityIndex]
+  const abilityName = ability?.name ?? `Ability ${move.abilityIndex + 1}`
+  const isHealing = !!ability && isHealingAbility(ability.name)
+
+  if (ability) {
+    attacker.currentMana = Math.max(0, attacker.currentMana - ability.manaCost)
+    attacker.abilityCooldowns[move.abilityIndex] = state.turnCount + ability.cooldown
+  }
+
+  let healed = 0
+  if (isHealing) {
+    const before = attacker.currentHealth
+    const maxHealth = getMaxHealth(attacker.characterType, attacker.instance.level)
+    attacker.currentHealth = Math.min(maxHealth, attacker.currentHealth + ability!.baseDamage)
+    healed = attacker.currentHealth - before
+  } else {
+    defender.currentHealth = Math.max(0, defender.currentHealth - move.damage)
+  }
+
+  const fighters: [BattleFighter, BattleFighter] = attackerIndex === 0 ? [attacker, defender] : [defender, attacker]
+
+  if (defender.currentHealth === 0) {
+    return {
+      abilityName,
+      isHealing,
+      damage: move.damage,
+      healed,
+      state: { ...state, fighters, isOver: true, winner: attacker.player }
+    }
+  }
+
+  const maxMana = getMaxMana(attacker.characterType, attacker.instance.level)
+  attacker.currentMana = Math.min(maxMana, attacker.currentMana + GAME_CONSTANTS.MANA_REGEN_PER_TURN)
+
+  let nextState: BattleState = { ...state, fighters, currentTurn: defender.player, turnCount: state.turnCount + 1 }
+  if (attacker.currentMana === 0 && defender.currentMana === 0) {
+    const winner = attacker.currentHealth > defender.currentHealth ? attacker.player : defender.player
+    nextState = { ...nextState, isOver: true, winner }
+  }
+
+  return {
+    abilityName,
+    isHealing,
+    damage: move.damage,
+    healed,
+    state: nextState
+  }
+}
+
+/**
+ * Replay recorded moves from the starting state, checking each one against the battle engine
+ */
+export function buildReplaySteps(initialState: BattleState, moves: RecordedMove[]): ReplayStep[] {
+  const steps: ReplayStep[] = []
+  let state = initialState
+
+  moves.forEach((move, i) => {
+    if (getFighterIndex(state, move.player) === -1) return
+
+    let step: Omit<ReplayStep, 'index' | 'move' | 'diverged'> | null = null
+    let diverged = false
+
+    try {
+      const outcome = applyMove(state, move.player, move.abilityIndex)
+      if (outcome.isHealing || outcome.damage === move.damage) {
+        step = outcome
+      }
+    } catch (error) {
+      console.warn(`Replay move ${i + 1} rejected by the battle engine:`, error)
+    }
+
+    if (!step) {
+      diverged = true
+      step = applyRecordedMove(state, move)
+    }
+
+    steps.push({ ...step, index: i + 1, move, diverged })
+    state = step.state
+  })
+
+  return steps
+}
+
+/**
+ * Work out how a completed match ended from its final replayed state and on-chain winner
+ */
+export function getMatchEndReason(finalState: BattleState, winner: Address | null): MatchEndReason {
+  // emergencyCancelMatch refunds both players without setting a winner
+  if (!winner || winner === ZERO_ADDRESS) return 'cancelled'
+  if (!finalState.isOver) return 'timeout'
+  return finalState.fighters.some(fighter => fighter.currentHealth === 0) ? 'knockout' : 'exhaustion'
+}
@@ -0,0 +1,43 @@
+// lib/payout.ts - What a staked arena match can pay out, mirroring _endMatch
+import { GAME_CONSTANTS } from './contract-config'
+
+export interface PayoutPreview {
+  stake: bigint
+  grossPot: bigint
+  platformFee: bigint
+  feeBasisPoints: number
+  winnerReward: bigint
+  // Winner's gain over their own stake, before gas
+  profitIfWon: bigint
+  experienceIfWon: number
+  // null until a gas estimate is available
+  gasCost: bigint | null
+  // Stake plus gas: everything that leaves the wallet on a loss
+  maxLoss: bigint
+}
+
+/**
+ * Pot, platform fee and winner reward with the contract's integer math:
+ * fee = 2 * stake * basisPoints / 10000, reward = 2 * stake - fee
+ */
+export function calculatePayout(stake: bigint, feeBasisPoints: number, gasCost: bigint | null = null): PayoutPreview {
+  const grossPot = stake * 2n
+  const platformFee = (grossPot * BigInt(feeBasisPoints)) / 10000n
+  const winnerReward = grossPot - platformFee
+
+  return {
+    stake,
+    grossPot,
+    platformFee,
+    feeBasisPoints,
+    winnerReward,
+    profitIfWon: winnerReward - stake,
+    experienceIfWon: GAME_CONSTANTS.WIN_EXPERIENCE,
+    gasCost,
+    maxLoss: stake + (gasCost ?? 0n)
+  }
+}
+
+export function formatFeePercent(basisPoints: number): string {
+  return `${(basisPoints / 100).toFixed(2).replace(/\.?0+$/, '')}%`
+}
@@ -0,0 +1,263 @@
+// lib/pending-transactions.ts - Arena transactions awaiting confirmation, persisted across reloads
+import { WaitForTransactionReceiptTimeoutError, type Address, type Hash, type ReplacementReason, type TransactionReceipt } from 'viem'
+import type { ContractService } from './contract-service'
+import { ArenaError, decodeArenaError } from './arena-errors'
+
+export type TransactionIntent = 'acquire' | 'level-up' | 'initiate' | 'join' | 'move' | 'claim'
+
+export type PendingTransactionStatus = 'pending' | 'confirmed' | 'failed'
+
+// What the transaction was for, so its follow-up can run without the screen that sent it
+export interface TransactionDetails {
+  account?: Address
+  matchId?: number
+  characterInstanceId?: number
+  characterTypeId?: number
+  abilityIndex?: number
+  stake?: string
+}
+
+export interface PendingTransaction extends TransactionDetails {
+  hash: Hash
+  intent: TransactionIntent
+  status: PendingTransactionStatus
+  submittedAt: number
+  // Picked up again from storage after a reload, so no caller is awaiting it
+  resumed: boolean
+  blockNumber?: bigint
+  error?: string
+}
+
+export type SettledTransactionHandler = (transaction: PendingTransaction, receipt: TransactionReceipt | null) => void
+
+const STORAGE_KEY = 'chronoClash_pendingTransactions'
+const MAX_SETTLED = 20 // settled entries kept in memory for status displays
+const RECEIPT_RETRY_DELAY = 5000 // ms before waiting on a receipt again after a timeout or RPC error
+const MAX_RECEIPT_FAILURES = 12 // consecutive unexplained failures before the status counts as unknown
+
+// What replacing a transaction meant for its intent: a speed-up still does the same thing
+const REPLACEMENT_ERRORS: Partial<Record<ReplacementReason, string>> = {
+  cancelled: 'Transaction was cancelled in the wallet',
+  replaced: 'Transaction was replaced by another with the same nonce'
+}
+
+const isReceiptTimeout = (error: unknown): boolean =>
+  (error instanceof ArenaError ? error.cause : error) instanceof WaitForTransactionReceiptTimeoutError
+
+class PendingTransactionManager {
+  private contractService: ContractService
+  private transactions: Map<Hash, PendingTransaction> = new Map()
+  private waits: Map<Hash, Promise<TransactionReceipt>> = new Map()
+  private listeners: Set<() => void> = new Set()
+  private settledHandlers: Map<TransactionIntent, Set<SettledTransactionHandler>> = new Map()
+  private hasResumed = false
+
+  constructor(contractService: ContractService) {
+    this.contractService = contractService
+  }
+
+  /**
+   * Record a submitted transaction and wait for its receipt. Reverted receipts resolve with
+   * status 'reverted'; the entry is marked failed either way.
+   */
+  track(hash: Hash, intent: TransactionIntent, details: TransactionDetails = {}): Promise<TransactionReceipt> {
+    if (!this.transactions.has(hash)) {
+      this.transactions.set(hash, {
+        ...details,
+        hash,
+        intent,
+        status: 'pending',
+        submittedAt: Date.now(),
+        resumed: false
+      })
+      this.persist()
+      this.notify()
+    }
+    return this.wait(hash)
+  }
+
+  /**
+   * Resume waiting on transactions stored by an earlier page load. Safe to call more than once.
+   */
+  resume(): void {
+    if (this.hasResumed || typeof window === 'undefined') return
+    this.hasResumed = true
+
+    const stored = this.load()
+    if (stored.length === 0) return
+
+    for (const transaction of stored) {
+      if (this.transactions.has(transaction.hash)) continue
+      this.transactions.set(transaction.hash, { ...transaction, status: 'pending', resumed: true })
+      // The outcome lands on the entry and the settled handlers
+      this.wait(transaction.hash).catch(() => {})
+    }
+    this.notify()
+  }
+
+  get(hash: Hash): PendingTransaction | null {
+    return this.transactions.get(hash) ?? null
+  }
+
+  list(): PendingTransaction[] {
+    return Array.from(this.transactions.values())
+  }
+
+  // Forget a settled transaction once its status has been seen
+  dismiss(hash: Hash): void {
+    const transaction = this.transactions.get(hash)
+    if (!transaction || transaction.status === 'pending') return
+    this.transactions.delete(hash)
+    this.notify()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Run a follow-up whenever a transaction with this intent confirms or fails
+   */
+  onSettled(intent: TransactionIntent, handler: SettledTransactionHandler): () => void {
+    if (!this.settledHandlers.has(intent)) {
+      this.settledHandlers.set(intent, new Set())
+    }
+    this.settledHandlers.get(intent)!.add(handler)
+    return () => {
+      this.settledHandlers.get(intent)?.delete(handler)
+    }
+  }
+
+  private wait(hash: Hash): Promise<TransactionReceipt> {
+    let waiting = this.waits.get(hash)
+    if (!waiting) {
+      let replacement: ReplacementReason | null = null
+      waiting = this.waitForReceipt(hash, reason => { replacement = reason }).then(
+        (receipt: TransactionReceipt) => {
+          const replacedError = replacement ? REPLACEMENT_ERRORS[replacement] : undefined
+          this.settle(hash, replacedError
+            ? { status: 'failed', blockNumber: receipt.blockNumber, error: replacedError }
+            : receipt.status === 'success'
+              ? { status: 'confirmed', blockNumber: receipt.blockNumber }
+              : { status: 'failed', blockNumber: receipt.blockNumber, error: 'Transaction reverted' },
+          receipt)
+          return receipt
+        },
+        (error: unknown) => {
+          this.settle(hash, { status: 'failed', error: decodeArenaError(error).message }, null)
+          throw error
+        }
+      )
+      this.waits.set(hash, waiting)
+    }
+    return waiting
+  }
+
+  /**
+   * Keep waiting while the node still holds the transaction: a slow queue doesn't mean it failed.
+   * Gives up once the node no longer knows it, or after repeated errors that say nothing either way
+   * (a bad hash, the wrong chain, a node that keeps rejecting the call).
+   */
+  private async waitForReceipt(hash: Hash, onReplaced: (reason: ReplacementReason) => void): Promise<TransactionReceipt> {
+    let failures = 0
+
+    for (;;) {
+      try {
+        return await this.contractService.waitForTransaction(hash, replacement => onReplaced(replacement.reason))
+      } catch (error) {
+        await new Promise(resolve => setTimeout(resolve, RECEIPT_RETRY_DELAY))
+
+        const known = isReceiptTimeout(error)
+          ? await this.contractService.isTransactionKnown(hash).catch(() => null)
+          : null
+        if (known === false) {
+          throw new Error('Transaction was dropped before it was mined')
+        }
+        if (known) {
+          failures = 0
+          continue
+        }
+
+        failures++
+        if (failures >= MAX_RECEIPT_FAILURES) {
+          throw new Error('Transaction status unknown: the RPC kept failing to report it')
+        }
+        console.warn('Still waiting for transaction:', hash, error)
+      }
+    }
+  }
+
+  private settle(hash: Hash, update: Partial<PendingTransaction>, receipt: TransactionReceipt | null): void {
+    const transaction = this.transactions.get(hash)
+    if (!transaction) return
+
+    const settled = { ...transaction, ...update }
+    this.transactions.set(hash, settled)
+    this.waits.delete(hash)
+    this.pruneSettled()
+    this.persist()
+    this.notify()
+
+    this.settledHandlers.get(settled.intent)?.forEach(handler => {
+      try {
+        handler(settled, receipt)
+      } catch (error) {
+        console.error('Error in pending transaction follow-up:', settled.intent, error)
+      }
+    })
+  }
+
+  private pruneSettled(): void {
+    const settled = this.list().filter(transaction => transaction.status !== 'pending')
+    for (const transaction of settled.slice(0, Math.max(0, settled.length - MAX_SETTLED))) {
+      this.transactions.delete(transaction.hash)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  // Only pending entries are stored; settled ones have nothing left to resume
+  private persist(): void {
+    if (typeof window === 'undefined') return
+    const pending = this.list()
+      .filter(transaction => transaction.status === 'pending')
+      .map(({ blockNumber, error, resumed, ...transaction }) => transaction)
+
+    try {
+      if (pending.length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(pending))
+      } else {
+        localStorage.removeItem(STORAGE_KEY)
+      }
+    } catch (error) {
+      console.error('Error saving pending transactions:', error)
+    }
+  }
+
+  private load(): PendingTransaction[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      return saved ? JSON.parse(saved) : []
+    } catch (error) {
+      console.error('Error loading pending transactions:', error)
+      return []
+    }
+  }
+}
+
+// Export singleton instance
+let pendingTransactionManager: PendingTransactionManager | null = null
+
+export function getPendingTransactionManager(contractService: ContractService): PendingTransactionManager {
+  if (!pendingTransactionManager) {
+    pendingTransactionManager = new PendingTransactionManager(contractService)
+  }
+  return pendingTransactionManager
+}
+
+export { PendingTransactionManager }
@@ -0,0 +1,161 @@
+// lib/ratings.ts - Glicko-2 skill ratings replayed from completed arena matches
+import type { Address } from 'viem'
+
+export interface PlayerRating {
+  rating: number
+  deviation: number
+  volatility: number
+  matches: number
+}
+
+// A finished match reduced to what rating needs
+export interface RatedMatchResult {
+  matchId: number
+  winner: Address
+  loser: Address
+  // Character levels at match time, when known
+  winnerLevel?: number
+  loserLevel?: number
+  blockNumber: number
+  logIndex: number
+}
+
+export interface RatingOptions {
+  // Treat a higher-level opponent as stronger than their rating alone says
+  adjustForLevelGap?: boolean
+}
+
+export const DEFAULT_RATING = 1500
+export const DEFAULT_DEVIATION = 350
+export const DEFAULT_VOLATILITY = 0.06
+
+// Above this deviation a rating is still settling and is shown as provisional
+export const PROVISIONAL_DEVIATION = 110
+
+// Rating points each character level of difference is worth when adjusting for level gap
+export const LEVEL_GAP_RATING_POINTS = 15
+
+const GLICKO_SCALE = 173.7178
+const TAU = 0.5 // constrains volatility change between matches
+const CONVERGENCE_TOLERANCE = 0.000001
+
+export function createRating(): PlayerRating {
+  return { rating: DEFAULT_RATING, deviation: DEFAULT_DEVIATION, volatility: DEFAULT_VOLATILITY, matches: 0 }
+}
+
+export function isProvisional(rating: PlayerRating): boolean {
+  return rating.deviation > PROVISIONAL_DEVIATION
+}
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number): number =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)))
+
+/**
+ * New volatility via the Illinois iteration from step 5 of the Glicko-2 paper
+ */
+const updateVolatility = (phi: number, sigma: number, delta: number, v: number): number => {
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (TAU * TAU)
+  }
+
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let k = 1
+    while (f(a - k * TAU) < 0) k++
+    B = a - k * TAU
+  }
+
+  let fA = f(A)
+  let fB = f(B)
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA = fA / 2
+    }
+    B = C
+    fB = fC
+  }
+
+  return Math.exp(A / 2)
+}
+
+/**
+ * Update one player's rating after a single match, treated as its own rating period.
+ * levelGap is the opponent's character level minus the player's, used to shift the opponent's effective rating.
+ */
+export function updateRating(player: PlayerRating, opponent: PlayerRating, score: 0 | 1, levelGap: number = 0): PlayerRating {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE
+  const phi = player.deviation / GLICKO_SCALE
+  const opponentMu = (opponent.rating + levelGap * LEVEL_GAP_RATING_POINTS - DEFAULT_RATING) / GLICKO_SCALE
+  const opponentPhi = opponent.deviation / GLICKO_SCALE
+
+  const gPhi = g(opponentPhi)
+  const expected = expectedScore(mu, opponentMu, opponentPhi)
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected))
+  const delta = v * gPhi * (score - expected)
+
+  const volatility = updateVolatility(phi, player.volatility, delta, v)
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility)
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+  const newMu = mu + newPhi * newPhi * gPhi * (score - expected)
+
+  return {
+    rating: newMu * GLICKO_SCALE + DEFAULT_RATING,
+    deviation: newPhi * GLICKO_SCALE,
+    volatility,
+    matches: player.matches + 1
+  }
+}
+
+/**
+ * Chance that the player beats the opponent, accounting for both deviations
+ */
+export function getWinProbability(player: PlayerRating, opponent: PlayerRating): number {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE
+  const opponentMu = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE
+  const combinedPhi = Math.sqrt(player.deviation ** 2 + opponent.deviation ** 2) / GLICKO_SCALE
+  return expectedScore(mu, opponentMu, combinedPhi)
+}
+
+/**
+ * Replay results in block order and return every address's rating, keyed by lower-cased address
+ */
+export function computeRatings(results: RatedMatchResult[], options: RatingOptions = {}): Map<string, PlayerRating> {
+  const ratings = new Map<string, PlayerRating>()
+  const getRating = (address: Address) => ratings.get(address.toLowerCase()) ?? createRating()
+
+  const ordered = [...results].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  for (const result of ordered) {
+    const winner = getRating(result.winner)
+    const loser = getRating(result.loser)
+
+    const levelGap = options.adjustForLevelGap && result.winnerLevel !== undefined && result.loserLevel !== undefined
+      ? result.loserLevel - result.winnerLevel
+      : 0
+
+    // Both sides update from their pre-match ratings
+    ratings.set(result.winner.toLowerCase(), updateRating(winner, loser, 1, levelGap))
+    ratings.set(result.loser.toLowerCase(), updateRating(loser, winner, 0, -levelGap))
+  }
+
+  return ratings
+}
+
+/**
+ * Rounded rating for display, marked with "?" while still provisional
+ */
+export function formatRating(rating: PlayerRating): string {
+  return `${Math.round(rating.rating)}${isProvisional(rating) ? '?' : ''}`
+}
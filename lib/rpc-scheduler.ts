@@ -0,0 +1,142 @@
+// lib/rpc-scheduler.ts - Prioritised, rate-budgeted queue for RPC calls
+import { RPC_REQUESTS_PER_SECOND, RPC_BURST } from './contract-config'
+
+// Highest first: what the user just clicked, then what a live battle needs, then everything else
+export type RpcPriority = 'write' | 'battle' | 'background'
+
+const PRIORITY_ORDER: readonly RpcPriority[] = ['write', 'battle', 'background']
+
+export interface RpcSchedulerConfig {
+  requestsPerSecond: number
+  // Bucket size: how many calls may start back to back after a quiet period
+  burst?: number
+}
+
+interface QueuedCall {
+  priority: RpcPriority
+  start: () => void
+}
+
+// An identical read already queued or running; later callers share its promise
+interface SharedCall {
+  promise: Promise<unknown>
+  queued: QueuedCall | null
+}
+
+/**
+ * Token bucket in front of the RPC. Each call spends one token; calls wait in per-priority
+ * queues and the highest non-empty queue is always served first. Calls given a key are
+ * coalesced with an identical call still in flight instead of being sent twice.
+ */
+class RpcScheduler {
+  private requestsPerSecond: number
+  private burst: number
+  private tokens: number
+  private lastRefill = Date.now()
+  private queues: Record<RpcPriority, QueuedCall[]> = { write: [], battle: [], background: [] }
+  private shared: Map<string, SharedCall> = new Map()
+  private running = 0
+  private drainTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(config: RpcSchedulerConfig) {
+    this.requestsPerSecond = Math.max(config.requestsPerSecond, 0.1)
+    this.burst = Math.max(config.burst ?? config.requestsPerSecond, 1)
+    this.tokens = this.burst
+  }
+
+  schedule<T>(priority: RpcPriority, call: () => Promise<T>, key?: string): Promise<T> {
+    if (key) {
+      const existing = this.shared.get(key)
+      if (existing) {
+        // A more urgent caller pulls the queued call forward with it
+        if (existing.queued && this.isHigher(priority, existing.queued.priority)) {
+          this.requeue(existing.queued, priority)
+        }
+        return existing.promise as Promise<T>
+      }
+    }
+
+    let resolve!: (value: T) => void
+    let reject!: (error: unknown) => void
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+
+    const queued: QueuedCall = {
+      priority,
+      start: () => {
+        if (entry) entry.queued = null
+        this.running++
+        Promise.resolve().then(call).then(resolve, reject).finally(() => {
+          this.running--
+          if (key && this.shared.get(key) === entry) this.shared.delete(key)
+        })
+      }
+    }
+    const entry: SharedCall | null = key ? { promise, queued } : null
+    if (key) this.shared.set(key, entry!)
+
+    this.queues[priority].push(queued)
+    this.drain()
+    return promise
+  }
+
+  private drain(): void {
+    this.refill()
+
+    while (this.tokens >= 1) {
+      const next = this.dequeue()
+      if (!next) return
+      this.tokens -= 1
+      next.start()
+    }
+
+    if (this.hasQueued() && !this.drainTimer) {
+      const wait = Math.ceil((1 - this.tokens) * 1000 / this.requestsPerSecond)
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = null
+        this.drain()
+      }, wait)
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.requestsPerSecond / 1000)
+    this.lastRefill = now
+  }
+
+  private dequeue(): QueuedCall | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const next = this.queues[priority].shift()
+      if (next) return next
+    }
+    return undefined
+  }
+
+  private hasQueued(): boolean {
+    return PRIORITY_ORDER.some(priority => this.queues[priority].length > 0)
+  }
+
+  private requeue(queued: QueuedCall, priority: RpcPriority): void {
+    const queue = this.queues[queued.priority]
+    const index = queue.indexOf(queued)
+    if (index === -1) return
+    queue.splice(index, 1)
+    queued.priority = priority
+    this.queues[priority].push(queued)
+  }
+
+  private isHigher(priority: RpcPriority, than: RpcPriority): boolean {
+    return PRIORITY_ORDER.indexOf(priority) < PRIORITY_ORDER.indexOf(than)
+  }
+}
+
+// Export singleton instance
+export const rpcScheduler = new RpcScheduler({
+  requestsPerSecond: RPC_REQUESTS_PER_SECOND,
+  burst: RPC_BURST
+})
+
+export { RpcScheduler }
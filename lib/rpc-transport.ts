@@ -0,0 +1,235 @@
+// lib/rpc-transport.ts - Failover transport across Etherlink RPC endpoints, ranked by health
+import {
+  createTransport,
+  http,
+  BaseError,
+  HttpRequestError,
+  LimitExceededRpcError,
+  InternalRpcError,
+  TimeoutError,
+  type EIP1193RequestFn,
+  type Transport
+} from 'viem'
+
+export interface RpcEndpointHealth {
+  url: string
+  // Moving averages over recent requests
+  latencyMs: number | null
+  errorRate: number
+  requests: number
+  failures: number
+  // Set after a 429: the endpoint is skipped until then
+  rateLimitedUntil: number | null
+  lastError: string | null
+  lastUsedAt: number | null
+  // The endpoint answered eth_chainId with a different chain and is never used
+  wrongChain: boolean
+}
+
+export interface FailoverTransportConfig {
+  // Extra attempts over the whole endpoint list once every endpoint has failed
+  retryCount?: number
+  retryDelay?: number
+  timeout?: number
+}
+
+const HEALTH_SMOOTHING = 0.2 // weight of the newest sample in the moving averages
+const UNMEASURED_LATENCY_MS = 500 // assumed for endpoints that haven't answered yet
+const ERROR_RATE_PENALTY = 4 // an endpoint failing every request ranks as 5x slower
+const RATE_LIMIT_BACKOFF_MS = 2000
+const MAX_RATE_LIMIT_BACKOFF_MS = 60000
+
+// Filters live on the node that created them, so their follow-up calls can't fail over
+const FILTER_METHODS = ['eth_getFilterChanges', 'eth_getFilterLogs', 'eth_uninstallFilter']
+
+const endpointHealth: Map<string, RpcEndpointHealth> = new Map()
+const consecutiveRateLimits: Map<string, number> = new Map()
+
+const getHealth = (url: string): RpcEndpointHealth => {
+  let health = endpointHealth.get(url)
+  if (!health) {
+    health = {
+      url,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      rateLimitedUntil: null,
+      lastError: null,
+      lastUsedAt: null,
+      wrongChain: false
+    }
+    endpointHealth.set(url, health)
+  }
+  return health
+}
+
+const recordSuccess = (url: string, latencyMs: number) => {
+  const health = getHealth(url)
+  endpointHealth.set(url, {
+    ...health,
+    latencyMs: health.latencyMs === null ? latencyMs : health.latencyMs + HEALTH_SMOOTHING * (latencyMs - health.latencyMs),
+    errorRate: health.errorRate * (1 - HEALTH_SMOOTHING),
+    requests: health.requests + 1,
+    lastUsedAt: Date.now()
+  })
+  consecutiveRateLimits.delete(url)
+}
+
+const recordFailure = (url: string, error: unknown, rateLimited: boolean) => {
+  const health = getHealth(url)
+  let rateLimitedUntil = health.rateLimitedUntil
+
+  if (rateLimited) {
+    // Honour Retry-After when the node sends it, otherwise back off exponentially
+    const strikes = (consecutiveRateLimits.get(url) ?? 0) + 1
+    consecutiveRateLimits.set(url, strikes)
+    const retryAfter = Number(findHttpError(error)?.headers?.get('retry-after'))
+    const backoff = retryAfter > 0
+      ? retryAfter * 1000
+      : Math.min(RATE_LIMIT_BACKOFF_MS * Math.pow(2, strikes - 1), MAX_RATE_LIMIT_BACKOFF_MS)
+    rateLimitedUntil = Date.now() + backoff
+  }
+
+  endpointHealth.set(url, {
+    ...health,
+    errorRate: health.errorRate + HEALTH_SMOOTHING * (1 - health.errorRate),
+    requests: health.requests + 1,
+    failures: health.failures + 1,
+    rateLimitedUntil,
+    lastError: error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error),
+    lastUsedAt: Date.now()
+  })
+}
+
+const recordWrongChain = (url: string, chainId: number, expectedChainId: number) => {
+  endpointHealth.set(url, {
+    ...getHealth(url),
+    wrongChain: true,
+    lastError: `Serves chain ${chainId}, expected ${expectedChainId}`
+  })
+}
+
+// The HTTP failure behind an error, if any, for its status and headers
+const findHttpError = (error: unknown): HttpRequestError | null => {
+  if (!(error instanceof BaseError)) return null
+  const httpError = error.walk(err => err instanceof HttpRequestError)
+  return httpError instanceof HttpRequestError ? httpError : null
+}
+
+const isRateLimited = (error: unknown): boolean =>
+  findHttpError(error)?.status === 429 ||
+  (error instanceof BaseError && !!error.walk(err => err instanceof LimitExceededRpcError))
+
+// Node or network trouble worth trying another endpoint for; reverts and bad params are the same everywhere
+const isEndpointFailure = (error: unknown): boolean =>
+  isRateLimited(error) ||
+  error instanceof HttpRequestError ||
+  error instanceof TimeoutError ||
+  (error instanceof BaseError && !!error.walk(err => err instanceof InternalRpcError))
+
+const score = (health: RpcEndpointHealth): number =>
+  (health.latencyMs ?? UNMEASURED_LATENCY_MS) * (1 + ERROR_RATE_PENALTY * health.errorRate)
+
+/**
+ * Endpoints in the order they should be tried: healthy ones by score, rate-limited ones last
+ */
+export function rankEndpoints(urls: string[]): string[] {
+  const now = Date.now()
+  return urls.filter(url => !getHealth(url).wrongChain).sort((a, b) => {
+    const healthA = getHealth(a)
+    const healthB = getHealth(b)
+    const coolingA = (healthA.rateLimitedUntil ?? 0) > now
+    const coolingB = (healthB.rateLimitedUntil ?? 0) > now
+    if (coolingA !== coolingB) return coolingA ? 1 : -1
+    if (coolingA && coolingB) return healthA.rateLimitedUntil! - healthB.rateLimitedUntil!
+    return score(healthA) - score(healthB)
+  })
+}
+
+export function getRpcHealth(): RpcEndpointHealth[] {
+  return Array.from(endpointHealth.values())
+}
+
+/**
+ * Transport that sends each request to the best-ranked endpoint and fails over to the next
+ * on network errors, timeouts and rate limiting. Each endpoint batches its own JSON-RPC calls.
+ */
+export function failoverTransport(urls: string[], config: FailoverTransportConfig = {}): Transport {
+  const uniqueUrls = Array.from(new Set(urls.filter(Boolean)))
+  uniqueUrls.forEach(getHealth)
+
+  return ({ chain, timeout = config.timeout }) => {
+    // Failover replaces per-endpoint retries; retries happen once the whole list has failed
+    const endpoints = new Map(uniqueUrls.map(url => [
+      url,
+      http(url, { batch: true, retryCount: 0, timeout, fetchOptions: { mode: 'cors' } })({ chain, retryCount: 0 })
+    ]))
+    const filterEndpoints: Map<string, string> = new Map()
+    const chainChecks: Map<string, Promise<boolean>> = new Map()
+
+    // Raw JSON-RPC results: the viem action that made the request gives them their type
+    const send = async (url: string, method: string, params?: unknown): Promise<any> => {
+      const started = Date.now()
+      const response = await endpoints.get(url)!.request({ method, params })
+      recordSuccess(url, Date.now() - started)
+      return response
+    }
+
+    // A mislabelled endpoint would answer for another network's state, so check it once before use
+    const servesChain = (url: string): Promise<boolean> => {
+      if (!chain) return Promise.resolve(true)
+      let check = chainChecks.get(url)
+      if (!check) {
+        check = send(url, 'eth_chainId').then(chainIdHex => {
+          const chainId = Number(chainIdHex)
+          if (chainId !== chain.id) recordWrongChain(url, chainId, chain.id)
+          return chainId === chain.id
+        })
+        // Unreachable isn't the same as wrong: check again next time
+        check.catch(() => chainChecks.delete(url))
+        chainChecks.set(url, check)
+      }
+      return check
+    }
+
+    const request: EIP1193RequestFn = async ({ method, params }) => {
+      const filterUrl = FILTER_METHODS.includes(method) && Array.isArray(params) ? filterEndpoints.get(String(params[0])) : undefined
+      if (filterUrl) {
+        try {
+          return await send(filterUrl, method, params)
+        } catch (error) {
+          if (isEndpointFailure(error)) recordFailure(filterUrl, error, isRateLimited(error))
+          throw error
+        }
+      }
+
+      let lastError: unknown = null
+      for (const url of rankEndpoints(uniqueUrls)) {
+        try {
+          if (!(await servesChain(url))) continue
+          const response = await send(url, method, params)
+          if (method === 'eth_newFilter' || method === 'eth_newBlockFilter') {
+            filterEndpoints.set(String(response), url)
+          }
+          return response
+        } catch (error) {
+          if (!isEndpointFailure(error)) throw error
+          recordFailure(url, error, isRateLimited(error))
+          lastError = error
+        }
+      }
+      throw lastError ?? new Error('No RPC endpoint available for this chain')
+    }
+
+    return createTransport({
+      key: 'failover',
+      name: 'Failover RPC',
+      type: 'failover',
+      retryCount: config.retryCount ?? 2,
+      retryDelay: config.retryDelay ?? 1000,
+      timeout,
+      request
+    }, { endpoints: uniqueUrls })
+  }
+}
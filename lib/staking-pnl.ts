@@ -0,0 +1,133 @@
+// lib/staking-pnl.ts - Staking profit and loss per match, day and character instance
+import { formatEther, type Hash } from 'viem'
+
+export type PnlOutcome = 'won' | 'lost' | 'refunded' | 'open' | 'ongoing'
+
+// One match from the wallet's side: ETH that left it and ETH that came back
+export interface PnlMatchRecord {
+  matchId: number
+  day: string // YYYY-MM-DD (UTC) of the staking transaction
+  timestamp: number
+  characterInstanceId: number | null
+  outcome: PnlOutcome
+  stakeSent: bigint
+  // Stake returned by an emergency cancel; the contract refunds without an event
+  stakeRefunded: bigint
+  reward: bigint
+  // Platform cut taken from the pot, charged to the winner's side
+  platformFee: bigint
+  // Gas for the stake, every move and any timeout claim sent by this wallet
+  gasPaid: bigint
+  transactions: Hash[]
+}
+
+export interface PnlTotals {
+  matches: number
+  stakeSent: bigint
+  stakeRefunded: bigint
+  rewards: bigint
+  platformFees: bigint
+  gasPaid: bigint
+  // Stakes still held by the contract for open or ongoing matches
+  inEscrow: bigint
+  // Balance change: rewards and refunds in, stakes and gas out
+  net: bigint
+}
+
+export interface PnlGroup {
+  key: string
+  totals: PnlTotals
+}
+
+const emptyTotals = (): PnlTotals => ({
+  matches: 0,
+  stakeSent: 0n,
+  stakeRefunded: 0n,
+  rewards: 0n,
+  platformFees: 0n,
+  gasPaid: 0n,
+  inEscrow: 0n,
+  net: 0n
+})
+
+/**
+ * UTC calendar day for a unix timestamp (seconds)
+ */
+export function toPnlDay(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * Fee the winner's pot lost to the platform: both stakes minus the reward paid out
+ */
+export function getPlatformFee(stake: bigint, reward: bigint): bigint {
+  const fee = stake * 2n - reward
+  return fee > 0n ? fee : 0n
+}
+
+export function sumPnl(records: PnlMatchRecord[]): PnlTotals {
+  return records.reduce((totals, record) => {
+    const isPending = record.outcome === 'open' || record.outcome === 'ongoing'
+    totals.matches++
+    totals.stakeSent += record.stakeSent
+    totals.stakeRefunded += record.stakeRefunded
+    totals.rewards += record.reward
+    totals.platformFees += record.platformFee
+    totals.gasPaid += record.gasPaid
+    totals.inEscrow += isPending ? record.stakeSent : 0n
+    totals.net += record.reward + record.stakeRefunded - record.stakeSent - record.gasPaid
+    return totals
+  }, emptyTotals())
+}
+
+/**
+ * Totals per key, newest day or highest instance first
+ */
+export function groupPnl(records: PnlMatchRecord[], getKey: (record: PnlMatchRecord) => string): PnlGroup[] {
+  const groups = new Map<string, PnlMatchRecord[]>()
+  for (const record of records) {
+    const key = getKey(record)
+    groups.set(key, [...(groups.get(key) ?? []), record])
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, grouped]) => ({ key, totals: sumPnl(grouped) }))
+    .sort((a, b) => b.key.localeCompare(a.key, undefined, { numeric: true }))
+}
+
+/**
+ * One CSV row per match, amounts in ETH, oldest first
+ */
+export function pnlToCsv(records: PnlMatchRecord[]): string {
+  const header = [
+    'match_id',
+    'date_utc',
+    'character_instance_id',
+    'outcome',
+    'stake_sent_eth',
+    'stake_refunded_eth',
+    'reward_eth',
+    'platform_fee_eth',
+    'gas_paid_eth',
+    'net_eth',
+    'transactions'
+  ]
+
+  const rows = [...records]
+    .sort((a, b) => a.timestamp - b.timestamp || a.matchId - b.matchId)
+    .map(record => [
+      record.matchId,
+      new Date(record.timestamp * 1000).toISOString(),
+      record.characterInstanceId ?? '',
+      record.outcome,
+      formatEther(record.stakeSent),
+      formatEther(record.stakeRefunded),
+      formatEther(record.reward),
+      formatEther(record.platformFee),
+      formatEther(record.gasPaid),
+      formatEther(record.reward + record.stakeRefunded - record.stakeSent - record.gasPaid),
+      record.transactions.join(' ')
+    ].join(','))
+
+  return [header.join(','), ...rows].join('\n')
+}
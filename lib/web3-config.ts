@@ -2,6 +2,15 @@
 import { createConfig, http } from 'wagmi'
 import { mainnet, sepolia } from 'wagmi/chains'
 import { injected, metaMask, walletConnect } from 'wagmi/connectors'
+import { createPublicClient } from 'viem'
+import { failoverTransport } from './rpc-transport'
+
+// Further Etherlink Testnet endpoints to fail over to, comma separated. Each must serve this
+// chain: the transport checks eth_chainId first and never uses one that doesn't.
+const fallbackRpcUrls = (process.env.NEXT_PUBLIC_ETHERLINK_FALLBACK_RPC_URLS || '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(Boolean)
 
 // Etherlink L2 Chain Configuration
 export const etherlink = {
@@ -16,22 +25,38 @@ export const etherlink = {
     default: {
       http: [
         process.env.NEXT_PUBLIC_ETHERLINK_RPC_URL || 'https://node.ghostnet.etherlink.com',
-        'https://rpc.etherlink.com' // Fallback RPC to handle rate limiting
+        ...fallbackRpcUrls
       ],
     },
     public: {
       http: [
         process.env.NEXT_PUBLIC_ETHERLINK_RPC_URL || 'https://node.ghostnet.etherlink.com',
-        'https://rpc.etherlink.com' // Fallback RPC to handle rate limiting
+        ...fallbackRpcUrls
       ],
     },
   },
   blockExplorers: {
     default: { name: 'Etherlink Explorer', url: 'https://testnet-explorer.etherlink.com' },
   },
+  contracts: {
+    // Canonical Multicall3 deployment, used to batch contract reads into one eth_call
+    multicall3: {
+      address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+    },
+  },
   testnet: true,
 } as const
 
+// Every configured Etherlink endpoint, ranked by latency and error rate, stepping back from any that
+// rate limit (429). Without NEXT_PUBLIC_ETHERLINK_FALLBACK_RPC_URLS there is one endpoint and no failover.
+export const etherlinkTransport = failoverTransport([...etherlink.rpcUrls.default.http])
+
+// Shared read client: every read goes through one transport, so concurrent calls share a batch
+export const publicClient = createPublicClient({
+  chain: etherlink,
+  transport: etherlinkTransport,
+})
+
 // Wagmi Configuration with retry and rate limiting
 export const config = createConfig({
   chains: [etherlink, sepolia, mainnet],
@@ -43,20 +68,7 @@ export const config = createConfig({
     }),
   ],
   transports: {
-    [etherlink.id]: http(process.env.NEXT_PUBLIC_ETHERLINK_RPC_URL, {
-      batch: true,
-      fetchOptions: {
-        mode: 'cors',
-      },
-      retryCount: 3,
-      retryDelay: ({ count, error }) => {
-        // Exponential backoff with jitter for rate limiting
-        if (error && error.message && error.message.includes('429')) {
-          return Math.min(1000 * Math.pow(2, count) + Math.random() * 1000, 10000)
-        }
-        return 1000 * Math.pow(2, count)
-      },
-    }),
+    [etherlink.id]: etherlinkTransport,
     [sepolia.id]: http(),
     [mainnet.id]: http(),
   },